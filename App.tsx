@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Sidebar from './components/Sidebar';
+import RequestQueueIndicator from './components/RequestQueueIndicator';
+import StorageStatusIndicator from './components/StorageStatusIndicator';
 import Dashboard from './views/Dashboard';
 import MetadataExplorer from './views/MetadataExplorer';
 import ScrapingBrowser from './views/ScrapingBrowser';
@@ -8,6 +10,7 @@ import WaybackTools from './views/WaybackTools';
 import Settings from './views/Settings';
 import { AppView, AppSettings } from './types';
 import { DEFAULT_SETTINGS } from './constants';
+import { saveQueue } from './services/saveQueue';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
@@ -28,6 +31,11 @@ const App: React.FC = () => {
     return DEFAULT_SETTINGS;
   });
 
+  // Resume SavePageNow captures left in the queue by a previous session
+  useEffect(() => {
+    saveQueue.load();
+  }, []);
+
   // Persist settings changes
   useEffect(() => {
     try {
@@ -97,6 +105,8 @@ const App: React.FC = () => {
                 {getViewTitle()}
             </h2>
             <div className="flex items-center gap-4">
+                 <StorageStatusIndicator />
+                 <RequestQueueIndicator />
                  {settings.demoMode && (
                     <div className="px-3 py-1 rounded-md text-xs font-bold border border-yellow-500/30 text-yellow-400 bg-yellow-500/10">
                         DEMO MODE
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Eraser, RefreshCw, Trash2 } from 'lucide-react';
+import { CachedResponse } from '../types';
+import { storageService } from '../services/storageService';
+import { isCacheEntryExpired, pruneCache } from '../services/cacheService';
+import { formatAge } from './ProvenanceBadge';
+import { Button } from './ui/Button';
+
+const CachePanel: React.FC = () => {
+  const [entries, setEntries] = useState<CachedResponse[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      setEntries(await storageService.getAllCachedResponses());
+    } catch (e) {
+      console.error("Failed to load cached responses", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const handleDelete = async (key: string) => {
+    try {
+      await storageService.deleteCachedResponse(key);
+      setEntries(prev => prev.filter(e => e.key !== key));
+    } catch (e) {
+      console.error("Failed to delete cached response", e);
+    }
+  };
+
+  const handlePrune = async () => {
+    try {
+      await pruneCache();
+      await loadEntries();
+    } catch (e) {
+      console.error("Failed to prune cache", e);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Remove all cached API responses?')) return;
+    try {
+      await storageService.clearCachedResponses();
+      setEntries([]);
+    } catch (e) {
+      console.error("Failed to clear cache", e);
+    }
+  };
+
+  const totalKb = entries.reduce((acc, e) => acc + JSON.stringify(e.data).length, 0) / 1024;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-gray-500">
+          {entries.length} entries · {totalKb.toFixed(1)} KB
+        </span>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={loadEntries} isLoading={loading} className="h-8 text-xs">
+            <RefreshCw className="w-3 h-3" /> Refresh
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={handlePrune}
+            disabled={entries.length === 0}
+            className="h-8 text-xs"
+            title="Remove expired entries no longer kept for offline use, and the oldest beyond the cache limit"
+          >
+            <Eraser className="w-3 h-3" /> Prune
+          </Button>
+          <Button variant="danger" onClick={handleClear} disabled={entries.length === 0} className="h-8 text-xs">
+            <Trash2 className="w-3 h-3" /> Clear All
+          </Button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center text-sm text-gray-500 py-6 bg-gray-900/50 rounded-lg border border-gray-700/50 border-dashed">
+          No cached responses.
+        </div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-700/50 divide-y divide-gray-700/50">
+          {entries.map(entry => {
+            const expired = isCacheEntryExpired(entry.endpoint, entry.fetchedAt);
+            return (
+              <div key={entry.key} className="flex items-center gap-3 px-3 py-2 bg-gray-900/50 text-xs">
+                <span className="shrink-0 w-16 uppercase font-bold tracking-wider text-indigo-300">{entry.endpoint}</span>
+                <span className="flex-1 min-w-0 truncate font-mono text-gray-400" title={entry.url}>{entry.url}</span>
+                <span
+                  className={`shrink-0 ${expired ? 'text-gray-600' : 'text-gray-400'}`}
+                  title={new Date(entry.fetchedAt).toLocaleString()}
+                >
+                  {formatAge(entry.fetchedAt)}{expired ? ' (expired)' : ''}
+                </span>
+                <button
+                  onClick={() => handleDelete(entry.key)}
+                  className="shrink-0 p-1 hover:bg-red-500/20 text-gray-500 hover:text-red-400 rounded transition-colors"
+                  title="Remove"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Lightbulb, RefreshCw, Settings as SettingsIcon, TestTube2 } from 'lucide-react';
+import { AppView } from '../types';
+import { ApiError, ApiErrorKind } from '../services/errors';
+import { Button } from './ui/Button';
+
+interface ErrorPanelProps {
+  error: ApiError;
+  onRetry?: () => void;
+  onChangeView?: (view: AppView) => void;
+  className?: string;
+  // View-specific suggestions rendered below the remedy
+  children?: React.ReactNode;
+}
+
+type RemedyAction = 'settings' | 'demo' | 'retry';
+
+interface Remedy {
+  title: string;
+  hint: (error: ApiError) => string;
+  actions: RemedyAction[];
+  settingsLabel?: string;
+}
+
+const REMEDIES: Record<ApiErrorKind, Remedy> = {
+  'network': {
+    title: 'Connection Failed',
+    hint: e => e.timedOut
+      ? 'The Internet Archive took too long to answer. Try again, or raise the request timeout in Settings.'
+      : 'The Internet Archive APIs often block direct browser requests (CORS). Run the bundled local proxy or set a CORS Proxy in Settings.',
+    actions: ['settings', 'demo', 'retry'],
+    settingsLabel: 'Enable Proxy',
+  },
+  'rate-limited': {
+    title: 'Rate Limited',
+    hint: () => 'The Internet Archive asked OmniDash to slow down. Requests to this host are paused until the limit resets.',
+    actions: ['retry'],
+  },
+  'not-found': {
+    title: 'Not Found',
+    hint: () => 'The API has no record for this request. Double check the identifier or URL.',
+    actions: [],
+  },
+  'auth-missing': {
+    title: 'API Keys Required',
+    hint: () => 'This action needs Internet Archive S3 keys. Add them in Settings, or start the local proxy with IA_ACCESS_KEY and IA_SECRET_KEY.',
+    actions: ['settings'],
+    settingsLabel: 'Add API Keys',
+  },
+  'auth-rejected': {
+    title: 'Credentials Rejected',
+    hint: () => 'The Internet Archive refused the configured keys. Check the access and secret key in Settings.',
+    actions: ['settings', 'retry'],
+    settingsLabel: 'Check API Keys',
+  },
+  'solr-syntax': {
+    title: 'Invalid Search Query',
+    hint: () => 'Check quotes, parentheses and field names (e.g. mediatype:texts), or switch to the Scrape API.',
+    actions: [],
+  },
+  'upstream': {
+    title: 'Internet Archive Unavailable',
+    hint: () => 'The service returned a server error. This is usually temporary.',
+    actions: ['retry'],
+  },
+  'non-json': {
+    title: 'Unexpected Response',
+    hint: e => `Expected JSON but received ${e.contentType || 'something else'}. A misconfigured CORS proxy often returns an HTML page instead.`,
+    actions: ['settings', 'retry'],
+    settingsLabel: 'Check Proxy',
+  },
+  'fixture-missing': {
+    title: 'No Recorded Fixture',
+    hint: () => 'Demo Mode replays recorded responses. Record this request with "Record fixtures" while online, or import a fixture bundle in Settings.',
+    actions: ['settings'],
+    settingsLabel: 'Manage Fixtures',
+  },
+  'unknown': {
+    title: 'Request Failed',
+    hint: () => 'Try again. If the problem persists, check the browser console for details.',
+    actions: ['retry'],
+  },
+};
+
+const enableDemoMode = () => {
+  try {
+    const current = localStorage.getItem('omnidash_settings');
+    const parsed = current ? JSON.parse(current) : {};
+    localStorage.setItem('omnidash_settings', JSON.stringify({ ...parsed, demoMode: true }));
+    window.location.reload(); // Simple reload to pick up new settings context
+  } catch(e) { console.error(e); }
+};
+
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, onRetry, onChangeView, className = '', children }) => {
+  const remedy = REMEDIES[error.kind];
+  const [now, setNow] = useState(Date.now());
+
+  // Count down to the end of a rate-limit pause
+  const waitSeconds = error.retryAt ? Math.max(0, Math.ceil((error.retryAt - now) / 1000)) : 0;
+  useEffect(() => {
+    if (!error.retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [error]);
+
+  const showSettings = remedy.actions.includes('settings') && onChangeView;
+  const showRetry = remedy.actions.includes('retry') && onRetry;
+
+  return (
+    <div className={`p-4 bg-red-500/10 border border-red-500/20 rounded-xl animate-in fade-in slide-in-from-top-2 ${className}`}>
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <h4 className="text-red-400 font-bold mb-1">
+            {remedy.title}
+            {error.status && <span className="ml-2 text-xs font-mono text-red-400/70">HTTP {error.status}</span>}
+          </h4>
+          <p className="text-gray-300 text-sm mb-3 break-words">{error.message}</p>
+
+          <div className="bg-gray-900/50 p-3 rounded-lg border border-gray-700/50 text-sm">
+            <div className="flex items-start gap-2 text-gray-400">
+              <Lightbulb className="w-4 h-4 text-indigo-300 shrink-0 mt-0.5" />
+              <p>{remedy.hint(error)}</p>
+            </div>
+            {(showSettings || showRetry || remedy.actions.includes('demo')) && (
+              <div className="flex flex-wrap gap-3 mt-3">
+                {showSettings && (
+                  <Button variant="secondary" onClick={() => onChangeView(AppView.SETTINGS)} className="h-8 text-xs">
+                    <SettingsIcon className="w-3 h-3 mr-1" /> {remedy.settingsLabel || 'Open Settings'}
+                  </Button>
+                )}
+                {remedy.actions.includes('demo') && (
+                  <Button onClick={enableDemoMode} className="h-8 text-xs bg-yellow-600 hover:bg-yellow-500 text-white">
+                    <TestTube2 className="w-3 h-3 mr-1" /> Enable Demo Mode
+                  </Button>
+                )}
+                {showRetry && (
+                  <Button variant="secondary" onClick={onRetry} disabled={waitSeconds > 0} className="h-8 text-xs">
+                    <RefreshCw className="w-3 h-3 mr-1" /> {waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Retry'}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
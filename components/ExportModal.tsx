@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Download, Copy, Check, FileText, Table, FileJson, Database, FileSpreadsheet, X, Wand2 } from 'lucide-react';
+import { Download, Copy, Check, FileText, Table, FileJson, Database, FileSpreadsheet, X, Wand2, AlertTriangle } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { SavedSnapshot } from '../types';
+import { ExportReport, SavedSnapshot } from '../types';
 import { Button } from './ui/Button';
+import { isMockProvenance } from '../services/provenance';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
   data: SavedSnapshot[];
+  // Exported instead of `data` when given
+  report?: ExportReport;
 }
 
 type ExportFormat = 'text' | 'csv' | 'json' | 'xlsx' | 'sql';
 
-const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, data }) => {
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, data, report }) => {
   const [format, setFormat] = useState<ExportFormat>('json');
   const [content, setContent] = useState('');
   const [xlsxPreview, setXlsxPreview] = useState('');
@@ -31,9 +34,11 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, data }) => {
   };
 
   // Prepare data for export
-  const getExportData = (forExcel = false) => {
+  const getExportData = (forExcel = false): Record<string, any>[] => {
+    if (report) return report.rows;
     return data.map((item) => {
-      let pageContent = item.content || '';
+      // Binary captures (PDFs, images) are described, never inlined as text
+      let pageContent = item.blob ? '' : item.content || '';
       
       if (cleanHtml) {
           pageContent = stripHtmlTags(pageContent);
@@ -54,6 +59,16 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, data }) => {
         capture_date: formatWaybackTimestamp(item.timestamp),
         saved_date: dateObj.toLocaleString(),
         mimetype: item.mimetype,
+        folder: item.folder,
+        tags: item.tags.join(', '),
+        starred: item.starred,
+        notes: item.notes,
+        // Snapshots saved before provenance was tracked have no source recorded
+        data_source: item.provenance?.source || 'unknown',
+        data_endpoint: item.provenance?.endpoint || '',
+        data_proxy: item.provenance?.proxy || '',
+        content_kind: item.blob ? 'binary' : 'text',
+        content_bytes: item.blob ? item.blob.size : new Blob([item.content || '']).size,
         page_content: pageContent
       };
     });
@@ -63,7 +78,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, data }) => {
     if (isOpen) {
       generateContent(format);
     }
-  }, [format, isOpen, data, cleanHtml]);
+  }, [format, isOpen, data, report, cleanHtml]);
 
   const generateContent = (fmt: ExportFormat) => {
     setContent('');
@@ -96,6 +111,9 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, data }) => {
   };
 
   const generateText = (items: any[]) => {
+    if (report) {
+      return items.map(item => Object.entries(item).map(([key, value]) => `${key}: ${value}`).join('\n')).join('\n--------------------------------------------------\n');
+    }
     return items.map(item => `
 ==================================================
 ID: ${item.id}
@@ -104,15 +122,31 @@ Wayback URL: ${item.url}
 Capture Date: ${item.capture_date}
 Saved Date: ${item.saved_date}
 MimeType: ${item.mimetype}
+Folder: ${item.folder || '-'}
+Tags: ${item.tags || '-'}
+Starred: ${item.starred ? 'Yes' : 'No'}
+Notes: ${item.notes || '-'}
+Data Source: ${item.data_source}${item.data_proxy ? ` (via ${item.data_proxy})` : ''}
+Endpoint: ${item.data_endpoint}
 --------------------------------------------------
 CONTENT PREVIEW:
-${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...' : ''}
+${item.content_kind === 'binary'
+  ? `[Binary ${item.mimetype}, ${item.content_bytes} bytes; not included in exports]`
+  : `${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...' : ''}`}
 ==================================================
 `).join('\n\n');
   };
 
   const generateSQL = (items: any[]) => {
     if (items.length === 0) return '-- No data to export';
+    if (report) {
+      const columns = Object.keys(items[0]);
+      const createReport = `CREATE TABLE IF NOT EXISTS ${report.name} (\n${columns.map(c => `  ${c} TEXT`).join(',\n')}\n);\n\n`;
+      return createReport + items.map(item => {
+        const values = columns.map(c => `'${String(item[c]).replace(/'/g, "''")}'`).join(', ');
+        return `INSERT INTO ${report.name} (${columns.join(', ')}) VALUES (${values});`;
+      }).join('\n');
+    }
     const tableName = 'snapshots';
     const createTable = `CREATE TABLE IF NOT EXISTS ${tableName} (
   id VARCHAR(255) PRIMARY KEY,
@@ -121,6 +155,15 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
   capture_date DATETIME,
   saved_date DATETIME,
   mimetype VARCHAR(50),
+  folder TEXT,
+  tags TEXT,
+  starred BOOLEAN,
+  notes TEXT,
+  data_source VARCHAR(20),
+  data_endpoint TEXT,
+  data_proxy TEXT,
+  content_kind VARCHAR(10),
+  content_bytes INTEGER,
   page_content TEXT
 );\n\n`;
 
@@ -133,6 +176,15 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
           item.capture_date,
           item.saved_date,
           item.mimetype,
+          item.folder,
+          item.tags,
+          item.starred ? 1 : 0,
+          item.notes,
+          item.data_source,
+          item.data_endpoint,
+          item.data_proxy,
+          item.content_kind,
+          item.content_bytes,
           item.page_content
       ];
 
@@ -143,7 +195,7 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
            return `'${str}'`;
         }) 
         .join(', ');
-      return `INSERT INTO ${tableName} (id, url, original_url, capture_date, saved_date, mimetype, page_content) VALUES (${values});`;
+      return `INSERT INTO ${tableName} (id, url, original_url, capture_date, saved_date, mimetype, folder, tags, starred, notes, data_source, data_endpoint, data_proxy, content_kind, content_bytes, page_content) VALUES (${values});`;
     }).join('\n');
 
     return createTable + inserts;
@@ -166,13 +218,14 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
 
   const handleDownload = () => {
     const timestamp = new Date().toISOString().slice(0, 10);
-    const filename = `omnidash_export_${timestamp}`;
+    const filename = `omnidash_${report?.name || 'export'}_${timestamp}`;
 
     if (format === 'xlsx') {
       const excelData = getExportData(true);
       const ws = XLSX.utils.json_to_sheet(excelData);
       const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, "Snapshots");
+      // Excel caps sheet names at 31 characters
+      XLSX.utils.book_append_sheet(wb, ws, report ? report.title.slice(0, 31) : "Snapshots");
       XLSX.writeFile(wb, `${filename}.xlsx`);
     } else {
       const mimeTypes = {
@@ -196,6 +249,9 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
 
   if (!isOpen) return null;
 
+  const recordCount = report ? report.rows.length : data.length;
+  const mockCount = report ? report.mockRows : data.filter(item => isMockProvenance(item.provenance)).length;
+
   return (
     <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
       <div className="bg-gray-900 w-full max-w-5xl rounded-2xl border border-gray-700 shadow-2xl flex flex-col h-[85vh]">
@@ -204,10 +260,10 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
         <div className="flex items-center justify-between p-6 border-b border-gray-800 shrink-0">
           <div className="flex items-center gap-4">
               <h2 className="text-xl font-bold text-white flex items-center gap-2">
-                <Database className="w-5 h-5 text-teal-400" /> Export Database
+                <Database className="w-5 h-5 text-teal-400" /> {report ? `Export ${report.title}` : 'Export Database'}
               </h2>
-              <div className="h-6 w-px bg-gray-700"></div>
-              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none group">
+              {!report && <div className="h-6 w-px bg-gray-700"></div>}
+              {!report && <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none group">
                   <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${cleanHtml ? 'bg-teal-500 border-teal-500' : 'border-gray-600 bg-gray-800 group-hover:border-gray-500'}`}>
                       {cleanHtml && <Check className="w-3 h-3 text-white" />}
                   </div>
@@ -218,7 +274,7 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
                       onChange={(e) => setCleanHtml(e.target.checked)} 
                   />
                   <span className="flex items-center gap-1.5"><Wand2 className="w-3 h-3 text-purple-400" /> Clean HTML (Extract Text)</span>
-              </label>
+              </label>}
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
             <X className="w-6 h-6" />
@@ -248,6 +304,13 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
            ))}
         </div>
 
+        {mockCount > 0 && (
+          <div className="flex items-center gap-2 px-6 py-2 bg-red-500/10 border-b border-red-500/30 text-xs text-red-300 shrink-0">
+            <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />
+            {mockCount} of {recordCount} records contain mock data, not Internet Archive content. See the data_source column.
+          </div>
+        )}
+
         {/* Content Area */}
         <div className="flex-1 p-0 overflow-hidden relative bg-gray-950">
           {format === 'xlsx' ? (
@@ -276,7 +339,7 @@ ${item.page_content.substring(0, 1000)}${item.page_content.length > 1000 ? '...'
         {/* Footer */}
         <div className="p-6 border-t border-gray-800 bg-gray-900 flex justify-between items-center shrink-0">
             <div className="text-xs text-gray-500">
-                Exporting {data.length} records. {format === 'xlsx' ? '(Content truncated to 32k chars)' : '(Full Content Included)'}
+                Exporting {recordCount} records.{!report && (format === 'xlsx' ? ' (Content truncated to 32k chars)' : ' (Full Content Included)')}
             </div>
             <div className="flex gap-3">
                 <Button variant="secondary" onClick={handleCopy}>
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { Fixture } from '../types';
+import { storageService } from '../services/storageService';
+import { exportFixtureBundle, importFixtureBundle } from '../services/fixtureService';
+import { formatAge } from './ProvenanceBadge';
+import { Button } from './ui/Button';
+
+const FixturePanel: React.FC = () => {
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFixtures = async () => {
+    setLoading(true);
+    try {
+      setFixtures(await storageService.getAllFixtures());
+    } catch (e) {
+      console.error("Failed to load fixtures", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFixtures();
+  }, []);
+
+  const handleExport = async () => {
+    try {
+      const bundle = await exportFixtureBundle();
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `omnidash_fixtures_${new Date().toISOString().slice(0, 10)}.har`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Failed to export fixtures", e);
+      setMessage({ type: 'error', text: 'Export failed.' });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importFixtureBundle(JSON.parse(await file.text()));
+      setMessage({ type: 'success', text: `Imported ${count} fixtures from ${file.name}.` });
+      await loadFixtures();
+    } catch (err: any) {
+      console.error("Failed to import fixtures", err);
+      setMessage({ type: 'error', text: err.message || 'Import failed.' });
+    }
+  };
+
+  const handleDelete = async (key: string) => {
+    try {
+      await storageService.deleteFixture(key);
+      setFixtures(prev => prev.filter(f => f.key !== key));
+    } catch (e) {
+      console.error("Failed to delete fixture", e);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Remove all recorded fixtures?')) return;
+    try {
+      await storageService.clearFixtures();
+      setFixtures([]);
+    } catch (e) {
+      console.error("Failed to clear fixtures", e);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-gray-500">{fixtures.length} recorded responses</span>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={loadFixtures} isLoading={loading} className="h-8 text-xs">
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="h-8 text-xs">
+            <Upload className="w-3 h-3" /> Import
+          </Button>
+          <Button variant="secondary" onClick={handleExport} disabled={fixtures.length === 0} className="h-8 text-xs">
+            <Download className="w-3 h-3" /> Export
+          </Button>
+          <Button variant="danger" onClick={handleClear} disabled={fixtures.length === 0} className="h-8 text-xs">
+            <Trash2 className="w-3 h-3" /> Clear
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".har,.json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mb-3 text-xs px-3 py-2 rounded-lg border ${message.type === 'success' ? 'text-green-300 bg-green-500/10 border-green-500/20' : 'text-red-300 bg-red-500/10 border-red-500/20'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {fixtures.length === 0 ? (
+        <div className="text-center text-sm text-gray-500 py-6 bg-gray-900/50 rounded-lg border border-gray-700/50 border-dashed">
+          No fixtures. Enable recording and use the app online, or import a bundle.
+        </div>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-700/50 divide-y divide-gray-700/50">
+          {fixtures.map(fixture => (
+            <div key={fixture.key} className="flex items-center gap-3 px-3 py-2 bg-gray-900/50 text-xs">
+              <span className="shrink-0 w-10 font-bold text-purple-300">{fixture.method}</span>
+              <span className="flex-1 min-w-0 truncate font-mono text-gray-400" title={fixture.url}>{fixture.url}</span>
+              <span className={`shrink-0 font-mono ${fixture.status < 400 ? 'text-gray-400' : 'text-red-400'}`}>{fixture.status}</span>
+              <span className="shrink-0 text-gray-500" title={new Date(fixture.recordedAt).toLocaleString()}>
+                {formatAge(fixture.recordedAt)}
+              </span>
+              <button
+                onClick={() => handleDelete(fixture.key)}
+                className="shrink-0 p-1 hover:bg-red-500/20 text-gray-500 hover:text-red-400 rounded transition-colors"
+                title="Remove"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FixturePanel;
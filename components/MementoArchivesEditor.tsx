@@ -0,0 +1,83 @@
+import React from 'react';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { MementoArchive } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+
+interface Props {
+  archives: MementoArchive[];
+  onChange: (archives: MementoArchive[]) => void;
+}
+
+const isEndpoint = (value: string) => /^https?:\/\/[^/\s]+\/\S*$/i.test(value.trim());
+
+const inputClass = (valid: boolean) =>
+  `w-full bg-gray-900 border rounded-lg px-3 py-1.5 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none font-mono ${valid ? 'border-gray-700' : 'border-red-500'}`;
+
+/** Editable list of Memento archives queried next to the Wayback Machine. */
+const MementoArchivesEditor: React.FC<Props> = ({ archives, onChange }) => {
+  const update = (id: string, patch: Partial<MementoArchive>) =>
+    onChange(archives.map(archive => (archive.id === id ? { ...archive, ...patch } : archive)));
+
+  const add = () =>
+    onChange([...archives, { id: `custom-${Date.now()}`, name: 'Local pywb', timegate: 'http://localhost:8080/my-web-archive/', timemap: 'http://localhost:8080/my-web-archive/timemap/link/', enabled: true }]);
+
+  return (
+    <div className="space-y-3">
+      {archives.map(archive => (
+        <div key={archive.id} className={`rounded-lg border p-3 ${archive.enabled ? 'border-gray-700 bg-gray-900/40' : 'border-gray-800 bg-gray-900/20 opacity-70'}`}>
+          <div className="flex items-center gap-3 mb-2">
+            <input
+              type="checkbox"
+              checked={archive.enabled}
+              onChange={e => update(archive.id, { enabled: e.target.checked })}
+              className="accent-indigo-500"
+              title="Query this archive"
+            />
+            <input
+              value={archive.name}
+              onChange={e => update(archive.id, { name: e.target.value })}
+              className="flex-1 bg-transparent text-sm font-medium text-white outline-none border-b border-transparent focus:border-indigo-500"
+            />
+            <button
+              onClick={() => onChange(archives.filter(a => a.id !== archive.id))}
+              className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+              title="Remove archive"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">TimeGate</label>
+              <input
+                value={archive.timegate}
+                onChange={e => update(archive.id, { timegate: e.target.value })}
+                placeholder="https://archive.example/timegate/"
+                className={inputClass(isEndpoint(archive.timegate))}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">TimeMap (link format)</label>
+              <input
+                value={archive.timemap}
+                onChange={e => update(archive.id, { timemap: e.target.value })}
+                placeholder="https://archive.example/timemap/link/"
+                className={inputClass(isEndpoint(archive.timemap))}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center gap-4 text-xs">
+        <button onClick={add} className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-medium">
+          <Plus className="w-3.5 h-3.5" /> Add archive
+        </button>
+        <button onClick={() => onChange(DEFAULT_SETTINGS.mementoArchives)} className="flex items-center gap-1 text-gray-500 hover:text-gray-300">
+          <RotateCcw className="w-3.5 h-3.5" /> Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MementoArchivesEditor;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { AlertTriangle, FlaskConical, History, Radio, Disc3, WifiOff } from 'lucide-react';
+import { Provenance } from '../types';
+
+interface ProvenanceBadgeProps {
+  provenance?: Provenance;
+  className?: string;
+}
+
+export const formatAge = (timestamp: number) => {
+  const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+  if (seconds < 60) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+};
+
+export const PROVENANCE_LABELS: Record<Provenance['source'], string> = {
+  'live': 'Live',
+  'cached': 'Cached',
+  'fixture': 'Fixture (Demo Mode)',
+  'mock-demo': 'Mock (Demo Mode)',
+  'mock-fallback': 'Mock (API failed)',
+};
+
+const BASE_CLASSES = 'inline-flex items-center gap-1.5 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border';
+
+const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ provenance, className = '' }) => {
+  if (!provenance) return null;
+
+  const fetched = new Date(provenance.fetchedAt).toLocaleString();
+  const via = provenance.proxy ? ` via ${provenance.proxy}` : '';
+  const details = `${provenance.endpoint}${via}`;
+
+  switch (provenance.source) {
+    case 'mock-fallback':
+      return (
+        <span
+          className={`${BASE_CLASSES} bg-red-500/15 text-red-400 border-red-500/40 ${className}`}
+          title={`The live request to ${details} failed and was replaced with generated data. Disable "Mock data fallback" in Settings to see the error instead.`}
+        >
+          <AlertTriangle className="w-3 h-3" /> Mock data · API failed
+        </span>
+      );
+    case 'mock-demo':
+      return (
+        <span
+          className={`${BASE_CLASSES} bg-purple-500/10 text-purple-300 border-purple-500/30 ${className}`}
+          title="Demo Mode is on. This is generated data, not an Internet Archive response."
+        >
+          <FlaskConical className="w-3 h-3" /> Mock data · Demo
+        </span>
+      );
+    case 'fixture':
+      return (
+        <span
+          className={`${BASE_CLASSES} bg-purple-500/10 text-purple-300 border-purple-500/30 ${className}`}
+          title={`Demo Mode is on. Replaying the response of ${provenance.endpoint} recorded ${fetched}.`}
+        >
+          <Disc3 className="w-3 h-3" /> Fixture · {formatAge(provenance.fetchedAt)}
+        </span>
+      );
+    case 'cached':
+      return provenance.stale ? (
+        <span
+          className={`${BASE_CLASSES} bg-amber-500/10 text-amber-400 border-amber-500/20 ${className}`}
+          title={`Network unavailable. Showing an expired copy of ${details}, fetched ${fetched}.`}
+        >
+          <WifiOff className="w-3 h-3" /> Offline copy · {formatAge(provenance.fetchedAt)}
+        </span>
+      ) : (
+        <span
+          className={`${BASE_CLASSES} bg-sky-500/10 text-sky-400 border-sky-500/20 ${className}`}
+          title={`Served from the local cache. ${details}, fetched ${fetched}.`}
+        >
+          <History className="w-3 h-3" /> Cached · {formatAge(provenance.fetchedAt)}
+        </span>
+      );
+    default:
+      return (
+        <span
+          className={`${BASE_CLASSES} bg-green-500/10 text-green-400 border-green-500/20 ${className}`}
+          title={`Live response from ${details}, fetched ${fetched}.`}
+        >
+          <Radio className="w-3 h-3" /> Live{provenance.proxy ? ' · Proxied' : ''}
+        </span>
+      );
+  }
+};
+
+export default ProvenanceBadge;
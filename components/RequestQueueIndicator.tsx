@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { Hourglass, PauseCircle } from 'lucide-react';
+import { requestScheduler, SchedulerStatus } from '../services/requestScheduler';
+
+const RequestQueueIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SchedulerStatus>(() => requestScheduler.getStatus());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => requestScheduler.subscribe(setStatus), []);
+
+  // Tick once a second while throttled so the countdown stays current
+  const activeThrottles = status.throttled.filter(t => t.resumeAt > now);
+  const isThrottled = activeThrottles.length > 0;
+  useEffect(() => {
+    if (!isThrottled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isThrottled]);
+
+  useEffect(() => setNow(Date.now()), [status]);
+
+  if (isThrottled) {
+    const longest = activeThrottles.reduce((a, b) => (b.resumeAt > a.resumeAt ? b : a));
+    const seconds = Math.ceil((longest.resumeAt - now) / 1000);
+    return (
+      <div
+        className="flex items-center gap-2 px-3 py-1 rounded-md text-xs font-bold border border-orange-500/30 text-orange-400 bg-orange-500/10"
+        title={activeThrottles.map(t => t.host).join(', ')}
+      >
+        <PauseCircle className="w-3.5 h-3.5" />
+        RATE LIMITED · {seconds}s
+        {status.queued > 0 && <span className="font-medium text-orange-300/80">({status.queued} queued)</span>}
+      </div>
+    );
+  }
+
+  if (status.queued > 0) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-1 rounded-md text-xs font-bold border border-sky-500/30 text-sky-400 bg-sky-500/10">
+        <Hourglass className="w-3.5 h-3.5" />
+        {status.queued} QUEUED
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default RequestQueueIndicator;
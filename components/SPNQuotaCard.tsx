@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, KeyRound, RefreshCw } from 'lucide-react';
+import { AppSettings, AppView, SPNUserStatus } from '../types';
+import { fetchSaveUserStatus } from '../services/waybackService';
+import { isAbortError } from '../services/httpClient';
+import { ApiError, toApiError } from '../services/errors';
+import { useAbortController } from '../hooks/useAbortController';
+import { SPN_DAILY_RESERVE } from '../constants';
+import ProvenanceBadge from './ProvenanceBadge';
+
+interface SPNQuotaCardProps {
+  settings: AppSettings;
+  onChangeView?: (view: AppView) => void;
+  className?: string;
+}
+
+/** SavePageNow account limits: free capture sessions, running captures and today's usage. */
+const SPNQuotaCard: React.FC<SPNQuotaCardProps> = ({ settings, onChangeView, className = '' }) => {
+  const [quota, setQuota] = useState<SPNUserStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const { renew } = useAbortController();
+
+  const load = async () => {
+    const signal = renew();
+    setLoading(true);
+    setError(null);
+    try {
+      setQuota(await fetchSaveUserStatus(settings.accessKey, settings.secretKey, signal));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setQuota(null);
+      setError(toApiError(e, 'Failed to read the SavePageNow quota'));
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [settings.accessKey, settings.secretKey, settings.demoMode]);
+
+  const limit = quota?.dailyCapturesLimit ?? null;
+  const usedPercent = quota && limit ? Math.min(100, (quota.dailyCaptures / limit) * 100) : 0;
+  const nearLimit = quota && limit !== null && limit - quota.dailyCaptures <= SPN_DAILY_RESERVE;
+
+  return (
+    <div className={`bg-gray-800 border border-gray-700 rounded-xl p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-gray-300 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-indigo-400" /> SavePageNow Quota
+        </h4>
+        <div className="flex items-center gap-2">
+          {quota && <ProvenanceBadge provenance={quota.provenance} />}
+          <button
+            onClick={load}
+            disabled={loading}
+            className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (error.kind === 'auth-missing' ? (
+        <div className="flex items-center justify-between gap-3 text-xs text-gray-400">
+          <span className="flex items-center gap-2"><KeyRound className="w-3.5 h-3.5 text-yellow-500" /> Add your S3 keys to see capture limits.</span>
+          {onChangeView && (
+            <button onClick={() => onChangeView(AppView.SETTINGS)} className="text-yellow-500 hover:text-yellow-400 font-medium hover:underline">
+              Configure Keys &rarr;
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-red-300 break-words">{error.message}</p>
+      ))}
+
+      {quota && (
+        <>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className={`text-xl font-bold ${quota.available > 0 ? 'text-white' : 'text-orange-400'}`}>{quota.available}</div>
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider">Sessions free</div>
+            </div>
+            <div>
+              <div className="text-xl font-bold text-white">{quota.processing}</div>
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider">Active captures</div>
+            </div>
+            <div>
+              <div className={`text-xl font-bold ${nearLimit ? 'text-red-400' : 'text-white'}`}>{quota.dailyCaptures.toLocaleString()}</div>
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider">Captures today</div>
+            </div>
+          </div>
+          {limit !== null && (
+            <div className="mt-3">
+              <div className="h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all ${nearLimit ? 'bg-red-500' : usedPercent > 75 ? 'bg-orange-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${usedPercent}%` }}
+                />
+              </div>
+              <div className="mt-1 text-[10px] text-gray-500 text-right">
+                {(limit - quota.dailyCaptures).toLocaleString()} of {limit.toLocaleString()} daily captures left
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SPNQuotaCard;
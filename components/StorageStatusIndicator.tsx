@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { DatabaseZap, RefreshCw } from 'lucide-react';
+import { storageService, StorageStatus } from '../services/storageService';
+
+const StorageStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<StorageStatus>(() => storageService.getStatus());
+
+  useEffect(() => storageService.subscribe(setStatus), []);
+
+  if (status.state === 'blocked') {
+    return (
+      <div
+        className="flex items-center gap-2 px-3 py-1 rounded-md text-xs font-bold border border-yellow-500/30 text-yellow-400 bg-yellow-500/10"
+        title={status.message}
+      >
+        <DatabaseZap className="w-3.5 h-3.5" />
+        UPGRADE WAITING · CLOSE OTHER TABS
+      </div>
+    );
+  }
+
+  if (status.state === 'outdated' || status.state === 'failed') {
+    return (
+      <div
+        className="flex items-center gap-2 px-3 py-1 rounded-md text-xs font-bold border border-red-500/30 text-red-400 bg-red-500/10"
+        title={status.message}
+      >
+        <DatabaseZap className="w-3.5 h-3.5" />
+        {status.state === 'outdated' ? 'LIBRARY OUTDATED' : 'LIBRARY UNAVAILABLE'}
+        <button onClick={() => window.location.reload()} className="flex items-center gap-1 font-medium text-red-300/80 hover:text-red-200">
+          <RefreshCw className="w-3 h-3" /> Reload
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default StorageStatusIndicator;
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Camera, CheckCircle, Clock, Download, ExternalLink, FileUp, ListChecks, Loader2, Square, XCircle } from 'lucide-react';
+import { SaveQueueStatus, SPNOptions } from '../../types';
+import { BatchAvailabilityRow, batchAvailabilityToReport, runAvailabilityBatch } from '../../services/batchAvailabilityService';
+import { parseUrlList, saveQueue, SaveQueueState } from '../../services/saveQueue';
+import { ApiError, toApiError } from '../../services/errors';
+import { useAbortController } from '../../hooks/useAbortController';
+import { Button } from '../ui/Button';
+import ErrorPanel from '../ErrorPanel';
+import ExportModal from '../ExportModal';
+import ProvenanceBadge from '../ProvenanceBadge';
+
+interface Props {
+  spnOptions: SPNOptions;
+  // Switches to the SavePageNow tab, where queued captures are tracked
+  onOpenSaveQueue: () => void;
+}
+
+const formatDate = (ts?: string) => (ts ? `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)}` : '—');
+
+const QUEUE_LABELS: Record<SaveQueueStatus, string> = {
+  queued: 'Queued',
+  submitting: 'Submitting',
+  capturing: 'Capturing',
+  success: 'Saved',
+  error: 'Save failed',
+};
+
+const ArchivedBadge: React.FC<{ row: BatchAvailabilityRow }> = ({ row }) => {
+  switch (row.status) {
+    case 'queued':
+      return <span className="flex items-center gap-1.5 text-gray-500"><Clock className="w-3 h-3" /> Waiting</span>;
+    case 'checking':
+      return <span className="flex items-center gap-1.5 text-yellow-400"><Loader2 className="w-3 h-3 animate-spin" /> Checking</span>;
+    case 'error':
+      return <span className="flex items-center gap-1.5 text-red-400" title={row.error?.message}><XCircle className="w-3 h-3" /> Error</span>;
+    default:
+      return row.archived
+        ? <span className="flex items-center gap-1.5 text-green-400"><CheckCircle className="w-3 h-3" /> Yes</span>
+        : <span className="flex items-center gap-1.5 text-orange-400"><XCircle className="w-3 h-3" /> No</span>;
+  }
+};
+
+/**
+ * Checks a pasted or uploaded URL list against the Wayback Machine and
+ * reports, per URL, whether and how often it was archived. Unarchived URLs go
+ * to the SavePageNow queue from here.
+ */
+const BatchAvailabilityPanel: React.FC<Props> = ({ spnOptions, onOpenSaveQueue }) => {
+  const [text, setText] = useState('');
+  const [rows, setRows] = useState<BatchAvailabilityRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [queueState, setQueueState] = useState<SaveQueueState>(() => saveQueue.getState());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const batchRequest = useAbortController();
+
+  useEffect(() => {
+    saveQueue.load();
+    return saveQueue.subscribe(setQueueState);
+  }, []);
+
+  const parsed = useMemo(() => parseUrlList(text), [text]);
+  const queuedByUrl = useMemo(() => new Map(queueState.items.map(item => [item.url, item.status])), [queueState.items]);
+  const counts = useMemo(() => ({
+    done: rows.filter(r => r.status === 'done' || r.status === 'error').length,
+    archived: rows.filter(r => r.status === 'done' && r.archived).length,
+    missing: rows.filter(r => r.status === 'done' && !r.archived).length,
+    failed: rows.filter(r => r.status === 'error').length,
+  }), [rows]);
+  const unarchived = rows.filter(r => r.status === 'done' && !r.archived && !queuedByUrl.has(r.url)).map(r => r.url);
+  const report = useMemo(() => batchAvailabilityToReport(rows), [rows]);
+
+  // Checks the rows still waiting or failed; rows already checked keep their results
+  const run = async (next: BatchAvailabilityRow[]) => {
+    const signal = batchRequest.renew();
+    const indices = next.flatMap((row, i) => (row.status === 'queued' || row.status === 'error' ? [i] : []));
+    setRows(next);
+    setRunning(true);
+    try {
+      await runAvailabilityBatch(indices.map(i => next[i].url), (position, row) => {
+        if (!signal.aborted) setRows(prev => prev.map((r, i) => (i === indices[position] ? row : r)));
+      }, signal);
+    } finally {
+      if (!signal.aborted) setRunning(false);
+    }
+  };
+
+  const queueForSave = async (urls: string[]) => {
+    setError(null);
+    try {
+      await saveQueue.enqueue(urls, spnOptions);
+    } catch (e) {
+      console.error("Failed to queue URLs", e);
+      setError(toApiError(e, 'Failed to add URLs to the SavePageNow queue'));
+    }
+  };
+
+  const stop = () => {
+    batchRequest.cancel();
+    setRows(prev => prev.map(r => (r.status === 'checking' ? { url: r.url, status: 'queued' } : r)));
+    setRunning(false);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    setText(prev => (prev.trim() ? `${prev.trim()}\n` : '') + parseUrlList(content).join('\n'));
+  };
+
+  const pending = rows.filter(r => r.status === 'queued' || r.status === 'error').length;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-gray-300 flex items-center gap-2"><ListChecks className="w-4 h-4 text-indigo-400" /> Batch Availability</h4>
+          <span className="text-xs text-gray-500">{parsed.length} URLs detected</span>
+        </div>
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={5}
+          placeholder={"Paste URLs, one per line or comma separated\nexample.com/cited-page\nhttps://example.org/report.pdf"}
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-xs font-mono text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none custom-scrollbar"
+        />
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="h-8 text-xs">
+            <FileUp className="w-3 h-3" /> Upload .txt / .csv
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".txt,.csv,text/plain,text/csv" className="hidden" onChange={handleUpload} />
+          <div className="flex-1" />
+          {running ? (
+            <Button variant="secondary" onClick={stop} className="h-8 text-xs">
+              <Square className="w-3 h-3" /> Stop
+            </Button>
+          ) : pending > 0 && (
+            <Button variant="secondary" onClick={() => run(rows)} className="h-8 text-xs">
+              Check {pending} remaining
+            </Button>
+          )}
+          <Button onClick={() => run(parsed.map(url => ({ url, status: 'queued' })))} disabled={parsed.length === 0 || running} className="h-8 text-xs bg-indigo-600 hover:bg-indigo-500">
+            Check {parsed.length || ''} URLs
+          </Button>
+        </div>
+        {error && <ErrorPanel error={error} className="mt-3" />}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden">
+          <div className="bg-gray-900 px-6 py-3 border-b border-gray-700 flex flex-wrap gap-3 justify-between items-center">
+            <div className="flex items-center gap-3 text-xs text-gray-500">
+              <span className="font-medium text-sm text-gray-300">{counts.done} / {rows.length} checked</span>
+              <span className="text-green-400">{counts.archived} archived</span>
+              <span className="text-orange-400">{counts.missing} not archived</span>
+              {counts.failed > 0 && <span className="text-red-400">{counts.failed} failed</span>}
+              {running && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="secondary"
+                onClick={() => queueForSave(unarchived)}
+                disabled={unarchived.length === 0}
+                className="h-8 text-xs"
+              >
+                <Camera className="w-3 h-3" /> Save {unarchived.length || ''} unarchived
+              </Button>
+              <Button variant="secondary" onClick={() => setIsExportOpen(true)} disabled={counts.done === 0} className="h-8 text-xs">
+                <Download className="w-3 h-3" /> Export
+              </Button>
+            </div>
+          </div>
+          <div className="max-h-[60vh] overflow-auto custom-scrollbar">
+            <table className="w-full text-xs text-left text-gray-300">
+              <thead className="text-gray-500 uppercase bg-gray-900 sticky top-0 z-10">
+                <tr>
+                  <th className="px-4 py-2">URL</th>
+                  <th className="px-4 py-2">Archived</th>
+                  <th className="px-4 py-2 text-right">Captures</th>
+                  <th className="px-4 py-2">First</th>
+                  <th className="px-4 py-2">Last</th>
+                  <th className="px-4 py-2">Status</th>
+                  <th className="px-4 py-2 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {rows.map((row, index) => {
+                  const queued = queuedByUrl.get(row.url);
+                  return (
+                    <tr key={`${index}-${row.url}`} className="hover:bg-gray-700/30">
+                      <td className="px-4 py-2 font-mono max-w-md truncate" title={row.url}>{row.url}</td>
+                      <td className="px-4 py-2"><ArchivedBadge row={row} /></td>
+                      <td className="px-4 py-2 text-right font-mono">{row.status === 'done' ? row.captures?.toLocaleString() : ''}</td>
+                      <td className="px-4 py-2 font-mono text-gray-400">{row.status === 'done' ? formatDate(row.firstTimestamp) : ''}</td>
+                      <td className="px-4 py-2 font-mono text-gray-400">{row.status === 'done' ? formatDate(row.lastTimestamp) : ''}</td>
+                      <td className="px-4 py-2">
+                        {row.status === 'error' ? (
+                          <span className="text-red-300 line-clamp-1" title={row.error?.message}>{row.error?.message}</span>
+                        ) : (
+                          <span className="flex items-center gap-2">
+                            {row.latestStatus && <span className="font-mono">{row.latestStatus}</span>}
+                            {row.provenance && <ProvenanceBadge provenance={row.provenance} />}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-center justify-end gap-1">
+                          {queued ? (
+                            <button onClick={onOpenSaveQueue} className="text-[11px] text-indigo-300 hover:underline" title="Open the SavePageNow queue">
+                              {QUEUE_LABELS[queued]}
+                            </button>
+                          ) : row.status === 'done' && !row.archived && (
+                            <button
+                              onClick={() => queueForSave([row.url])}
+                              className="flex items-center gap-1 px-2 py-1 rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+                              title="Add to the SavePageNow queue"
+                            >
+                              <Camera className="w-3 h-3" /> Save
+                            </button>
+                          )}
+                          {row.waybackUrl && (
+                            <a
+                              href={row.waybackUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                              title="Open latest capture"
+                            >
+                              <ExternalLink className="w-3.5 h-3.5" />
+                            </a>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <ExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} data={[]} report={report} />
+    </div>
+  );
+};
+
+export default BatchAvailabilityPanel;
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Copy, Plus, SlidersHorizontal, X } from 'lucide-react';
+import { CDX_FIELDS, DEFAULT_CDX_OPTIONS } from '../../constants';
+import { CDXField, CDXFilter, CDXMatchType, CDXQueryOptions } from '../../types';
+import { buildCDXUrl } from '../../services/waybackService';
+
+interface Props {
+  url: string;
+  options: CDXQueryOptions;
+  onChange: (options: CDXQueryOptions) => void;
+}
+
+const MATCH_TYPES: { id: CDXMatchType; label: string; hint: string }[] = [
+  { id: 'exact', label: 'Exact', hint: 'Only this URL' },
+  { id: 'prefix', label: 'Prefix', hint: 'All URLs under this path' },
+  { id: 'host', label: 'Host', hint: 'All URLs on this host' },
+  { id: 'domain', label: 'Domain', hint: 'This host and all subdomains' },
+];
+
+const FILTER_FIELDS: CDXFilter['field'][] = ['statuscode', 'mimetype', 'original'];
+
+const isValidTimestamp = (value: string) => value === '' || /^\d{1,14}$/.test(value);
+
+// The CDX server uses Java regexes; JS syntax is close enough to catch typos
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+const inputClass = 'bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const CDXQueryBuilder: React.FC<Props> = ({ url, options, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const update = (patch: Partial<CDXQueryOptions>) => onChange({ ...options, ...patch });
+
+  const updateFilter = (index: number, patch: Partial<CDXFilter>) =>
+    update({ filters: options.filters.map((f, i) => (i === index ? { ...f, ...patch } : f)) });
+
+  const activeCount =
+    (options.matchType !== 'exact' ? 1 : 0) +
+    (options.from ? 1 : 0) +
+    (options.to ? 1 : 0) +
+    options.filters.filter(f => f.pattern.trim()).length +
+    (options.collapse ? 1 : 0) +
+    (options.fastLatest ? 1 : 0);
+
+  const queryUrl = buildCDXUrl(url.trim() || 'example.com', options);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(queryUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-xs font-medium text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          <SlidersHorizontal className="w-3.5 h-3.5" /> Query options
+          {activeCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-300 text-[10px] font-bold">{activeCount} active</span>
+          )}
+        </button>
+        {activeCount > 0 && (
+          <button type="button" onClick={() => onChange(DEFAULT_CDX_OPTIONS)} className="text-xs text-gray-500 hover:text-gray-300">
+            Reset
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-4 bg-gray-900/40 border border-gray-700 rounded-xl p-4 animate-in fade-in">
+          {/* Scope & range */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">Match</label>
+              <div className="flex bg-gray-900 rounded-lg border border-gray-600 p-0.5">
+                {MATCH_TYPES.map(m => (
+                  <button
+                    key={m.id}
+                    type="button"
+                    title={m.hint}
+                    onClick={() => update({ matchType: m.id })}
+                    className={`px-3 py-1 rounded-md text-xs transition-colors ${options.matchType === m.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">From</label>
+              <input
+                value={options.from}
+                onChange={e => update({ from: e.target.value.trim() })}
+                placeholder="YYYY[MMDDhhmmss]"
+                className={`${inputClass} w-40 font-mono ${isValidTimestamp(options.from) ? '' : 'border-red-500'}`}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">To</label>
+              <input
+                value={options.to}
+                onChange={e => update({ to: e.target.value.trim() })}
+                placeholder="YYYY[MMDDhhmmss]"
+                className={`${inputClass} w-40 font-mono ${isValidTimestamp(options.to) ? '' : 'border-red-500'}`}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">Max rows</label>
+              <input
+                type="number"
+                value={options.limit}
+                onChange={e => update({ limit: parseInt(e.target.value) || 0 })}
+                title="0 retrieves every capture page by page; negative values return the most recent captures"
+                className={`${inputClass} w-24`}
+              />
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div>
+            <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">Filters (regex)</label>
+            <div className="space-y-2">
+              {options.filters.map((filter, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={filter.field}
+                    onChange={e => updateFilter(index, { field: e.target.value as CDXFilter['field'] })}
+                    className={inputClass}
+                  >
+                    {FILTER_FIELDS.map(field => <option key={field} value={field}>{field}</option>)}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => updateFilter(index, { negate: !filter.negate })}
+                    title={filter.negate ? 'Excluding matches' : 'Keeping matches'}
+                    className={`w-16 py-1.5 rounded-lg text-xs font-bold border transition-colors ${filter.negate ? 'bg-red-500/10 text-red-400 border-red-500/30' : 'bg-green-500/10 text-green-400 border-green-500/30'}`}
+                  >
+                    {filter.negate ? 'NOT' : 'IS'}
+                  </button>
+                  <input
+                    value={filter.pattern}
+                    onChange={e => updateFilter(index, { pattern: e.target.value })}
+                    placeholder={filter.field === 'statuscode' ? '200|30[12]' : filter.field === 'mimetype' ? 'text/html' : '.*\\.pdf$'}
+                    className={`${inputClass} flex-1 font-mono ${isValidPattern(filter.pattern) ? '' : 'border-red-500'}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ filters: options.filters.filter((_, i) => i !== index) })}
+                    className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                    title="Remove filter"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => update({ filters: [...options.filters, { field: 'statuscode', pattern: '', negate: false }] })}
+                className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"
+              >
+                <Plus className="w-3 h-3" /> Add filter
+              </button>
+            </div>
+          </div>
+
+          {/* Collapse & fastLatest */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">Collapse on</label>
+              <div className="flex gap-2">
+                <select
+                  value={options.collapse?.field || ''}
+                  onChange={e => update({ collapse: e.target.value ? { field: e.target.value as CDXField, length: options.collapse?.length } : null })}
+                  className={inputClass}
+                >
+                  <option value="">(none)</option>
+                  {CDX_FIELDS.map(field => <option key={field} value={field}>{field}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  disabled={!options.collapse}
+                  value={options.collapse?.length || ''}
+                  onChange={e => options.collapse && update({ collapse: { ...options.collapse, length: parseInt(e.target.value) || undefined } })}
+                  placeholder="chars"
+                  title="Compare only the first N characters, e.g. timestamp:8 keeps one capture per day"
+                  className={`${inputClass} w-20 disabled:opacity-40`}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none pb-1.5">
+              <input
+                type="checkbox"
+                checked={options.fastLatest}
+                onChange={e => update({ fastLatest: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              fastLatest
+              <span className="text-gray-500">(quick "last N" with a negative limit)</span>
+            </label>
+          </div>
+
+          {/* Generated query */}
+          <div>
+            <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">Query URL</label>
+            <div className="flex items-start gap-2">
+              <code className="flex-1 min-w-0 break-all bg-gray-950 border border-gray-700 rounded-lg px-3 py-2 text-[11px] text-teal-300">
+                {queryUrl}
+              </code>
+              <button
+                type="button"
+                onClick={handleCopy}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                title="Copy query URL"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CDXQueryBuilder;
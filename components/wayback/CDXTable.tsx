@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ExternalLink, Loader2 } from 'lucide-react';
+import { CDXRecord } from '../../types';
+
+interface Props {
+  rows: CDXRecord[];
+  downloadingId: string | null;
+  onDownload: (row: CDXRecord) => void;
+  selectedIds: string[];
+  onToggleSelect: (row: CDXRecord) => void;
+}
+
+// Rows have a fixed height so the visible window can be computed from scrollTop alone
+const ROW_HEIGHT = 36;
+const OVERSCAN = 15;
+
+/**
+ * Virtualized capture table: only the rows in (and just around) the viewport are
+ * rendered, so hundreds of thousands of captures scroll without freezing the tab.
+ */
+const CDXTable: React.FC<Props> = ({ rows, downloadingId, onDownload, selectedIds, onToggleSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visible = rows.slice(start, end);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      className="flex-1 min-h-[16rem] max-h-[60vh] overflow-auto"
+    >
+      <table className="w-full text-sm text-left text-gray-300 table-fixed">
+        <thead className="text-xs text-gray-500 uppercase bg-gray-900 sticky top-0 z-10">
+          <tr>
+            <th className="pl-4 py-3 w-10" title="Select two captures to compare" />
+            <th className="px-4 py-3 w-40">Timestamp</th>
+            <th className="px-4 py-3">Original</th>
+            <th className="px-4 py-3 w-40">MimeType</th>
+            <th className="px-4 py-3 w-20">Status</th>
+            <th className="px-4 py-3 w-24">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-700">
+          {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+          {visible.map((row, i) => {
+            const dlKey = `${row.timestamp}-${row.original}`;
+            return (
+              <tr key={start + i} style={{ height: ROW_HEIGHT }} className={selectedIds.includes(dlKey) ? 'bg-indigo-500/10' : 'hover:bg-gray-700/50'}>
+                <td className="pl-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(dlKey)}
+                    onChange={() => onToggleSelect(row)}
+                    className="accent-indigo-500 cursor-pointer"
+                    title="Select to compare"
+                  />
+                </td>
+                <td className="px-4 font-mono text-xs">{row.timestamp}</td>
+                <td className="px-4 text-xs truncate" title={row.original}>{row.original}</td>
+                <td className="px-4 text-xs truncate">{row.mimetype}</td>
+                <td className="px-4">
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${
+                    row.statuscode === '200' ? 'bg-green-500/10 text-green-400' :
+                    row.statuscode.startsWith('3') ? 'bg-blue-500/10 text-blue-400' :
+                    row.statuscode.startsWith('4') || row.statuscode.startsWith('5') ? 'bg-red-500/10 text-red-400' :
+                    'bg-gray-700 text-gray-400'
+                  }`}>
+                    {row.statuscode}
+                  </span>
+                </td>
+                <td className="px-4">
+                  <div className="flex items-center gap-2">
+                    <a
+                      href={`https://web.archive.org/web/${row.timestamp}/${row.original}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                      title="View"
+                    >
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                    <button
+                      id={`btn-dl-${dlKey}`}
+                      onClick={() => onDownload(row)}
+                      disabled={downloadingId !== null}
+                      className={`p-1 hover:bg-gray-600 rounded transition-colors ${downloadingId === dlKey ? 'text-indigo-400 animate-pulse' : 'text-gray-400 hover:text-white'}`}
+                      title="Save to Library"
+                    >
+                      {downloadingId === dlKey ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+          {end < rows.length && <tr style={{ height: (rows.length - end) * ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CDXTable;
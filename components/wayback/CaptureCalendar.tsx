@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, ExternalLink, Eye, Loader2 } from 'lucide-react';
+import { CDXRecord } from '../../types';
+
+interface Props {
+  records: CDXRecord[];
+  year: string | null;
+  onYearChange: (year: string) => void;
+  downloadingId: string | null;
+  onPreview: (row: CDXRecord) => void;
+  onDownload: (row: CDXRecord) => void;
+}
+
+type StatusClass = 'ok' | 'redirect' | 'error' | 'other';
+
+interface DayStats {
+  count: number;
+  byClass: Record<StatusClass, number>;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const statusClass = (status: string): StatusClass =>
+  status.startsWith('2') ? 'ok' :
+  status.startsWith('3') ? 'redirect' :
+  status.startsWith('4') || status.startsWith('5') ? 'error' :
+  'other';
+
+// Full-strength class per status; density is layered on with opacity
+const CLASS_COLORS: Record<StatusClass, string> = {
+  ok: 'bg-green-500',
+  redirect: 'bg-blue-500',
+  error: 'bg-red-500',
+  other: 'bg-gray-400',
+};
+
+const CLASS_BADGES: Record<StatusClass, string> = {
+  ok: 'bg-green-500/10 text-green-400',
+  redirect: 'bg-blue-500/10 text-blue-400',
+  error: 'bg-red-500/10 text-red-400',
+  other: 'bg-gray-700 text-gray-400',
+};
+
+const CLASS_LABELS: Record<StatusClass, string> = {
+  ok: '2xx',
+  redirect: '3xx',
+  error: '4xx/5xx',
+  other: 'Other',
+};
+
+// Capture counts at which a day gets the next density step
+const DENSITY_STEPS = [1, 3, 10, 30];
+const DENSITY_OPACITY = ['opacity-30', 'opacity-50', 'opacity-75', 'opacity-100'];
+
+const densityClass = (count: number) => {
+  let level = 0;
+  DENSITY_STEPS.forEach((step, i) => {
+    if (count >= step) level = i;
+  });
+  return DENSITY_OPACITY[level];
+};
+
+const dominantClass = (day: DayStats): StatusClass =>
+  (Object.entries(day.byClass) as [StatusClass, number][]).sort((a, b) => b[1] - a[1])[0][0];
+
+const formatTime = (ts: string) => `${ts.slice(8, 10) || '00'}:${ts.slice(10, 12) || '00'}:${ts.slice(12, 14) || '00'}`;
+
+/**
+ * Wayback-style calendar of one year of captures. Each day is colored by the
+ * status class most of its captures share, darker the more captures it has;
+ * clicking a day lists its captures.
+ */
+const CaptureCalendar: React.FC<Props> = ({ records, year, onYearChange, downloadingId, onPreview, onDownload }) => {
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const years = useMemo(() => {
+    const counts: Record<string, number> = {};
+    records.forEach(row => {
+      const y = row.timestamp.slice(0, 4);
+      counts[y] = (counts[y] || 0) + 1;
+    });
+    return Object.entries(counts).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [records]);
+
+  // Without a chosen year the calendar opens on the most recent one
+  const activeYear = year && years.some(([y]) => y === year) ? year : years[years.length - 1]?.[0] || null;
+
+  useEffect(() => {
+    setSelectedDay(null);
+  }, [activeYear]);
+
+  const days = useMemo(() => {
+    const stats = new Map<string, DayStats>();
+    if (!activeYear) return stats;
+    records.forEach(row => {
+      if (!row.timestamp.startsWith(activeYear)) return;
+      const key = row.timestamp.slice(0, 8);
+      let day = stats.get(key);
+      if (!day) {
+        day = { count: 0, byClass: { ok: 0, redirect: 0, error: 0, other: 0 } };
+        stats.set(key, day);
+      }
+      day.count++;
+      day.byClass[statusClass(row.statuscode)]++;
+    });
+    return stats;
+  }, [records, activeYear]);
+
+  const dayCaptures = useMemo(
+    () => selectedDay ? records.filter(row => row.timestamp.startsWith(selectedDay)).sort((a, b) => a.timestamp.localeCompare(b.timestamp)) : [],
+    [records, selectedDay]
+  );
+
+  if (!activeYear) return null;
+  const numericYear = Number(activeYear);
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col space-y-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex flex-wrap gap-1">
+            {years.map(([y, count]) => (
+              <button
+                key={y}
+                onClick={() => onYearChange(y)}
+                title={`${count.toLocaleString()} captures`}
+                className={`px-2.5 py-1 rounded-lg text-xs font-mono transition-colors ${y === activeYear ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-200'}`}
+              >
+                {y}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-[10px] text-gray-500">
+            {(Object.keys(CLASS_COLORS) as StatusClass[]).map(cls => (
+              <span key={cls} className="flex items-center gap-1">
+                <span className={`w-2.5 h-2.5 rounded-sm ${CLASS_COLORS[cls]}`} /> {CLASS_LABELS[cls]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-x-6 gap-y-4">
+          {MONTHS.map((name, month) => {
+            const offset = new Date(Date.UTC(numericYear, month, 1)).getUTCDay();
+            const length = new Date(Date.UTC(numericYear, month + 1, 0)).getUTCDate();
+            return (
+              <div key={name}>
+                <div className="text-xs font-medium text-gray-400 mb-1">{name}</div>
+                <div className="grid grid-cols-7 gap-0.5 text-center">
+                  {WEEKDAYS.map((d, i) => (
+                    <div key={i} className="text-[9px] text-gray-600">{d}</div>
+                  ))}
+                  {Array.from({ length: offset }).map((_, i) => <div key={`pad-${i}`} />)}
+                  {Array.from({ length }).map((_, i) => {
+                    const key = `${activeYear}${String(month + 1).padStart(2, '0')}${String(i + 1).padStart(2, '0')}`;
+                    const day = days.get(key);
+                    return (
+                      <button
+                        key={key}
+                        disabled={!day}
+                        onClick={() => setSelectedDay(key === selectedDay ? null : key)}
+                        title={day ? `${day.count.toLocaleString()} captures` : undefined}
+                        className={`relative h-6 rounded text-[10px] ${day ? 'text-white cursor-pointer' : 'text-gray-600 cursor-default'} ${key === selectedDay ? 'ring-2 ring-white' : ''}`}
+                      >
+                        {day && <span className={`absolute inset-0 rounded ${CLASS_COLORS[dominantClass(day)]} ${densityClass(day.count)}`} />}
+                        <span className="relative">{i + 1}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedDay && (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden animate-in fade-in">
+          <div className="px-4 py-2 border-b border-gray-700 bg-gray-850 text-xs text-gray-400">
+            {dayCaptures.length.toLocaleString()} captures on {selectedDay.slice(0, 4)}-{selectedDay.slice(4, 6)}-{selectedDay.slice(6, 8)} (UTC)
+          </div>
+          <div className="max-h-72 overflow-auto custom-scrollbar divide-y divide-gray-700">
+            {dayCaptures.map(row => {
+              const id = `${row.timestamp}-${row.original}`;
+              return (
+                <div key={id} className="px-4 py-2 flex items-center gap-4 text-xs text-gray-300 hover:bg-gray-700/30">
+                  <span className="font-mono w-16 shrink-0">{formatTime(row.timestamp)}</span>
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-bold shrink-0 ${CLASS_BADGES[statusClass(row.statuscode)]}`}>
+                    {row.statuscode}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate" title={row.original}>{row.original}</span>
+                  <span className="text-gray-500 truncate w-32 shrink-0">{row.mimetype}</span>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => onPreview(row)}
+                      disabled={downloadingId === `preview-${id}`}
+                      className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-indigo-300 transition-colors"
+                      title="Preview"
+                    >
+                      {downloadingId === `preview-${id}` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      id={`btn-dl-${id}`}
+                      onClick={() => onDownload(row)}
+                      disabled={downloadingId === id}
+                      className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                      title="Download to Library"
+                    >
+                      {downloadingId === id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                    </button>
+                    <a
+                      href={`https://web.archive.org/web/${row.timestamp}/${row.original}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                      title="View on Wayback"
+                    >
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptureCalendar;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ExternalLink, Target } from 'lucide-react';
+import { CDXRecord } from '../../types';
+import { CaptureNeighbors, describeCaptureOffset } from '../../services/waybackService';
+import ProvenanceBadge from '../ProvenanceBadge';
+
+interface Props {
+  // YYYYMMDDhhmmss the lookup asked for
+  target: string;
+  neighbors: CaptureNeighbors;
+  // Timestamp of the capture the availability API picked, highlighted in the list
+  closest?: string;
+}
+
+const formatTimestamp = (ts: string) =>
+  `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}:${ts.slice(12, 14)}`;
+
+const statusClass = (status: string) =>
+  status.startsWith('2') ? 'text-green-400' : status.startsWith('3') ? 'text-blue-400' : 'text-red-400';
+
+/**
+ * The captures on either side of a requested moment, in chronological order
+ * with the moment itself marked between them.
+ */
+const ClosestCaptures: React.FC<Props> = ({ target, neighbors, closest }) => {
+  const row = (record: CDXRecord) => {
+    const isClosest = record.timestamp === closest;
+    return (
+      <a
+        key={`${record.timestamp}-${record.digest}`}
+        href={`https://web.archive.org/web/${record.timestamp}/${record.original}`}
+        target="_blank"
+        rel="noreferrer"
+        className={`px-4 py-2 flex items-center gap-4 text-xs hover:bg-gray-700/40 ${isClosest ? 'bg-indigo-500/10' : ''}`}
+      >
+        <span className={`font-mono ${isClosest ? 'text-white font-bold' : 'text-gray-300'}`}>{formatTimestamp(record.timestamp)}</span>
+        <span className={`font-mono ${statusClass(record.statuscode)}`}>{record.statuscode}</span>
+        {isClosest && <span className="text-[10px] uppercase tracking-wider text-indigo-300 font-bold">Closest</span>}
+        <span className="ml-auto text-gray-500">{describeCaptureOffset(record.timestamp, target)}</span>
+        <ExternalLink className="w-3.5 h-3.5 text-gray-500 shrink-0" />
+      </a>
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center justify-between">
+        <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Surrounding Captures</h4>
+        <ProvenanceBadge provenance={neighbors.provenance} />
+      </div>
+      <div className="divide-y divide-gray-700">
+        {neighbors.before.length === 0 && <div className="px-4 py-2 text-xs text-gray-600 italic">No earlier captures</div>}
+        {[...neighbors.before].reverse().map(row)}
+        <div className="px-4 py-1.5 flex items-center gap-2 text-xs text-amber-300 bg-amber-500/5">
+          <Target className="w-3.5 h-3.5" />
+          <span className="font-mono">{formatTimestamp(target)}</span>
+          <span className="text-amber-300/60">chosen moment (UTC)</span>
+        </div>
+        {neighbors.after.map(row)}
+        {neighbors.after.length === 0 && <div className="px-4 py-2 text-xs text-gray-600 italic">No later captures</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ClosestCaptures;
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, ExternalLink } from 'lucide-react';
+import { CDXRecord } from '../../types';
+import { buildContentVersions } from '../../services/waybackService';
+
+interface Props {
+  records: CDXRecord[];
+  onCompare: (older: CDXRecord, newer: CDXRecord) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const formatDuration = (ms: number) => {
+  const days = Math.round(ms / DAY_MS);
+  if (days < 1) return '< 1 day';
+  if (days < 60) return `${days} days`;
+  if (days < 730) return `${Math.round(days / 30)} months`;
+  return `${(days / 365).toFixed(1)} years`;
+};
+
+// Alternating hues keep neighbouring versions apart; error captures are always red
+const VERSION_COLORS = ['bg-indigo-500', 'bg-teal-500', 'bg-sky-500', 'bg-violet-500'];
+
+const versionColor = (statuscode: string, index: number) =>
+  statuscode.startsWith('4') || statuscode.startsWith('5') ? 'bg-red-500/70' :
+  statuscode.startsWith('3') ? 'bg-blue-400/60' :
+  VERSION_COLORS[index % VERSION_COLORS.length];
+
+/**
+ * Shows when the content behind a URL actually changed: consecutive captures
+ * with the same digest form one version, drawn with a width proportional to how
+ * long it lived. Clicking a version compares it with the one before.
+ */
+const ContentTimeline: React.FC<Props> = ({ records, onCompare }) => {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const urls = useMemo(() => new Set(records.map(r => r.urlkey)).size, [records]);
+  const versions = useMemo(() => buildContentVersions(records), [records]);
+
+  if (urls > 1) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-sm text-gray-500 text-center p-8">
+        This result spans {urls.toLocaleString()} URLs. Content changes can only be traced for a single URL; use the "Exact" match type.
+      </div>
+    );
+  }
+
+  const span = Math.max(1, versions.length ? versions[versions.length - 1].end - versions[0].start : 1);
+  const active = hovered !== null ? versions[hovered] : null;
+
+  const compareWithPrevious = (index: number) => {
+    if (index > 0) onCompare(versions[index - 1].last, versions[index].first);
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col space-y-4">
+      {/* Version strip */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Content Versions</h4>
+          <span className="text-xs text-gray-400">
+            {records.length.toLocaleString()} captures · {versions.length.toLocaleString()} versions · {Math.max(0, versions.length - 1).toLocaleString()} changes
+          </span>
+        </div>
+        <div className="flex h-8 rounded-lg overflow-hidden bg-gray-900" onMouseLeave={() => setHovered(null)}>
+          {versions.map((version, index) => (
+            <button
+              key={`${version.first.timestamp}-${index}`}
+              onMouseEnter={() => setHovered(index)}
+              onClick={() => compareWithPrevious(index)}
+              style={{ flexGrow: Math.max(version.end - version.start, span / 500), flexBasis: 0 }}
+              className={`min-w-[2px] border-l border-gray-900 first:border-l-0 ${versionColor(version.statuscode, index)} ${hovered === index ? 'brightness-150' : ''} ${index > 0 ? 'cursor-pointer' : 'cursor-default'}`}
+              title={index > 0 ? 'Compare with the previous version' : 'First known version'}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between mt-1 text-[10px] text-gray-500 font-mono">
+          <span>{versions.length ? formatDate(versions[0].start) : ''}</span>
+          <span className="text-gray-300">
+            {active ? `${formatDate(active.start)} → ${active.current ? 'latest' : formatDate(active.end)} · ${formatDuration(active.end - active.start)} · ${active.captures} captures · HTTP ${active.statuscode}` : ''}
+          </span>
+          <span>{versions.length ? formatDate(versions[versions.length - 1].end) : ''}</span>
+        </div>
+      </div>
+
+      {/* Change list */}
+      <div className="flex-1 min-h-[16rem] bg-gray-800 rounded-xl border border-gray-700 overflow-auto custom-scrollbar">
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-gray-500 uppercase bg-gray-900 sticky top-0 z-10">
+            <tr>
+              <th className="px-4 py-3">#</th>
+              <th className="px-4 py-3">Changed</th>
+              <th className="px-4 py-3">Lived</th>
+              <th className="px-4 py-3">Captures</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Digest</th>
+              <th className="px-4 py-3">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            {versions.map((version, index) => (
+              <tr
+                key={`${version.first.timestamp}-${index}`}
+                onMouseEnter={() => setHovered(index)}
+                className={hovered === index ? 'bg-gray-700/50' : ''}
+              >
+                <td className="px-4 py-2 text-xs text-gray-500">
+                  <span className={`inline-block w-2 h-2 rounded-sm mr-2 ${versionColor(version.statuscode, index)}`} />
+                  {index + 1}
+                </td>
+                <td className="px-4 py-2 font-mono text-xs">{version.first.timestamp}</td>
+                <td className="px-4 py-2 text-xs">
+                  {formatDuration(version.end - version.start)}
+                  {version.current && <span className="ml-2 text-[10px] text-teal-400 font-bold uppercase">Latest</span>}
+                </td>
+                <td className="px-4 py-2 text-xs">{version.captures.toLocaleString()}</td>
+                <td className="px-4 py-2 text-xs">{version.statuscode}</td>
+                <td className="px-4 py-2 font-mono text-[10px] text-gray-500 truncate max-w-[10rem]" title={version.digest}>{version.digest}</td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center gap-2">
+                    <a
+                      href={`https://web.archive.org/web/${version.first.timestamp}/${version.first.original}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                      title="View first capture"
+                    >
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                    {index > 0 && (
+                      <button
+                        onClick={() => compareWithPrevious(index)}
+                        className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-indigo-300 transition-colors"
+                        title="Compare with the previous version"
+                      >
+                        <GitCompare className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ContentTimeline;
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, Search, X } from 'lucide-react';
+import { SavedSnapshot } from '../../types';
+import { indexMissingSnapshots, LibrarySearchFilters, LibrarySearchResults, searchLibrary, snapshotFacets } from '../../services/librarySearchService';
+import { isAbortError } from '../../services/httpClient';
+import { toApiError } from '../../services/errors';
+import { useAbortController } from '../../hooks/useAbortController';
+
+interface Props {
+  // The whole Library, kept indexed
+  snapshots: SavedSnapshot[];
+  // The part of it in the selected folder, tag or starred list; searches stay within it
+  scoped: SavedSnapshot[];
+  filters: LibrarySearchFilters;
+  onFiltersChange: (filters: LibrarySearchFilters) => void;
+  // Null while no query is active, so the Library shows every filtered snapshot
+  onResults: (results: LibrarySearchResults | null) => void;
+}
+
+const SELECT_CLASS = 'bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-300 outline-none focus:ring-2 focus:ring-indigo-500 max-w-[12rem]';
+
+/**
+ * Query and filters for the Library. Snapshots missing from the search index,
+ * such as those saved before it existed, are indexed when the Library opens.
+ */
+const LibrarySearchBar: React.FC<Props> = ({ snapshots, scoped, filters, onFiltersChange, onResults }) => {
+  const [query, setQuery] = useState('');
+  const [activeQuery, setActiveQuery] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+  const searchRequest = useAbortController();
+  const indexRequest = useAbortController();
+
+  const within = useMemo(() => new Set(scoped.map(snapshot => String(snapshot.id))), [scoped]);
+  const facets = useMemo(() => {
+    const all = scoped.map(snapshotFacets);
+    const distinct = (key: keyof LibrarySearchFilters) => Array.from(new Set(all.map(f => f[key]))).sort();
+    return { hosts: distinct('host'), years: distinct('year').reverse(), mimetypes: distinct('mimetype') };
+  }, [scoped]);
+
+  useEffect(() => {
+    const signal = indexRequest.renew();
+    indexMissingSnapshots(snapshots, (done, total) => setIndexProgress({ done, total }), signal)
+      .then(indexed => {
+        if (indexed > 0) setIndexVersion(v => v + 1);
+      })
+      .catch(e => {
+        if (!isAbortError(e)) console.error("Indexing the Library failed", e);
+      })
+      .finally(() => {
+        if (!signal.aborted) setIndexProgress(null);
+      });
+  }, [snapshots]);
+
+  // Re-runs when the filters change or newly indexed snapshots could match
+  useEffect(() => {
+    if (!activeQuery) {
+      searchRequest.cancel();
+      setSearching(false);
+      onResults(null);
+      return;
+    }
+    const signal = searchRequest.renew();
+    setSearching(true);
+    setError('');
+    searchLibrary(activeQuery, filters, within)
+      .then(results => {
+        if (!signal.aborted) onResults(results);
+      })
+      .catch(e => {
+        if (signal.aborted) return;
+        console.error("Library search failed", e);
+        setError(toApiError(e, 'Search failed').message);
+      })
+      .finally(() => {
+        if (!signal.aborted) setSearching(false);
+      });
+  }, [activeQuery, filters, within, indexVersion]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setActiveQuery(query.trim());
+  };
+
+  const clear = () => {
+    setQuery('');
+    setActiveQuery('');
+  };
+
+  const setFilter = (key: keyof LibrarySearchFilters, value: string) => onFiltersChange({ ...filters, [key]: value });
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <form onSubmit={submit} className="relative flex-1 min-w-[16rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={'Search titles and text: "exact phrase", either OR other, -excluded, prefix*'}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg pl-9 pr-9 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          {(query || activeQuery) && (
+            <button type="button" onClick={clear} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-white" title="Clear search">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </form>
+        <select value={filters.host} onChange={e => setFilter('host', e.target.value)} className={SELECT_CLASS} title="Host">
+          <option value="">All hosts</option>
+          {facets.hosts.map(host => <option key={host} value={host}>{host}</option>)}
+        </select>
+        <select value={filters.year} onChange={e => setFilter('year', e.target.value)} className={SELECT_CLASS} title="Capture year">
+          <option value="">All years</option>
+          {facets.years.map(year => <option key={year} value={year}>{year}</option>)}
+        </select>
+        <select value={filters.mimetype} onChange={e => setFilter('mimetype', e.target.value)} className={SELECT_CLASS} title="Content type">
+          <option value="">All types</option>
+          {facets.mimetypes.map(mimetype => <option key={mimetype} value={mimetype}>{mimetype}</option>)}
+        </select>
+      </div>
+      {(searching || indexProgress || error) && (
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          {searching && <span className="flex items-center gap-1.5"><Loader2 className="w-3 h-3 animate-spin" /> Searching</span>}
+          {indexProgress && <span className="flex items-center gap-1.5"><Loader2 className="w-3 h-3 animate-spin" /> Indexing {indexProgress.done}/{indexProgress.total} snapshots</span>}
+          {error && <span className="text-red-400">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibrarySearchBar;
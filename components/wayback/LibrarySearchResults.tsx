@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { Eye, SearchX } from 'lucide-react';
+import { SavedSnapshot } from '../../types';
+import { LibrarySearchResults as Results, SnippetPart } from '../../services/librarySearchService';
+
+interface Props {
+  results: Results;
+  snapshots: SavedSnapshot[];
+  onOpen: (snapshot: SavedSnapshot) => void;
+}
+
+const formatTimestamp = (ts: string) =>
+  `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}`;
+
+const Highlighted: React.FC<{ parts: SnippetPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => part.match
+      ? <mark key={i} className="bg-yellow-400/25 text-yellow-100 rounded px-0.5">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+
+/** Ranked Library search matches with highlighted snippets; each opens the snapshot preview. */
+const LibrarySearchResults: React.FC<Props> = ({ results, snapshots, onOpen }) => {
+  const byId = useMemo(() => new Map(snapshots.map(snapshot => [String(snapshot.id), snapshot])), [snapshots]);
+  // Snapshots deleted since the search ran are skipped
+  const rows = results.results.flatMap(result => {
+    const snapshot = byId.get(result.snapshotId);
+    return snapshot ? [{ result, snapshot }] : [];
+  });
+
+  if (rows.length === 0) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center text-gray-500 bg-gray-800/50 rounded-xl border border-gray-700 border-dashed p-8">
+        <SearchX className="w-10 h-10 mb-3 opacity-50" />
+        <p>No saved snapshots match this search.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-6">
+      <div className="text-xs text-gray-500 mb-2">
+        {results.total > rows.length ? `Top ${rows.length} of ${results.total} matches` : `${rows.length} ${rows.length === 1 ? 'match' : 'matches'}`}
+      </div>
+      <div className="bg-gray-800 border border-gray-700 rounded-xl divide-y divide-gray-700 overflow-hidden">
+        {rows.map(({ result, snapshot }) => (
+          <button
+            key={result.snapshotId}
+            onClick={() => onOpen(snapshot)}
+            className="w-full text-left px-4 py-3 hover:bg-gray-700/40 transition-colors group"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="font-medium text-white truncate">
+                {result.title.length > 0 ? <Highlighted parts={result.title} /> : snapshot.originalUrl}
+              </span>
+              <Eye className="w-3.5 h-3.5 text-gray-500 group-hover:text-indigo-400 shrink-0 ml-auto" />
+            </div>
+            <div className="flex items-center gap-3 text-xs text-gray-500 mt-0.5 min-w-0">
+              <span className="font-mono text-teal-400 shrink-0">{formatTimestamp(snapshot.timestamp)}</span>
+              <span className="truncate">{snapshot.originalUrl}</span>
+              <span className="shrink-0">{snapshot.mimetype}</span>
+            </div>
+            {result.snippet.length > 0 && (
+              <p className="text-xs text-gray-400 mt-1.5 leading-relaxed line-clamp-3">
+                <Highlighted parts={result.snippet} />
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LibrarySearchResults;
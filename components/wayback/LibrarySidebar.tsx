@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Inbox, Library, Star, Tag } from 'lucide-react';
+import { SavedSnapshot } from '../../types';
+import { buildFolderTree, collectTags, FolderNode, LibraryScope } from '../../services/libraryOrganizationService';
+
+interface Props {
+  snapshots: SavedSnapshot[];
+  scope: LibraryScope;
+  onScopeChange: (scope: LibraryScope) => void;
+}
+
+const itemClass = (active: boolean) =>
+  `w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-xs transition-colors ${active ? 'bg-indigo-500/20 text-indigo-200' : 'text-gray-400 hover:bg-gray-700/50 hover:text-gray-200'}`;
+
+interface FolderRowProps {
+  node: FolderNode;
+  depth: number;
+  selected: string | null;
+  expanded: Set<string>;
+  onToggle: (path: string) => void;
+  onSelect: (path: string) => void;
+}
+
+const FolderRow: React.FC<FolderRowProps> = ({ node, depth, selected, expanded, onToggle, onSelect }) => {
+  const isOpen = expanded.has(node.path);
+  const hasChildren = node.children.length > 0;
+  const Icon = isOpen ? FolderOpen : Folder;
+  return (
+    <>
+      <div className={itemClass(selected === node.path)} style={{ paddingLeft: `${depth * 12 + 4}px` }}>
+        <button
+          onClick={() => hasChildren && onToggle(node.path)}
+          className={`p-0.5 rounded text-gray-500 ${hasChildren ? 'hover:text-white' : 'invisible'}`}
+        >
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </button>
+        <button onClick={() => onSelect(node.path)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+          <Icon className="w-3.5 h-3.5 shrink-0 text-yellow-500/80" />
+          <span className="truncate" title={node.path}>{node.name}</span>
+          <span className="ml-auto text-gray-600">{node.count}</span>
+        </button>
+      </div>
+      {isOpen && node.children.map(child => (
+        <FolderRow key={child.path} node={child} depth={depth + 1} selected={selected} expanded={expanded} onToggle={onToggle} onSelect={onSelect} />
+      ))}
+    </>
+  );
+};
+
+/** Folders, tags and the starred list of the Library; picking one narrows what the Library shows. */
+const LibrarySidebar: React.FC<Props> = ({ snapshots, scope, onScopeChange }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const folders = useMemo(() => buildFolderTree(snapshots), [snapshots]);
+  const tags = useMemo(() => collectTags(snapshots), [snapshots]);
+  const starred = snapshots.filter(s => s.starred).length;
+  const unfiled = snapshots.filter(s => !s.folder).length;
+
+  const toggle = (path: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(path)) next.delete(path);
+    else next.add(path);
+    return next;
+  });
+
+  return (
+    <aside className="w-56 shrink-0 bg-gray-800 border border-gray-700 rounded-xl p-2 space-y-4 overflow-y-auto custom-scrollbar">
+      <div className="space-y-0.5">
+        <button onClick={() => onScopeChange({ ...scope, folder: null, tag: null, starredOnly: false })} className={itemClass(scope.folder === null && scope.tag === null && !scope.starredOnly)}>
+          <Library className="w-3.5 h-3.5" /> All snapshots <span className="ml-auto text-gray-600">{snapshots.length}</span>
+        </button>
+        <button onClick={() => onScopeChange({ ...scope, starredOnly: !scope.starredOnly })} className={itemClass(scope.starredOnly)}>
+          <Star className="w-3.5 h-3.5" /> Starred <span className="ml-auto text-gray-600">{starred}</span>
+        </button>
+      </div>
+
+      <div>
+        <div className="px-2 mb-1 text-[10px] font-bold uppercase tracking-wider text-gray-500">Folders</div>
+        <button onClick={() => onScopeChange({ ...scope, folder: scope.folder === '' ? null : '' })} className={itemClass(scope.folder === '')}>
+          <Inbox className="w-3.5 h-3.5" /> Unfiled <span className="ml-auto text-gray-600">{unfiled}</span>
+        </button>
+        {folders.map(node => (
+          <FolderRow
+            key={node.path}
+            node={node}
+            depth={0}
+            selected={scope.folder}
+            expanded={expanded}
+            onToggle={toggle}
+            onSelect={path => onScopeChange({ ...scope, folder: scope.folder === path ? null : path })}
+          />
+        ))}
+        {folders.length === 0 && <div className="px-2 py-1 text-[11px] text-gray-600 italic">Organize a snapshot to file it in a folder</div>}
+      </div>
+
+      <div>
+        <div className="px-2 mb-1 text-[10px] font-bold uppercase tracking-wider text-gray-500">Tags</div>
+        {tags.length === 0 ? (
+          <div className="px-2 py-1 text-[11px] text-gray-600 italic">No tags yet</div>
+        ) : (
+          <div className="flex flex-wrap gap-1 px-1">
+            {tags.map(({ tag, count }) => (
+              <button
+                key={tag}
+                onClick={() => onScopeChange({ ...scope, tag: scope.tag === tag ? null : tag })}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] border transition-colors ${scope.tag === tag ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-200' : 'border-gray-700 text-gray-400 hover:text-gray-200 hover:border-gray-600'}`}
+              >
+                <Tag className="w-2.5 h-2.5" /> {tag} <span className="text-gray-600">{count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default LibrarySidebar;
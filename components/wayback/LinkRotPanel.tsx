@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Camera, CheckCircle, Clock, Download, ExternalLink, Image, Link2, Loader2, Square, Unlink, XCircle } from 'lucide-react';
+import { SaveQueueStatus, SPNOptions } from '../../types';
+import { LinkCheckPage, LinkCoverage, LinkRotRow, linkRotToReport, runLinkRotCheck } from '../../services/linkRotService';
+import { saveQueue, SaveQueueState } from '../../services/saveQueue';
+import { ApiError, toApiError } from '../../services/errors';
+import { useAbortController } from '../../hooks/useAbortController';
+import { Button } from '../ui/Button';
+import ErrorPanel from '../ErrorPanel';
+import ExportModal from '../ExportModal';
+import ProvenanceBadge from '../ProvenanceBadge';
+
+interface Props {
+  page: LinkCheckPage;
+  spnOptions: SPNOptions;
+  // Switches to the SavePageNow tab, where queued captures are tracked
+  onOpenSaveQueue: () => void;
+}
+
+type Filter = 'all' | LinkCoverage | 'error';
+
+const FILTERS: { id: Filter; label: string; className: string }[] = [
+  { id: 'all', label: 'All', className: 'text-gray-300' },
+  { id: 'archived', label: 'Archived', className: 'text-green-400' },
+  { id: 'later-only', label: 'Archived later only', className: 'text-yellow-400' },
+  { id: 'never', label: 'Never archived', className: 'text-red-400' },
+  { id: 'error', label: 'Errors', className: 'text-gray-500' },
+];
+
+const QUEUE_LABELS: Record<SaveQueueStatus, string> = {
+  queued: 'Queued',
+  submitting: 'Submitting',
+  capturing: 'Capturing',
+  success: 'Saved',
+  error: 'Save failed',
+};
+
+const formatTimestamp = (ts: string) =>
+  `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}`;
+
+const matches = (row: LinkRotRow, filter: Filter) =>
+  filter === 'all' || (filter === 'error' ? row.status === 'error' : row.coverage === filter);
+
+const CoverageBadge: React.FC<{ row: LinkRotRow }> = ({ row }) => {
+  if (row.status === 'queued') return <span className="flex items-center gap-1.5 text-gray-500"><Clock className="w-3 h-3" /> Waiting</span>;
+  if (row.status === 'checking') return <span className="flex items-center gap-1.5 text-yellow-400"><Loader2 className="w-3 h-3 animate-spin" /> Checking</span>;
+  if (row.status === 'error') return <span className="flex items-center gap-1.5 text-gray-400" title={row.error?.message}><XCircle className="w-3 h-3" /> Error</span>;
+  switch (row.coverage) {
+    case 'archived':
+      return <span className="flex items-center gap-1.5 text-green-400"><CheckCircle className="w-3 h-3" /> Archived</span>;
+    case 'later-only':
+      return <span className="flex items-center gap-1.5 text-yellow-400"><Clock className="w-3 h-3" /> Later only</span>;
+    default:
+      return <span className="flex items-center gap-1.5 text-red-400"><Unlink className="w-3 h-3" /> Never</span>;
+  }
+};
+
+/**
+ * Link-rot report for one captured page: every outlink, checked for a
+ * Wayback capture at or before the page's own capture. Links that were never
+ * archived can be sent to the SavePageNow queue.
+ */
+const LinkRotPanel: React.FC<Props> = ({ page, spnOptions, onOpenSaveQueue }) => {
+  const [rows, setRows] = useState<LinkRotRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [queueState, setQueueState] = useState<SaveQueueState>(() => saveQueue.getState());
+  const checkRequest = useAbortController();
+
+  useEffect(() => {
+    saveQueue.load();
+    return saveQueue.subscribe(setQueueState);
+  }, []);
+
+  // Checks the rows still waiting or failed; finished rows keep their results
+  const run = async (next: LinkRotRow[]) => {
+    const signal = checkRequest.renew();
+    const indices = next.flatMap((row, i) => (row.status === 'queued' || row.status === 'error' ? [i] : []));
+    setRows(next);
+    setRunning(true);
+    try {
+      await runLinkRotCheck(indices.map(i => next[i]), page.timestamp, (position, row) => {
+        if (!signal.aborted) setRows(prev => prev.map((r, i) => (i === indices[position] ? row : r)));
+      }, signal);
+    } finally {
+      if (!signal.aborted) setRunning(false);
+    }
+  };
+
+  useEffect(() => {
+    setFilter('all');
+    run(page.links.map(link => ({ ...link, status: 'queued' })));
+  }, [page]);
+
+  const stop = () => {
+    checkRequest.cancel();
+    setRows(prev => prev.map(r => (r.status === 'checking' ? { ...r, status: 'queued' } : r)));
+    setRunning(false);
+  };
+
+  const queueForSave = async (urls: string[]) => {
+    setError(null);
+    try {
+      await saveQueue.enqueue(urls, spnOptions);
+    } catch (e) {
+      console.error("Failed to queue URLs", e);
+      setError(toApiError(e, 'Failed to add URLs to the SavePageNow queue'));
+    }
+  };
+
+  const queuedByUrl = useMemo(() => new Map(queueState.items.map(item => [item.url, item.status])), [queueState.items]);
+  const counts = useMemo(() => {
+    const result = Object.fromEntries(FILTERS.map(f => [f.id, 0])) as Record<Filter, number>;
+    rows.forEach(row => FILTERS.forEach(f => matches(row, f.id) && result[f.id]++));
+    return result;
+  }, [rows]);
+  const checked = rows.filter(r => r.status === 'done' || r.status === 'error').length;
+  const pending = rows.filter(r => r.status === 'queued' || r.status === 'error').length;
+  const missing = rows.filter(r => r.coverage === 'never' && !queuedByUrl.has(r.url)).map(r => r.url);
+  const visible = useMemo(() => rows.filter(row => matches(row, filter)), [rows, filter]);
+  const report = useMemo(() => linkRotToReport(page, rows), [page, rows]);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-4">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm text-white font-mono truncate" title={page.url}>{page.url}</div>
+          <div className="text-xs text-gray-500 mt-1 flex flex-wrap items-center gap-3">
+            <a href={page.waybackUrl} target="_blank" rel="noreferrer" className="flex items-center gap-1 font-mono text-indigo-400 hover:underline">
+              Captured {formatTimestamp(page.timestamp)} <ExternalLink className="w-3 h-3" />
+            </a>
+            <span>{page.links.length} outlinks</span>
+            <ProvenanceBadge provenance={page.provenance} />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {running ? (
+            <Button variant="secondary" onClick={stop} className="h-8 text-xs">
+              <Square className="w-3 h-3" /> Stop
+            </Button>
+          ) : pending > 0 && (
+            <Button variant="secondary" onClick={() => run(rows)} className="h-8 text-xs">
+              Check {pending} remaining
+            </Button>
+          )}
+          <Button variant="secondary" onClick={() => queueForSave(missing)} disabled={missing.length === 0} className="h-8 text-xs">
+            <Camera className="w-3 h-3" /> Archive {missing.length || ''} missing
+          </Button>
+          <Button variant="secondary" onClick={() => setIsExportOpen(true)} disabled={checked === 0} className="h-8 text-xs">
+            <Download className="w-3 h-3" /> Export
+          </Button>
+        </div>
+        {error && <ErrorPanel error={error} className="w-full" />}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">This capture has no outgoing links.</div>
+      ) : (
+        <div className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden">
+          <div className="bg-gray-900 px-4 py-2 border-b border-gray-700 flex flex-wrap items-center gap-1 text-xs">
+            {FILTERS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => setFilter(f.id)}
+                className={`px-3 py-1 rounded-md transition-all ${filter === f.id ? 'bg-gray-700' : 'hover:bg-gray-800'} ${f.className}`}
+              >
+                {f.label} <span className="text-gray-500 font-mono">{counts[f.id]}</span>
+              </button>
+            ))}
+            <span className="ml-auto text-gray-500 flex items-center gap-2">
+              {running && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {checked} / {rows.length} checked
+            </span>
+          </div>
+          <div className="max-h-[60vh] overflow-auto custom-scrollbar">
+            <table className="w-full text-xs text-left text-gray-300">
+              <thead className="text-gray-500 uppercase bg-gray-900 sticky top-0 z-10">
+                <tr>
+                  <th className="px-4 py-2">Link</th>
+                  <th className="px-4 py-2">Coverage</th>
+                  <th className="px-4 py-2">Nearest capture</th>
+                  <th className="px-4 py-2 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {visible.map(row => {
+                  const queued = queuedByUrl.get(row.url);
+                  return (
+                    <tr key={row.url} className="hover:bg-gray-700/30">
+                      <td className="px-4 py-2 max-w-xl">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {row.kind === 'link'
+                            ? <Link2 className="w-3.5 h-3.5 text-gray-500 shrink-0" />
+                            : <Image className="w-3.5 h-3.5 text-gray-500 shrink-0" />}
+                          <div className="min-w-0">
+                            <div className="font-mono truncate" title={row.url}>{row.url}</div>
+                            {row.label && <div className="text-gray-500 truncate">{row.label}</div>}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 py-2"><CoverageBadge row={row} /></td>
+                      <td className="px-4 py-2 font-mono text-gray-400">
+                        {row.captureTimestamp ? (
+                          <a
+                            href={`https://web.archive.org/web/${row.captureTimestamp}/${row.url}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex items-center gap-1 hover:text-indigo-300"
+                          >
+                            {formatTimestamp(row.captureTimestamp)} <ExternalLink className="w-3 h-3" />
+                          </a>
+                        ) : row.status === 'error' ? (
+                          <span className="text-red-300 font-sans line-clamp-1" title={row.error?.message}>{row.error?.message}</span>
+                        ) : '—'}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end">
+                          {queued ? (
+                            <button onClick={onOpenSaveQueue} className="text-[11px] text-indigo-300 hover:underline" title="Open the SavePageNow queue">
+                              {QUEUE_LABELS[queued]}
+                            </button>
+                          ) : row.coverage === 'never' && (
+                            <button
+                              onClick={() => queueForSave([row.url])}
+                              className="flex items-center gap-1 px-2 py-1 rounded bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/40 transition-colors"
+                              title="Add to the SavePageNow queue"
+                            >
+                              <Camera className="w-3 h-3" /> Save
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <ExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} data={[]} report={report} />
+    </div>
+  );
+};
+
+export default LinkRotPanel;
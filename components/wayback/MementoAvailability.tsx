@@ -0,0 +1,87 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, ExternalLink, Landmark, Loader2, XCircle } from 'lucide-react';
+import { AppView, MementoArchive } from '../../types';
+import { queryTimeGate } from '../../services/mementoService';
+import { parseWaybackTimestamp } from '../../services/waybackService';
+import { useArchiveQueries } from '../../hooks/useArchiveQueries';
+import ProvenanceBadge from '../ProvenanceBadge';
+
+interface Props {
+  url: string;
+  // YYYYMMDDhhmmss to look up the closest capture to instead of the latest
+  datetime?: string;
+  archives: MementoArchive[];
+  onChangeView?: (view: AppView) => void;
+}
+
+const formatTimestamp = (ts: string) =>
+  `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}`;
+
+/**
+ * Latest capture of `url`, or the one closest to `datetime`, in every enabled
+ * Memento archive, asked through their TimeGates.
+ */
+const MementoAvailability: React.FC<Props> = ({ url, datetime, archives, onChangeView }) => {
+  const results = useArchiveQueries(archives, `${url}|${datetime || ''}`, (archive, signal) =>
+    queryTimeGate(archive, url, datetime ? new Date(parseWaybackTimestamp(datetime)) : undefined, signal)
+  );
+
+  if (archives.length === 0) {
+    return (
+      <div className="text-xs text-gray-500 text-center">
+        No other web archives enabled.{' '}
+        {onChangeView && (
+          <button onClick={() => onChangeView(AppView.SETTINGS)} className="text-indigo-400 hover:underline">Add Memento archives in Settings</button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-2xl p-5">
+      <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Landmark className="w-3.5 h-3.5 text-amber-400" /> Other Web Archives
+      </h4>
+      <div className="divide-y divide-gray-700">
+        {archives.map(archive => {
+          const state = results[archive.id];
+          return (
+            <div key={archive.id} className="py-2.5 flex items-center justify-between gap-4 text-sm">
+              <span className="font-medium text-gray-200 truncate">{archive.name}</span>
+              {!state || state.status === 'loading' ? (
+                <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+              ) : state.status === 'error' ? (
+                <span className="flex items-center gap-1.5 text-xs text-red-300 min-w-0" title={state.error.message}>
+                  <AlertCircle className="w-3.5 h-3.5 shrink-0" /> <span className="truncate">{state.error.message}</span>
+                </span>
+              ) : state.result.memento ? (
+                <span className="flex items-center gap-3 shrink-0">
+                  <ProvenanceBadge provenance={state.result.provenance} />
+                  <span className="flex items-center gap-1.5 text-xs text-green-400">
+                    <CheckCircle className="w-3.5 h-3.5" />
+                    <span className="font-mono text-gray-300">{formatTimestamp(state.result.memento.timestamp)}</span>
+                  </span>
+                  <a
+                    href={state.result.memento.uri}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="p-1 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
+                    title={datetime ? "Open closest capture" : "Open latest capture"}
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </a>
+                </span>
+              ) : (
+                <span className="flex items-center gap-1.5 text-xs text-gray-500">
+                  <XCircle className="w-3.5 h-3.5" /> Not archived
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MementoAvailability;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ExternalLink, Loader2 } from 'lucide-react';
+import { CDXRecord, Memento, MementoArchive, Provenance } from '../../types';
+import { fetchTimeMap } from '../../services/mementoService';
+import { useArchiveQueries } from '../../hooks/useArchiveQueries';
+import ProvenanceBadge from '../ProvenanceBadge';
+
+interface Props {
+  url: string;
+  archives: MementoArchive[];
+  // Captures already loaded from the Wayback CDX API
+  records: CDXRecord[];
+  provenance?: Provenance;
+}
+
+interface Column {
+  id: string;
+  name: string;
+  mementos: Memento[] | null;
+  loading: boolean;
+  error?: string;
+  provenance?: Provenance;
+}
+
+const formatDate = (ts?: string) => (ts ? `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)}` : '—');
+
+// Share of the busiest cell at which a year gets the next shade
+const SHADES = [
+  { from: 0.75, className: 'bg-indigo-500/70 text-white' },
+  { from: 0.4, className: 'bg-indigo-500/45 text-white' },
+  { from: 0.15, className: 'bg-indigo-500/25 text-indigo-100' },
+  { from: 0, className: 'bg-indigo-500/10 text-indigo-200' },
+];
+
+/**
+ * Captures per year in the Wayback Machine and every enabled Memento archive,
+ * side by side. TimeMaps load independently; clicking a cell lists that
+ * archive's captures for the year.
+ */
+const MementoHistory: React.FC<Props> = ({ url, archives, records, provenance }) => {
+  const [selected, setSelected] = useState<{ column: string; year: string } | null>(null);
+  const results = useArchiveQueries(archives, url, (archive, signal) => fetchTimeMap(archive, url, signal));
+
+  const waybackMementos = useMemo(
+    () => records.map(row => ({ uri: `https://web.archive.org/web/${row.timestamp}/${row.original}`, timestamp: row.timestamp })),
+    [records]
+  );
+
+  const columns: Column[] = useMemo(() => [
+    { id: 'wayback-cdx', name: 'Wayback Machine', mementos: waybackMementos, loading: false, provenance },
+    ...archives.map(archive => {
+      const state = results[archive.id];
+      return {
+        id: archive.id,
+        name: archive.name,
+        mementos: state?.status === 'done' ? state.result.mementos : null,
+        loading: !state || state.status === 'loading',
+        error: state?.status === 'error' ? state.error.message : undefined,
+        provenance: state?.status === 'done' ? state.result.provenance : undefined,
+      };
+    }),
+  ], [archives, results, waybackMementos, provenance]);
+
+  const counts = useMemo(() => {
+    const byColumn: Record<string, Record<string, number>> = {};
+    const years = new Set<string>();
+    let max = 0;
+    columns.forEach(column => {
+      const perYear: Record<string, number> = {};
+      column.mementos?.forEach(m => {
+        const year = m.timestamp.slice(0, 4);
+        perYear[year] = (perYear[year] || 0) + 1;
+        years.add(year);
+      });
+      Object.values(perYear).forEach(n => (max = Math.max(max, n)));
+      byColumn[column.id] = perYear;
+    });
+    return { byColumn, years: Array.from(years).sort().reverse(), max };
+  }, [columns]);
+
+  const selectedMementos = useMemo(() => {
+    if (!selected) return [];
+    const column = columns.find(c => c.id === selected.column);
+    return column?.mementos?.filter(m => m.timestamp.startsWith(selected.year)) || [];
+  }, [columns, selected]);
+
+  const shade = (count: number) => SHADES.find(s => count / Math.max(1, counts.max) >= s.from)!.className;
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col space-y-4">
+      <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-auto custom-scrollbar max-h-[60vh]">
+        <table className="w-full text-xs text-left text-gray-300">
+          <thead className="text-gray-500 uppercase bg-gray-900 sticky top-0 z-10">
+            <tr>
+              <th className="px-4 py-3 w-20">Year</th>
+              {columns.map(column => (
+                <th key={column.id} className="px-4 py-3 text-center normal-case">
+                  <div className="flex items-center justify-center gap-1.5 text-gray-300 font-medium">
+                    {column.name}
+                    {column.loading && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {column.error && (
+                      <span title={column.error}><AlertCircle className="w-3.5 h-3.5 text-red-400" /></span>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700">
+            <tr className="bg-gray-850">
+              <td className="px-4 py-2 text-gray-500 font-medium">Total</td>
+              {columns.map(column => (
+                <td key={column.id} className="px-4 py-2 text-center">
+                  {column.mementos ? (
+                    <div className="space-y-1">
+                      <div className="text-sm font-bold text-white">{column.mementos.length.toLocaleString()}</div>
+                      <div className="text-[10px] text-gray-500 font-mono">
+                        {formatDate(column.mementos[0]?.timestamp)} → {formatDate(column.mementos[column.mementos.length - 1]?.timestamp)}
+                      </div>
+                      {column.provenance && <ProvenanceBadge provenance={column.provenance} />}
+                    </div>
+                  ) : column.error ? (
+                    <span className="text-red-300 line-clamp-2" title={column.error}>{column.error}</span>
+                  ) : (
+                    <span className="text-gray-600">…</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+            {counts.years.map(year => (
+              <tr key={year}>
+                <td className="px-4 py-1.5 font-mono text-gray-400">{year}</td>
+                {columns.map(column => {
+                  const count = counts.byColumn[column.id]?.[year] || 0;
+                  const isSelected = selected?.column === column.id && selected.year === year;
+                  return (
+                    <td key={column.id} className="px-2 py-1 text-center">
+                      {count > 0 ? (
+                        <button
+                          onClick={() => setSelected(isSelected ? null : { column: column.id, year })}
+                          className={`w-full rounded py-1 font-mono ${shade(count)} ${isSelected ? 'ring-2 ring-white' : ''}`}
+                        >
+                          {count.toLocaleString()}
+                        </button>
+                      ) : (
+                        <span className="text-gray-700">·</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="bg-gray-800 rounded-xl border border-gray-700 overflow-hidden animate-in fade-in">
+          <div className="px-4 py-2 border-b border-gray-700 bg-gray-850 text-xs text-gray-400">
+            {selectedMementos.length.toLocaleString()} captures in {columns.find(c => c.id === selected.column)?.name} during {selected.year}
+          </div>
+          <div className="max-h-64 overflow-auto custom-scrollbar divide-y divide-gray-700">
+            {selectedMementos.map(memento => (
+              <a
+                key={memento.uri}
+                href={memento.uri}
+                target="_blank"
+                rel="noreferrer"
+                className="px-4 py-1.5 flex items-center justify-between text-xs text-gray-300 hover:bg-gray-700/40"
+              >
+                <span className="font-mono">{memento.timestamp}</span>
+                <ExternalLink className="w-3.5 h-3.5 text-gray-500" />
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MementoHistory;
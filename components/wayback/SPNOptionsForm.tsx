@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, SlidersHorizontal } from 'lucide-react';
+import { DEFAULT_SPN_OPTIONS } from '../../constants';
+import { SPNOptions } from '../../types';
+
+interface Props {
+  options: SPNOptions;
+  onChange: (options: SPNOptions) => void;
+}
+
+type SPNFlag = 'captureOutlinks' | 'captureScreenshot' | 'skipFirstArchive' | 'delayWbAvailability';
+
+const FLAGS: { id: SPNFlag; label: string; hint: string }[] = [
+  { id: 'captureOutlinks', label: 'Capture outlinks', hint: 'Also queue every page this page links to' },
+  { id: 'captureScreenshot', label: 'Capture screenshot', hint: 'Store a PNG screenshot alongside the capture' },
+  { id: 'skipFirstArchive', label: 'Skip first-archive check', hint: 'Faster when you know the URL is already archived' },
+  { id: 'delayWbAvailability', label: 'Delay availability', hint: 'Make the capture public about 12 hours later, reducing load on the Wayback Machine' },
+];
+
+// SPN accepts a number of seconds or a duration such as "3d", "12h" or "1d 6h"
+const isValidWindow = (value: string) => value === '' || /^(\d+[smhd]?\s*)+$/.test(value.trim());
+
+const SPNOptionsForm: React.FC<Props> = ({ options, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (patch: Partial<SPNOptions>) => onChange({ ...options, ...patch });
+
+  const activeCount = FLAGS.filter(f => options[f.id]).length + (options.ifNotArchivedWithin ? 1 : 0);
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-xs font-medium text-gray-400 hover:text-gray-200 transition-colors"
+        >
+          {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          <SlidersHorizontal className="w-3.5 h-3.5" /> Capture options
+          {activeCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-300 text-[10px] font-bold">{activeCount} active</span>
+          )}
+        </button>
+        {activeCount > 0 && (
+          <button type="button" onClick={() => onChange(DEFAULT_SPN_OPTIONS)} className="text-xs text-gray-500 hover:text-gray-300">
+            Reset
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-3 flex flex-wrap items-end gap-x-6 gap-y-3 bg-gray-900/40 border border-gray-700 rounded-xl p-4 animate-in fade-in">
+          {FLAGS.map(flag => (
+            <label key={flag.id} title={flag.hint} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={options[flag.id]}
+                onChange={e => update({ [flag.id]: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              {flag.label}
+            </label>
+          ))}
+          <div>
+            <label className="block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">Skip if archived within</label>
+            <input
+              value={options.ifNotArchivedWithin}
+              onChange={e => update({ ifNotArchivedWithin: e.target.value })}
+              placeholder="e.g. 3d, 12h"
+              title="Reuse a capture made within this window instead of taking a new one"
+              className={`bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none w-32 font-mono ${isValidWindow(options.ifNotArchivedWithin) ? '' : 'border-red-500'}`}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SPNOptionsForm;
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle, Clock, Download, ExternalLink, FileUp, ListPlus, Loader2, Pause, Play, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import { AppView, SaveQueueItem, SaveQueueStatus, SPNOptions } from '../../types';
+import { fetchSitemapUrls, parseUrlList, saveQueue, SaveQueueState, saveQueueToCsv } from '../../services/saveQueue';
+import { isAbortError } from '../../services/httpClient';
+import { ApiError, toApiError } from '../../services/errors';
+import { useAbortController } from '../../hooks/useAbortController';
+import { Button } from '../ui/Button';
+import ErrorPanel from '../ErrorPanel';
+
+interface Props {
+  options: SPNOptions;
+  onChangeView?: (view: AppView) => void;
+}
+
+const STATUS_LABELS: Record<SaveQueueStatus, string> = {
+  queued: 'Queued',
+  submitting: 'Submitting',
+  capturing: 'Capturing',
+  success: 'Saved',
+  error: 'Failed',
+};
+
+const StatusBadge: React.FC<{ item: SaveQueueItem }> = ({ item }) => {
+  switch (item.status) {
+    case 'success':
+      return (
+        <span className="flex items-center gap-1.5 text-green-400 text-xs font-medium bg-green-400/10 px-2 py-1 rounded-full">
+          <CheckCircle className="w-3 h-3" /> Saved
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="flex items-center gap-1.5 text-red-400 text-xs font-medium bg-red-400/10 px-2 py-1 rounded-full" title={item.message}>
+          <XCircle className="w-3 h-3" /> Failed
+        </span>
+      );
+    case 'queued':
+      return (
+        <span className="flex items-center gap-1.5 text-gray-400 text-xs font-medium bg-gray-700 px-2 py-1 rounded-full">
+          <Clock className="w-3 h-3" /> Queued
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center gap-1.5 text-yellow-400 text-xs font-medium bg-yellow-400/10 px-2 py-1 rounded-full">
+          <Loader2 className="w-3 h-3 animate-spin" /> {STATUS_LABELS[item.status]}
+        </span>
+      );
+  }
+};
+
+const SaveQueuePanel: React.FC<Props> = ({ options, onChangeView }) => {
+  const [state, setState] = useState<SaveQueueState>(() => saveQueue.getState());
+  const [bulkText, setBulkText] = useState('');
+  const [sitemapUrl, setSitemapUrl] = useState('');
+  const [sitemapLoading, setSitemapLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sitemapRequest = useAbortController();
+
+  useEffect(() => {
+    saveQueue.load();
+    return saveQueue.subscribe(setState);
+  }, []);
+
+  // Tick while rate limited so the countdown stays current
+  const rateLimited = state.pausedUntil > now;
+  useEffect(() => {
+    setNow(Date.now());
+    if (state.pausedUntil <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.pausedUntil]);
+
+  const parsed = useMemo(() => parseUrlList(bulkText), [bulkText]);
+  const counts = useMemo(() => {
+    const result: Record<SaveQueueStatus, number> = { queued: 0, submitting: 0, capturing: 0, success: 0, error: 0 };
+    state.items.forEach(item => result[item.status]++);
+    return result;
+  }, [state.items]);
+  // Newest first, like the rest of the app's histories
+  const items = useMemo(() => [...state.items].reverse(), [state.items]);
+
+  const handleEnqueue = async () => {
+    try {
+      const added = await saveQueue.enqueue(parsed, options);
+      setNotice(`Added ${added} of ${parsed.length} URLs to the queue${added < parsed.length ? ' (the rest were already waiting)' : ''}.`);
+      setBulkText('');
+    } catch (e) {
+      console.error("Failed to queue URLs", e);
+      setError(toApiError(e, 'Failed to add URLs to the queue'));
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setBulkText(prev => (prev.trim() ? `${prev.trim()}\n` : '') + parseUrlList(text).join('\n'));
+  };
+
+  const handleLoadSitemap = async () => {
+    if (!sitemapUrl.trim()) return;
+    const signal = sitemapRequest.renew();
+    setSitemapLoading(true);
+    setError(null);
+    try {
+      const urls = await fetchSitemapUrls(sitemapUrl.trim(), signal);
+      setBulkText(prev => (prev.trim() ? `${prev.trim()}\n` : '') + urls.join('\n'));
+      setNotice(`Loaded ${urls.length} URLs from the sitemap.`);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setError(toApiError(e, 'Failed to load sitemap'));
+    } finally {
+      if (!signal.aborted) setSitemapLoading(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([saveQueueToCsv(state.items)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `omnidash_spn_queue_${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const failedIds = state.items.filter(i => i.status === 'error').map(i => i.id);
+  const savedIds = state.items.filter(i => i.status === 'success').map(i => i.id);
+
+  return (
+    <div className="space-y-6">
+      {/* Bulk input */}
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-gray-300 flex items-center gap-2"><ListPlus className="w-4 h-4 text-indigo-400" /> Bulk Capture</h4>
+          <span className="text-xs text-gray-500">{parsed.length} URLs detected</span>
+        </div>
+        <textarea
+          value={bulkText}
+          onChange={e => setBulkText(e.target.value)}
+          rows={4}
+          placeholder={"Paste URLs, one per line or comma separated\nexample.com/page-1\nhttps://example.com/page-2"}
+          className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-xs font-mono text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none custom-scrollbar"
+        />
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="h-8 text-xs">
+            <FileUp className="w-3 h-3" /> Upload .txt / .csv
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".txt,.csv,text/plain,text/csv" className="hidden" onChange={handleUpload} />
+          <div className="flex flex-1 min-w-[16rem] gap-2">
+            <input
+              value={sitemapUrl}
+              onChange={e => setSitemapUrl(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleLoadSitemap()}
+              placeholder="https://example.com/sitemap.xml"
+              className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-xs text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <Button variant="secondary" onClick={handleLoadSitemap} isLoading={sitemapLoading} disabled={!sitemapUrl.trim()} className="h-8 text-xs">
+              Load sitemap
+            </Button>
+          </div>
+          <Button onClick={handleEnqueue} disabled={parsed.length === 0} className="h-8 text-xs bg-indigo-600 hover:bg-indigo-500">
+            Add {parsed.length || ''} to queue
+          </Button>
+        </div>
+        {notice && <p className="mt-3 text-xs text-green-300">{notice}</p>}
+        {error && <ErrorPanel error={error} onRetry={handleLoadSitemap} onChangeView={onChangeView} className="mt-3" />}
+      </div>
+
+      {/* Queue */}
+      <div className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden">
+        <div className="bg-gray-900 px-6 py-3 border-b border-gray-700 flex flex-wrap gap-3 justify-between items-center">
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            <span className="font-medium text-sm text-gray-300">Capture Queue</span>
+            <span>{counts.queued} queued</span>
+            <span className="text-yellow-400">{counts.submitting + counts.capturing} running</span>
+            <span className="text-green-400">{counts.success} saved</span>
+            <span className="text-red-400">{counts.error} failed</span>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => saveQueue.setPaused(!state.paused)} className="h-8 text-xs">
+              {state.paused ? <><Play className="w-3 h-3" /> Resume</> : <><Pause className="w-3 h-3" /> Pause</>}
+            </Button>
+            <Button variant="secondary" onClick={() => saveQueue.retry(failedIds)} disabled={failedIds.length === 0} className="h-8 text-xs">
+              <RotateCcw className="w-3 h-3" /> Retry failed
+            </Button>
+            <Button variant="secondary" onClick={() => saveQueue.remove(savedIds)} disabled={savedIds.length === 0} className="h-8 text-xs">
+              <Trash2 className="w-3 h-3" /> Clear saved
+            </Button>
+            <Button variant="secondary" onClick={handleExport} disabled={state.items.length === 0} className="h-8 text-xs">
+              <Download className="w-3 h-3" /> CSV
+            </Button>
+          </div>
+        </div>
+
+        {(state.paused || rateLimited) && (
+          <div className="px-6 py-2 text-xs border-b border-gray-700 bg-orange-500/10 text-orange-300">
+            {state.paused
+              ? `Queue paused${state.pauseReason ? `: ${state.pauseReason}` : '.'}`
+              : `SavePageNow is rate limiting this account. Resuming in ${Math.ceil((state.pausedUntil - now) / 1000)}s.`}
+          </div>
+        )}
+        {!state.paused && !rateLimited && counts.queued > 0 && state.quota && state.quota.available <= 0 && (
+          <div className="px-6 py-2 text-xs border-b border-gray-700 bg-gray-900/40 text-gray-400">
+            All {state.quota.processing} capture sessions are busy. The next item starts once one frees up.
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            No save requests yet. Enter a URL above or paste a list to capture it.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-700 max-h-[60vh] overflow-auto custom-scrollbar">
+            {items.map(item => (
+              <div key={item.id} className="p-4 flex items-start justify-between hover:bg-gray-700/30 transition-colors">
+                <div className="min-w-0 pr-4">
+                  <div className="font-mono text-sm text-gray-300 truncate" title={item.url}>{item.url}</div>
+                  <div className="text-xs text-gray-500 mt-1 flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <span>{new Date(item.updatedAt).toLocaleTimeString()}</span>
+                    {item.attempts > 1 && <span>attempt {item.attempts}</span>}
+                    {item.job?.jobId && <span className="font-mono text-gray-600" title="SavePageNow job">{item.job.jobId}</span>}
+                    {item.message && <span className={item.status === 'error' ? 'text-red-300' : 'text-gray-400'}>{item.message}</span>}
+                    {item.job?.timestamp && (
+                      <a
+                        href={`https://web.archive.org/web/${item.job.timestamp}/${item.job.originalUrl || item.url}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 font-mono text-indigo-400 hover:underline"
+                      >
+                        {item.job.timestamp} <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </div>
+                  {item.job && (item.job.resources.length > 0 || item.job.outlinks.length > 0) && (
+                    <details className="mt-2 text-xs text-gray-400">
+                      <summary className="cursor-pointer select-none hover:text-gray-200">
+                        {item.job.resources.length} resources · {item.job.outlinks.length} outlinks
+                      </summary>
+                      <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {([['Resources', item.job.resources], ['Outlinks', item.job.outlinks]] as const).map(([label, urls]) => (
+                          <div key={label} className="min-w-0">
+                            <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">{label}</div>
+                            <ul className="max-h-40 overflow-auto space-y-0.5 font-mono text-[11px] custom-scrollbar">
+                              {urls.map(u => <li key={u} className="truncate" title={u}>{u}</li>)}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <StatusBadge item={item} />
+                  {item.status === 'error' && (
+                    <button
+                      onClick={() => saveQueue.retry([item.id])}
+                      className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                      title="Retry"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => saveQueue.remove([item.id])}
+                    className="p-1 hover:bg-red-500/20 rounded text-gray-500 hover:text-red-400 transition-colors"
+                    title={item.status === 'submitting' || item.status === 'capturing' ? 'Stop tracking and remove' : 'Remove'}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaveQueuePanel;
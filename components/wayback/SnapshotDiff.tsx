@@ -0,0 +1,280 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, Code, ExternalLink, FileText, Link2, Loader2, X } from 'lucide-react';
+import { downloadSnapshotContent } from '../../services/waybackService';
+import { DiffPart, diffLinks, diffSource, diffVisibleText } from '../../services/diffService';
+import { isAbortError } from '../../services/httpClient';
+import { ApiError, toApiError } from '../../services/errors';
+import { useAbortController } from '../../hooks/useAbortController';
+import ErrorPanel from '../ErrorPanel';
+
+/** A capture to compare; content is downloaded when not already stored locally. */
+export interface CompareTarget {
+  id: string;
+  timestamp: string;
+  original: string;
+  content?: string;
+}
+
+interface Props {
+  targets: [CompareTarget, CompareTarget];
+  onClose: () => void;
+}
+
+type DiffTab = 'text' | 'source' | 'links';
+
+// Unchanged runs longer than this are folded, keeping CONTEXT tokens on each side
+const FOLD_THRESHOLD = 80;
+const TEXT_CONTEXT = 25;
+const SOURCE_CONTEXT = 3;
+
+const formatTimestamp = (ts: string) =>
+  ts.length >= 12 ? `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}` : ts;
+
+const waybackUrl = (target: CompareTarget) => `https://web.archive.org/web/${target.timestamp}/${target.original}`;
+
+const Fold: React.FC<{ count: number; unit: string; onExpand: () => void }> = ({ count, unit, onExpand }) => (
+  <button onClick={onExpand} className="mx-1 px-2 py-0.5 rounded bg-gray-700/60 text-[10px] text-gray-400 hover:text-white hover:bg-gray-600">
+    … {count.toLocaleString()} unchanged {unit} …
+  </button>
+);
+
+const TextColumn: React.FC<{ parts: DiffPart[]; hide: 'added' | 'removed'; expanded: boolean; onExpand: () => void }> = ({ parts, hide, expanded, onExpand }) => (
+  <div className="flex-1 min-w-0 overflow-auto p-4 text-sm leading-relaxed text-gray-300 custom-scrollbar">
+    {parts.map((part, i) => {
+      if (part.type === hide) return null;
+      if (part.type !== 'equal') {
+        return (
+          <span key={i} className={part.type === 'added' ? 'bg-green-500/20 text-green-300 rounded' : 'bg-red-500/20 text-red-300 line-through rounded'}>
+            {part.tokens.join(' ')}{' '}
+          </span>
+        );
+      }
+      if (expanded || part.tokens.length <= FOLD_THRESHOLD) return <span key={i}>{part.tokens.join(' ')} </span>;
+      const head = i === 0 ? [] : part.tokens.slice(0, TEXT_CONTEXT);
+      const tail = i === parts.length - 1 ? [] : part.tokens.slice(-TEXT_CONTEXT);
+      return (
+        <span key={i}>
+          {head.join(' ')}
+          <Fold count={part.tokens.length - head.length - tail.length} unit="words" onExpand={onExpand} />
+          {tail.join(' ')}{' '}
+        </span>
+      );
+    })}
+  </div>
+);
+
+interface SourceRow {
+  left?: string;
+  right?: string;
+  type: 'equal' | 'changed' | 'fold';
+  folded?: number;
+}
+
+// Pairs removed and added lines so both sides of a change sit on the same row
+const buildSourceRows = (parts: DiffPart[], expanded: boolean): SourceRow[] => {
+  const rows: SourceRow[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.type === 'equal') {
+      const lines = part.tokens;
+      if (!expanded && lines.length > SOURCE_CONTEXT * 2 + 1) {
+        const head = i === 0 ? 0 : SOURCE_CONTEXT;
+        const tail = i === parts.length - 1 ? 0 : SOURCE_CONTEXT;
+        lines.slice(0, head).forEach(line => rows.push({ left: line, right: line, type: 'equal' }));
+        rows.push({ type: 'fold', folded: lines.length - head - tail });
+        lines.slice(lines.length - tail).forEach(line => rows.push({ left: line, right: line, type: 'equal' }));
+      } else {
+        lines.forEach(line => rows.push({ left: line, right: line, type: 'equal' }));
+      }
+      continue;
+    }
+    const removed = part.type === 'removed' ? part.tokens : [];
+    const next = parts[i + 1];
+    const added = part.type === 'added' ? part.tokens : next && next.type === 'added' ? next.tokens : [];
+    if (part.type === 'removed' && next && next.type === 'added') i++;
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j], right: added[j], type: 'changed' });
+    }
+  }
+  return rows;
+};
+
+const SnapshotDiff: React.FC<Props> = ({ targets, onClose }) => {
+  // Always show the older capture on the left
+  const [older, newer] = [...targets].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const [contents, setContents] = useState<[string, string] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [tab, setTab] = useState<DiffTab>('text');
+  const [expanded, setExpanded] = useState(false);
+  const { renew } = useAbortController();
+
+  const load = async () => {
+    const signal = renew();
+    setLoading(true);
+    setError(null);
+    try {
+      const [a, b] = await Promise.all([older, newer].map(async target => {
+        if (target.content !== undefined) return target.content;
+        const { content, blob, mimetype } = await downloadSnapshotContent(waybackUrl(target), signal);
+        if (blob) {
+          throw new ApiError('unknown', `The capture from ${formatTimestamp(target.timestamp)} is ${mimetype}; only text captures can be compared.`, { url: waybackUrl(target), contentType: mimetype });
+        }
+        return content;
+      }));
+      setContents([a, b]);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setError(toApiError(e, 'Failed to download captures'));
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [older.id, newer.id]);
+
+  // Only the active tab is computed; large pages take a noticeable moment to diff
+  const textDiff = useMemo(() => contents && tab === 'text' ? diffVisibleText(contents[0], contents[1]) : null, [contents, tab]);
+  const sourceDiff = useMemo(() => contents && tab === 'source' ? diffSource(contents[0], contents[1]) : null, [contents, tab]);
+  const linkDiff = useMemo(() => contents && tab === 'links' ? diffLinks(contents[0], contents[1], newer.original) : null, [contents, tab, newer.original]);
+  const sourceRows = useMemo(() => sourceDiff ? buildSourceRows(sourceDiff.parts, expanded) : [], [sourceDiff, expanded]);
+
+  const activeDiff = tab === 'text' ? textDiff : tab === 'source' ? sourceDiff : null;
+
+  const tabs: { id: DiffTab; label: string; icon: React.ReactNode }[] = [
+    { id: 'text', label: 'Visible Text', icon: <FileText className="w-3.5 h-3.5" /> },
+    { id: 'source', label: 'HTML Source', icon: <Code className="w-3.5 h-3.5" /> },
+    { id: 'links', label: 'Links', icon: <Link2 className="w-3.5 h-3.5" /> },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-gray-800 border border-gray-700 w-full max-w-7xl h-[90vh] rounded-2xl flex flex-col overflow-hidden shadow-2xl">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-700 flex items-center justify-between gap-4 shrink-0">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-white">Compare Captures</h3>
+            <p className="text-xs text-gray-400 truncate" title={newer.original}>{newer.original}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="bg-gray-900 p-1 rounded-xl border border-gray-700 flex text-xs font-medium">
+              {tabs.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => { setTab(t.id); setExpanded(false); }}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-all ${tab === t.id ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                  {t.icon} {t.label}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-full text-gray-400 hover:text-white transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Capture labels & stats */}
+        <div className="px-6 py-2 border-b border-gray-700 bg-gray-850 flex items-center gap-3 text-xs shrink-0">
+          <a href={waybackUrl(older)} target="_blank" rel="noreferrer" className="flex items-center gap-1 font-mono text-red-300 hover:underline">
+            {formatTimestamp(older.timestamp)} <ExternalLink className="w-3 h-3" />
+          </a>
+          <ArrowRight className="w-3.5 h-3.5 text-gray-500" />
+          <a href={waybackUrl(newer)} target="_blank" rel="noreferrer" className="flex items-center gap-1 font-mono text-green-300 hover:underline">
+            {formatTimestamp(newer.timestamp)} <ExternalLink className="w-3 h-3" />
+          </a>
+          <span className="flex-1" />
+          {activeDiff && (
+            <span className="text-gray-400">
+              <span className="text-green-400">+{activeDiff.added.toLocaleString()}</span>{' '}
+              <span className="text-red-400">−{activeDiff.removed.toLocaleString()}</span>{' '}
+              {tab === 'text' ? 'words' : 'lines'}
+            </span>
+          )}
+          {linkDiff && (
+            <span className="text-gray-400">
+              <span className="text-green-400">+{linkDiff.added.length}</span>{' '}
+              <span className="text-red-400">−{linkDiff.removed.length}</span> links · {linkDiff.unchanged} unchanged
+            </span>
+          )}
+          {activeDiff && !activeDiff.exact && (
+            <span className="flex items-center gap-1 text-amber-400" title="The captures differ too much for a fine-grained diff; the changed region is shown as a whole.">
+              <AlertTriangle className="w-3.5 h-3.5" /> Approximate
+            </span>
+          )}
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 min-h-0 flex flex-col">
+          {loading && (
+            <div className="flex-1 flex items-center justify-center text-gray-400 text-sm gap-2">
+              <Loader2 className="w-5 h-5 animate-spin text-indigo-400" /> Downloading captures...
+            </div>
+          )}
+          {error && <ErrorPanel error={error} onRetry={load} className="m-6" />}
+
+          {!loading && textDiff && (
+            textDiff.added + textDiff.removed === 0 ? (
+              <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">The visible text of both captures is identical.</div>
+            ) : (
+              <div className="flex-1 min-h-0 flex divide-x divide-gray-700">
+                <TextColumn parts={textDiff.parts} hide="added" expanded={expanded} onExpand={() => setExpanded(true)} />
+                <TextColumn parts={textDiff.parts} hide="removed" expanded={expanded} onExpand={() => setExpanded(true)} />
+              </div>
+            )
+          )}
+
+          {!loading && sourceDiff && (
+            <div className="flex-1 min-h-0 overflow-auto custom-scrollbar">
+              <table className="w-full table-fixed font-mono text-[11px] text-gray-300">
+                <tbody>
+                  {sourceRows.map((row, i) => row.type === 'fold' ? (
+                    <tr key={i}>
+                      <td colSpan={2} className="py-1 text-center bg-gray-900/60">
+                        <Fold count={row.folded || 0} unit="lines" onExpand={() => setExpanded(true)} />
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={i} className="align-top">
+                      <td className={`px-3 py-0.5 whitespace-pre-wrap break-all border-r border-gray-700 ${row.type === 'changed' && row.left !== undefined ? 'bg-red-500/15 text-red-200' : ''}`}>
+                        {row.left}
+                      </td>
+                      <td className={`px-3 py-0.5 whitespace-pre-wrap break-all ${row.type === 'changed' && row.right !== undefined ? 'bg-green-500/15 text-green-200' : ''}`}>
+                        {row.right}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!loading && linkDiff && (
+            <div className="flex-1 min-h-0 grid grid-cols-2 divide-x divide-gray-700">
+              {([['Removed', linkDiff.removed, 'text-red-300'], ['Added', linkDiff.added, 'text-green-300']] as const).map(([label, links, color]) => (
+                <div key={label} className="min-h-0 overflow-auto p-4 custom-scrollbar">
+                  <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">{label} ({links.length})</h4>
+                  {links.length === 0 ? (
+                    <p className="text-sm text-gray-500">None</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {links.map(link => (
+                        <li key={link} className={`text-xs font-mono truncate ${color}`} title={link}>
+                          <a href={link} target="_blank" rel="noreferrer" className="hover:underline">{link}</a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotDiff;
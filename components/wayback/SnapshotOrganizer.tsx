@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { FolderTree, Star, Tag, X } from 'lucide-react';
+import { SavedSnapshot, SnapshotOrganization } from '../../types';
+import { normalizeFolder, parseTags } from '../../services/libraryOrganizationService';
+import { Button } from '../ui/Button';
+
+interface Props {
+  snapshot: SavedSnapshot;
+  // Offered as suggestions
+  folders: string[];
+  tags: string[];
+  onSave: (changes: SnapshotOrganization) => Promise<void>;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none';
+
+/** Edits a snapshot's folder, tags, notes and star. */
+const SnapshotOrganizer: React.FC<Props> = ({ snapshot, folders, tags, onSave, onClose }) => {
+  const [folder, setFolder] = useState(snapshot.folder);
+  const [tagInput, setTagInput] = useState(snapshot.tags.join(', '));
+  const [notes, setNotes] = useState(snapshot.notes);
+  const [starred, setStarred] = useState(snapshot.starred);
+  const [saving, setSaving] = useState(false);
+
+  const parsedTags = parseTags(tagInput);
+  const suggestions = tags.filter(tag => !parsedTags.some(t => t.toLowerCase() === tag.toLowerCase())).slice(0, 12);
+
+  const addTag = (tag: string) => setTagInput([...parsedTags, tag].join(', '));
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave({ folder: normalizeFolder(folder), tags: parsedTags, notes: notes.trim(), starred });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <form onSubmit={save} className="bg-gray-900 w-full max-w-lg rounded-2xl border border-gray-700 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-white">Organize Snapshot</h2>
+            <div className="text-xs text-gray-500 font-mono truncate" title={snapshot.originalUrl}>{snapshot.timestamp} · {snapshot.originalUrl}</div>
+          </div>
+          <button type="button" onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="flex items-center gap-1.5 text-xs font-medium text-gray-400 mb-1"><FolderTree className="w-3.5 h-3.5" /> Folder</span>
+            <input
+              value={folder}
+              onChange={e => setFolder(e.target.value)}
+              list="snapshot-organizer-folders"
+              placeholder="Research/Climate (nest with /)"
+              className={INPUT_CLASS}
+            />
+            <datalist id="snapshot-organizer-folders">
+              {folders.map(path => <option key={path} value={path} />)}
+            </datalist>
+          </label>
+
+          <label className="block">
+            <span className="flex items-center gap-1.5 text-xs font-medium text-gray-400 mb-1"><Tag className="w-3.5 h-3.5" /> Tags</span>
+            <input value={tagInput} onChange={e => setTagInput(e.target.value)} placeholder="evidence, press release" className={INPUT_CLASS} />
+          </label>
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1 -mt-2">
+              {suggestions.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => addTag(tag)}
+                  className="px-2 py-0.5 rounded-full text-[11px] border border-gray-700 text-gray-400 hover:text-gray-200 hover:border-gray-600"
+                >
+                  + {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-400 mb-1">Notes</span>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={5} className={`${INPUT_CLASS} custom-scrollbar`} />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer select-none">
+            <input type="checkbox" checked={starred} onChange={e => setStarred(e.target.checked)} className="accent-yellow-400" />
+            <Star className={`w-4 h-4 ${starred ? 'text-yellow-400 fill-yellow-400' : 'text-gray-500'}`} /> Starred
+          </label>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-800 flex justify-end gap-2">
+          <Button type="button" variant="secondary" onClick={onClose} className="h-9 text-sm">Cancel</Button>
+          <Button type="submit" isLoading={saving} className="h-9 text-sm bg-indigo-600 hover:bg-indigo-500">Save</Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SnapshotOrganizer;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Download, ExternalLink, FileQuestion, FileText } from 'lucide-react';
+import { SavedSnapshot } from '../../types';
+import { captureFileName, isHtmlSnapshot } from '../../services/waybackService';
+
+interface Props {
+  snapshot: SavedSnapshot;
+  // Prepared page for HTML snapshots, with assets resolved
+  html: string;
+}
+
+// Bytes shown in the hex dump of captures that cannot be rendered
+const HEX_DUMP_BYTES = 512;
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const hexDump = (bytes: Uint8Array) => {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = Array.from(bytes.subarray(offset, offset + 16));
+    const hex = row.map(b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = row.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+};
+
+const download = (snapshot: SavedSnapshot) => {
+  const blob = snapshot.blob || new Blob([snapshot.content], { type: snapshot.mimetype });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = captureFileName(snapshot.originalUrl, snapshot.timestamp, snapshot.mimetype);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Renders a Library snapshot by its content type: pages in a sandboxed frame,
+ * images and media natively, other text as source, and anything else as file
+ * details with a hex dump. PDFs open in a new tab, since browsers won't show
+ * them in a sandboxed frame and an unsandboxed one would share the app's origin.
+ */
+const SnapshotViewer: React.FC<Props> = ({ snapshot, html }) => {
+  const { blob, mimetype } = snapshot;
+  const [objectUrl, setObjectUrl] = useState('');
+  const [dump, setDump] = useState('');
+
+  const isPdf = mimetype === 'application/pdf';
+  const isImage = mimetype.startsWith('image/');
+  const isMedia = mimetype.startsWith('video/') || mimetype.startsWith('audio/');
+
+  useEffect(() => {
+    if (!blob) return;
+    // The tab a PDF opens in renders by the blob's own type, so pin it to PDF
+    const url = URL.createObjectURL(isPdf ? new Blob([blob], { type: 'application/pdf' }) : blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob, isPdf]);
+
+  useEffect(() => {
+    if (!blob || isPdf || isImage || isMedia) return;
+    let cancelled = false;
+    blob.slice(0, HEX_DUMP_BYTES).arrayBuffer().then(buffer => {
+      if (!cancelled) setDump(hexDump(new Uint8Array(buffer)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [blob, isPdf, isImage, isMedia]);
+
+  if (!blob) {
+    if (isHtmlSnapshot(snapshot)) {
+      return (
+        <iframe
+          srcDoc={html}
+          className="w-full h-full border-none"
+          title="Snapshot Preview"
+          // Same origin only so stored assets load from their blob: URLs; without allow-scripts nothing archived runs
+          sandbox="allow-same-origin"
+        />
+      );
+    }
+    return <pre className="w-full h-full overflow-auto p-4 text-xs font-mono text-gray-800 whitespace-pre-wrap break-all">{snapshot.content}</pre>;
+  }
+
+  if (!objectUrl) return null;
+  if (isPdf) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-4 bg-gray-50 p-6 text-sm text-gray-700">
+        <FileText className="w-12 h-12 text-gray-400" />
+        <div className="text-center">
+          <div className="font-bold">PDF document</div>
+          <div className="text-xs text-gray-500">{formatBytes(blob.size)}</div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => window.open(objectUrl, '_blank', 'noopener')}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 text-white text-xs hover:bg-gray-700 transition-colors"
+          >
+            <ExternalLink className="w-3.5 h-3.5" /> Open in new tab
+          </button>
+          <button
+            onClick={() => download(snapshot)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 text-white text-xs hover:bg-gray-700 transition-colors"
+          >
+            <Download className="w-3.5 h-3.5" /> Download file
+          </button>
+        </div>
+      </div>
+    );
+  }
+  if (isImage) {
+    return (
+      <div className="w-full h-full overflow-auto flex items-center justify-center bg-gray-100 p-4">
+        <img src={objectUrl} alt={snapshot.originalUrl} className="max-w-full max-h-full object-contain shadow" />
+      </div>
+    );
+  }
+  if (isMedia) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-900 p-4">
+        {mimetype.startsWith('video/')
+          ? <video src={objectUrl} controls className="max-w-full max-h-full" />
+          : <audio src={objectUrl} controls />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full overflow-auto p-6 bg-gray-50">
+      <div className="flex items-center gap-4 mb-4">
+        <FileQuestion className="w-10 h-10 text-gray-400 shrink-0" />
+        <div className="min-w-0 flex-1 text-sm text-gray-700">
+          <div className="font-bold">No preview for {mimetype}</div>
+          <div className="text-xs text-gray-500">{formatBytes(blob.size)} · first {Math.min(blob.size, HEX_DUMP_BYTES)} bytes shown</div>
+        </div>
+        <button
+          onClick={() => download(snapshot)}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 text-white text-xs hover:bg-gray-700 transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" /> Download file
+        </button>
+      </div>
+      <pre className="text-[11px] leading-5 font-mono text-gray-700 bg-white border border-gray-200 rounded-lg p-4 overflow-x-auto">{dump}</pre>
+    </div>
+  );
+};
+
+export default SnapshotViewer;
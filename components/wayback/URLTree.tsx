@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Clock, ExternalLink, FileText, Folder, Globe } from 'lucide-react';
+import { UrlTreeNode, dominantStatus } from '../../services/urlTreeService';
+
+interface Props {
+  roots: UrlTreeNode[];
+  onOpenHistory: (node: UrlTreeNode) => void;
+}
+
+// Children rendered per expanded node before a "show more" row
+const CHILD_PAGE = 200;
+
+const formatTs = (ts: string) => (ts.length >= 8 ? `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)}` : ts);
+
+const statusClass = (status: string) =>
+  status.startsWith('2') ? 'bg-green-500/10 text-green-400' :
+  status.startsWith('3') ? 'bg-blue-500/10 text-blue-400' :
+  status.startsWith('4') || status.startsWith('5') ? 'bg-red-500/10 text-red-400' :
+  'bg-gray-700 text-gray-400';
+
+interface RowProps {
+  node: UrlTreeNode;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (prefix: string) => void;
+  onOpenHistory: (node: UrlTreeNode) => void;
+}
+
+const TreeRow: React.FC<RowProps> = ({ node, depth, expanded, onToggle, onOpenHistory }) => {
+  const [visible, setVisible] = useState(CHILD_PAGE);
+  const isOpen = expanded.has(node.prefix);
+  const hasChildren = node.children.length > 0;
+  const status = dominantStatus(node);
+  const Icon = depth === 0 ? Globe : hasChildren ? Folder : FileText;
+  // A page without anything below it links to its own history rather than a prefix listing
+  const waybackUrl = !hasChildren && node.entries.length === 1
+    ? `https://web.archive.org/web/*/${node.entries[0].original}`
+    : `https://web.archive.org/web/*/${node.prefix}*`;
+
+  return (
+    <>
+      <div className="flex items-center text-xs text-gray-300 hover:bg-gray-700/40 border-b border-gray-700/50 h-9">
+        <div className="flex-1 min-w-0 flex items-center gap-1.5 px-2" style={{ paddingLeft: `${depth * 16 + 8}px` }}>
+          <button
+            onClick={() => hasChildren && onToggle(node.prefix)}
+            className={`p-0.5 rounded text-gray-500 ${hasChildren ? 'hover:text-white' : 'invisible'}`}
+          >
+            {isOpen ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          </button>
+          <Icon className={`w-3.5 h-3.5 shrink-0 ${depth === 0 ? 'text-indigo-400' : hasChildren ? 'text-yellow-500/80' : 'text-gray-500'}`} />
+          <span className="truncate font-mono" title={node.entries[0]?.original || node.prefix}>{node.name}</span>
+          {hasChildren && node.entries.length > 0 && <span className="text-[10px] text-gray-500">(page)</span>}
+        </div>
+        <div className="w-20 px-2 text-right text-gray-400">{node.urls.toLocaleString()}</div>
+        <div className="w-24 px-2 text-right">{node.captures.toLocaleString()}</div>
+        <div className="w-28 px-2 font-mono text-gray-400">{formatTs(node.firstTimestamp)}</div>
+        <div className="w-28 px-2 font-mono text-gray-400">{formatTs(node.lastTimestamp)}</div>
+        <div className="w-16 px-2">
+          <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${statusClass(status)}`}>{status}</span>
+        </div>
+        <div className="w-20 px-2 flex items-center gap-1">
+          <button
+            onClick={() => onOpenHistory(node)}
+            className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-indigo-300 transition-colors"
+            title="Open capture history"
+          >
+            <Clock className="w-3.5 h-3.5" />
+          </button>
+          <a
+            href={waybackUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+            title="View on Wayback"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </a>
+        </div>
+      </div>
+      {isOpen && node.children.slice(0, visible).map(child => (
+        <TreeRow
+          key={child.prefix}
+          node={child}
+          depth={depth + 1}
+          expanded={expanded}
+          onToggle={onToggle}
+          onOpenHistory={onOpenHistory}
+        />
+      ))}
+      {isOpen && node.children.length > visible && (
+        <button
+          onClick={() => setVisible(visible + CHILD_PAGE)}
+          className="w-full text-left text-xs text-indigo-400 hover:underline h-8 border-b border-gray-700/50"
+          style={{ paddingLeft: `${(depth + 1) * 16 + 32}px` }}
+        >
+          Show {Math.min(CHILD_PAGE, node.children.length - visible).toLocaleString()} more of {(node.children.length - visible).toLocaleString()}
+        </button>
+      )}
+    </>
+  );
+};
+
+/**
+ * Collapsible host/directory/page tree of a site inventory. Each row totals the
+ * URLs and captures below it; only expanded branches are rendered, so large
+ * sites stay responsive.
+ */
+const URLTree: React.FC<Props> = ({ roots, onOpenHistory }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Hosts start open; a single host is the usual case for prefix and host queries
+  useEffect(() => {
+    setExpanded(prev => {
+      if (roots.every(root => prev.has(root.prefix))) return prev;
+      const next = new Set(prev);
+      roots.forEach(root => next.add(root.prefix));
+      return next;
+    });
+  }, [roots]);
+
+  const toggle = (prefix: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(prefix)) next.delete(prefix);
+      else next.add(prefix);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex-1 min-h-[16rem] bg-gray-800 rounded-xl border border-gray-700 overflow-auto custom-scrollbar">
+      <div className="flex items-center text-xs text-gray-500 uppercase bg-gray-900 sticky top-0 z-10 h-10 font-medium">
+        <div className="flex-1 px-4">Path</div>
+        <div className="w-20 px-2 text-right">URLs</div>
+        <div className="w-24 px-2 text-right">Captures</div>
+        <div className="w-28 px-2">First</div>
+        <div className="w-28 px-2">Last</div>
+        <div className="w-16 px-2">Status</div>
+        <div className="w-20 px-2">Actions</div>
+      </div>
+      {roots.map(root => (
+        <TreeRow
+          key={root.prefix}
+          node={root}
+          depth={0}
+          expanded={expanded}
+          onToggle={toggle}
+          onOpenHistory={onOpenHistory}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default URLTree;
@@ -1,3 +1,5 @@
+import { CDXQueryOptions, MementoArchive, SnapshotOrganization, SPNOptions } from './types';
+
 export const API_BASE = {
   METADATA: 'https://archive.org/metadata',
   SEARCH: 'https://archive.org/advancedsearch.php',
@@ -13,9 +15,141 @@ export const DEFAULT_SETTINGS = {
   secretKey: '',
   demoMode: false,
   corsProxy: '',
+  requestTimeout: 30,
+  maxRetries: 2,
+  cacheEnabled: true,
+  serveStaleOffline: true,
+  mockFallback: false,
+  recordFixtures: false,
+  saveAssets: false,
+  mementoArchives: [
+    {
+      id: 'ia',
+      name: 'Internet Archive',
+      timegate: 'https://web.archive.org/web/',
+      timemap: 'https://web.archive.org/web/timemap/link/',
+      enabled: false,
+    },
+    {
+      id: 'archive-today',
+      name: 'archive.today',
+      timegate: 'https://archive.ph/timegate/',
+      timemap: 'https://archive.ph/timemap/',
+      enabled: true,
+    },
+    {
+      id: 'arquivo-pt',
+      name: 'Arquivo.pt',
+      timegate: 'https://arquivo.pt/wayback/',
+      timemap: 'https://arquivo.pt/wayback/timemap/link/',
+      enabled: true,
+    },
+    {
+      id: 'loc',
+      name: 'Library of Congress',
+      timegate: 'https://webarchive.loc.gov/all/',
+      timemap: 'https://webarchive.loc.gov/all/timemap/link/',
+      enabled: false,
+    },
+  ] as MementoArchive[],
 };
 
 export const PROXY_OPTIONS = {
     ALL_ORIGINS: 'https://api.allorigins.win/raw?url=',
     CORS_PROXY_IO: 'https://corsproxy.io/?',
-};
\ No newline at end of file
+};
+
+// Client-side throttling per API host. Keeps heavy Deep Search / SavePageNow use
+// below the thresholds that get an IP temporarily blocked.
+export const HOST_RATE_LIMITS: Record<string, { maxConcurrent: number; requestsPerMinute: number }> = {
+    'archive.org': { maxConcurrent: 4, requestsPerMinute: 60 },
+    'web.archive.org': { maxConcurrent: 3, requestsPerMinute: 40 },
+    'be-api.us.archive.org': { maxConcurrent: 2, requestsPerMinute: 30 },
+};
+
+// Used when a 429 response carries no (parseable) Retry-After header
+export const DEFAULT_RETRY_AFTER_MS = 30000;
+
+// How long a cached response counts as fresh, per endpoint
+export const CACHE_TTL_MS = {
+    metadata: 60 * 60 * 1000,
+    search: 10 * 60 * 1000,
+    cdx: 6 * 60 * 60 * 1000,
+    views: 60 * 60 * 1000,
+    timemap: 6 * 60 * 60 * 1000,
+};
+
+// The response cache keeps at most this many entries, dropping the oldest first
+export const CACHE_MAX_ENTRIES = 500;
+// Expired entries are kept this long for "serve stale while offline", then pruned
+export const CACHE_MAX_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+// Writes prune the cache at most this often (the first write of a session always does)
+export const CACHE_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Path of the first-party proxy served by the Vite dev/preview server (see server/iaProxy.ts).
+// Target URLs are appended verbatim, like the public CORS proxy prefixes above.
+export const LOCAL_PROXY_PATH = '/__omnidash/proxy/';
+export const LOCAL_PROXY_STATUS_PATH = '/__omnidash/proxy-status';
+
+export const CDX_FIELDS = ['urlkey', 'timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'] as const;
+
+// Rows requested per resumeKey page when streaming large CDX results
+export const CDX_PAGE_SIZE = 5000;
+
+// Captures listed on each side of the moment a closest-capture lookup asks for
+export const NEIGHBOR_CAPTURES = 2;
+
+export const DEFAULT_CDX_OPTIONS: CDXQueryOptions = {
+  matchType: 'exact',
+  from: '',
+  to: '',
+  filters: [],
+  collapse: null,
+  fastLatest: false,
+  limit: 0,
+};
+
+export const DEFAULT_SPN_OPTIONS: SPNOptions = {
+  captureOutlinks: false,
+  captureScreenshot: false,
+  ifNotArchivedWithin: '',
+  skipFirstArchive: false,
+  delayWbAvailability: false,
+};
+
+// SavePageNow job polling; captures with many resources can take several minutes
+export const SPN_POLL_INTERVAL_MS = 5000;
+export const SPN_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+// URLs checked at once by a batch availability run; the scheduler's per-host
+// limits still apply to the requests each check makes
+export const BATCH_AVAILABILITY_CONCURRENCY = 3;
+// Outlinks checked at once by the link-rot report; each check makes one or two CDX requests
+export const LINK_ROT_CONCURRENCY = 3;
+
+// Page assets fetched per snapshot, and how many at once. Stylesheets count
+// toward the limit along with the fonts and images they reference.
+export const SNAPSHOT_MAX_ASSETS = 200;
+export const SNAPSHOT_ASSET_CONCURRENCY = 4;
+
+export const DEFAULT_SNAPSHOT_ORGANIZATION: SnapshotOrganization = {
+  tags: [],
+  folder: '',
+  notes: '',
+  starred: false,
+};
+
+// Visible text indexed per snapshot for Library search; the rest of very long pages is not searchable
+export const SEARCH_MAX_TEXT_CHARS = 200000;
+export const SEARCH_RESULT_LIMIT = 100;
+
+// Bulk SavePageNow pacing, on top of the per-host limits above. SPN allows only a
+// few concurrent captures per account and rejects bursts of submissions.
+export const SPN_QUEUE_CONCURRENCY = 2;
+export const SPN_QUEUE_INTERVAL_MS = 8000;
+// The queue re-reads the account's SPN quota at least this often, and stops
+// before fewer than SPN_DAILY_RESERVE captures are left for the day
+export const SPN_QUOTA_REFRESH_MS = 60 * 1000;
+export const SPN_DAILY_RESERVE = 25;
+// Nested sitemaps followed when importing URLs from a sitemap index
+export const SITEMAP_MAX_CHILDREN = 20;
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Tracks the in-flight request of a view.
+ *
+ * `renew()` cancels whatever is still running and returns a fresh signal for the
+ * next request; `cancel()` just cancels. Pending work is also cancelled on unmount,
+ * so switching views never leaves stale requests behind.
+ */
+export const useAbortController = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const renew = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { renew, cancel };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { MementoArchive } from '../types';
+import { isAbortError } from '../services/httpClient';
+import { ApiError, toApiError } from '../services/errors';
+import { useAbortController } from './useAbortController';
+
+export type ArchiveQueryState<T> =
+  | { status: 'loading' }
+  | { status: 'done'; result: T }
+  | { status: 'error'; error: ApiError };
+
+/**
+ * Runs `query` against every archive in parallel whenever `key` changes and
+ * tracks each archive's outcome separately, so one slow or failing archive
+ * doesn't hold back the others. An empty `key` clears the results.
+ */
+export const useArchiveQueries = <T>(
+  archives: MementoArchive[],
+  key: string,
+  query: (archive: MementoArchive, signal: AbortSignal) => Promise<T>
+): Record<string, ArchiveQueryState<T>> => {
+  const [results, setResults] = useState<Record<string, ArchiveQueryState<T>>>({});
+  const { renew } = useAbortController();
+  // Archives are compared by their endpoints; a re-render with an equal list doesn't refetch
+  const archivesKey = archives.map(a => `${a.id}|${a.timegate}|${a.timemap}`).join(',');
+
+  useEffect(() => {
+    const signal = renew();
+    if (!key) {
+      setResults({});
+      return;
+    }
+    setResults(Object.fromEntries(archives.map(archive => [archive.id, { status: 'loading' }])));
+    archives.forEach(async archive => {
+      try {
+        const result = await query(archive, signal);
+        if (!signal.aborted) setResults(prev => ({ ...prev, [archive.id]: { status: 'done', result } }));
+      } catch (e) {
+        if (isAbortError(e) || signal.aborted) return;
+        setResults(prev => ({ ...prev, [archive.id]: { status: 'error', error: toApiError(e) } }));
+      }
+    });
+  }, [key, archivesKey]);
+
+  return results;
+};
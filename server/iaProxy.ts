@@ -0,0 +1,139 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+import { API_BASE, DEFAULT_SETTINGS, LOCAL_PROXY_PATH, LOCAL_PROXY_STATUS_PATH } from '../constants';
+import { LocalProxyStatus } from '../types';
+
+export interface IaProxyOptions {
+  accessKey?: string;
+  secretKey?: string;
+  // Further hosts to forward to, e.g. a local pywb instance configured as a Memento archive
+  extraHosts?: string[];
+}
+
+const IA_HOSTS = Array.from(new Set(Object.values(API_BASE).map(url => new URL(url).hostname)));
+
+// Only the Internet Archive APIs and the built-in Memento archives the services talk to may be reached through the proxy
+const DEFAULT_HOSTS = Array.from(new Set([
+  ...IA_HOSTS,
+  ...DEFAULT_SETTINGS.mementoArchives.map(archive => new URL(archive.timemap).hostname),
+]));
+
+// Request headers worth passing upstream; cookies, origin etc. stay behind
+const FORWARDED_REQUEST_HEADERS = ['accept', 'accept-datetime', 'accept-language', 'content-type', 'range'];
+// Content-Length is left out since fetch() has already decompressed the body
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'last-modified', 'etag', 'link', 'memento-datetime'];
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// The proxy spends the server's keys and SavePageNow quota, so only pages served by this
+// server may use it; otherwise any site open in the browser could post a form to it.
+// Browsers send at least one of these headers on cross-site requests.
+const isSameOrigin = (req: IncomingMessage): boolean => {
+  const fetchSite = req.headers['sec-fetch-site'];
+  if (fetchSite !== undefined && fetchSite !== 'same-origin') return false;
+  const origin = req.headers['origin'];
+  if (origin === undefined) return true;
+  try {
+    return new URL(origin).host === req.headers['host'];
+  } catch (e) {
+    return false;
+  }
+};
+
+// Some intermediaries collapse the "//" of the embedded URL, so restore it before parsing
+const parseTarget = (raw: string): URL | null => {
+  try {
+    return new URL(raw.replace(/^(https?):\/+/, '$1://'));
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Forwards `${LOCAL_PROXY_PATH}<absolute url>` to the Internet Archive and injects
+ * the S3 credentials on the way, so they never have to be stored in the browser.
+ * Memento archives are reached the same way, since most of them don't send CORS headers.
+ */
+export const createIaProxyMiddleware = (options: IaProxyOptions): Connect.NextHandleFunction => {
+  const hasCredentials = !!options.accessKey && !!options.secretKey;
+  const extraHosts = (options.extraHosts || []).map(host => host.trim().toLowerCase()).filter(Boolean);
+  const allowedHosts = Array.from(new Set([...DEFAULT_HOSTS, ...extraHosts]));
+
+  return async (req, res, next) => {
+    const path = req.url || '';
+
+    if (path === LOCAL_PROXY_STATUS_PATH) {
+      const status: LocalProxyStatus = { credentials: hasCredentials, hosts: allowedHosts };
+      return sendJson(res, 200, status);
+    }
+
+    if (!path.startsWith(LOCAL_PROXY_PATH)) return next();
+
+    if (!isSameOrigin(req)) {
+      return sendJson(res, 403, { error: 'Cross-origin requests are not allowed by the OmniDash proxy' });
+    }
+
+    const target = parseTarget(path.slice(LOCAL_PROXY_PATH.length));
+    // Wayback links often come back as http://, the APIs themselves are all served over TLS.
+    // Extra hosts keep their scheme so a local stand-in can be reached over plain HTTP.
+    const isExtraHost = !!target && extraHosts.includes(target.hostname);
+    if (target?.protocol === 'http:' && !isExtraHost) target.protocol = 'https:';
+    if (!target || !['https:', 'http:'].includes(target.protocol) || !allowedHosts.includes(target.hostname)) {
+      return sendJson(res, 403, { error: `Host not allowed by the OmniDash proxy: ${target?.hostname || 'invalid URL'}` });
+    }
+
+    const headers: Record<string, string> = {};
+    FORWARDED_REQUEST_HEADERS.forEach(name => {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    });
+    // Keys only ever go to the Internet Archive, never to other archives
+    if (IA_HOSTS.includes(target.hostname)) {
+      if (hasCredentials) {
+        headers['authorization'] = `LOW ${options.accessKey}:${options.secretKey}`;
+      } else if (typeof req.headers['authorization'] === 'string') {
+        // No server-side keys: fall back to whatever the browser sent
+        headers['authorization'] = req.headers['authorization'];
+      }
+    }
+
+    try {
+      const method = req.method || 'GET';
+      const body = method === 'GET' || method === 'HEAD' ? undefined : new Uint8Array(await readBody(req));
+      const upstream = await fetch(target.toString(), { method, headers, body });
+
+      res.statusCode = upstream.status;
+      FORWARDED_RESPONSE_HEADERS.forEach(name => {
+        const value = upstream.headers.get(name);
+        if (value) res.setHeader(name, value);
+      });
+      res.end(Buffer.from(await upstream.arrayBuffer()));
+    } catch (e: unknown) {
+      sendJson(res, 502, { error: `Upstream request failed: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  };
+};
+
+/** Serves the proxy from both `vite` (dev) and `vite preview`. */
+export const iaProxyPlugin = (options: IaProxyOptions): Plugin => ({
+  name: 'omnidash-ia-proxy',
+  configureServer(server) {
+    server.middlewares.use(createIaProxyMiddleware(options));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createIaProxyMiddleware(options));
+  },
+});
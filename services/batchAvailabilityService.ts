@@ -0,0 +1,87 @@
+import { BATCH_AVAILABILITY_CONCURRENCY } from '../constants';
+import { ExportReport, Provenance } from '../types';
+import { checkAvailability, fetchCaptureSummary } from './waybackService';
+import { isAbortError, runConcurrently } from './httpClient';
+import { ApiError, toApiError } from './errors';
+import { isMockProvenance } from './provenance';
+
+export type BatchAvailabilityStatus = 'queued' | 'checking' | 'done' | 'error';
+
+export interface BatchAvailabilityRow {
+  url: string;
+  status: BatchAvailabilityStatus;
+  archived?: boolean;
+  // Most recent capture, as the availability API reports it
+  latestTimestamp?: string;
+  latestStatus?: string;
+  waybackUrl?: string;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  captures?: number;
+  error?: ApiError;
+  provenance?: Provenance;
+}
+
+const checkOne = async (url: string, signal?: AbortSignal): Promise<BatchAvailabilityRow> => {
+  const [availability, summary] = await Promise.all([
+    checkAvailability(url, undefined, signal),
+    fetchCaptureSummary(url, signal),
+  ]);
+  const closest = availability.archived_snapshots.closest;
+  return {
+    url,
+    status: 'done',
+    archived: !!closest?.available || !!summary.entry,
+    latestTimestamp: closest?.timestamp,
+    latestStatus: closest?.status,
+    waybackUrl: closest?.url,
+    firstTimestamp: summary.entry?.firstTimestamp,
+    lastTimestamp: summary.entry?.lastTimestamp,
+    captures: summary.entry?.captures ?? 0,
+    // Mock data in either half makes the row mock data
+    provenance: isMockProvenance(availability.provenance) ? availability.provenance : summary.provenance,
+  };
+};
+
+/**
+ * Checks every URL with `checkAvailability` plus a collapsed CDX summary,
+ * BATCH_AVAILABILITY_CONCURRENCY at a time. `onUpdate` receives each row as it
+ * starts and finishes; a failed URL is reported in its row and doesn't stop
+ * the run. Cancelling `signal` leaves the remaining URLs queued.
+ */
+export const runAvailabilityBatch = async (
+  urls: string[],
+  onUpdate: (index: number, row: BatchAvailabilityRow) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  await runConcurrently(urls.length, BATCH_AVAILABILITY_CONCURRENCY, async index => {
+    const url = urls[index];
+    onUpdate(index, { url, status: 'checking' });
+    try {
+      onUpdate(index, await checkOne(url, signal));
+    } catch (e) {
+      onUpdate(index, isAbortError(e) ? { url, status: 'queued' } : { url, status: 'error', error: toApiError(e) });
+    }
+  }, signal);
+};
+
+const formatTimestamp = (ts?: string) =>
+  ts ? `${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)} ${ts.slice(8, 10)}:${ts.slice(10, 12)}:${ts.slice(12, 14)}` : '';
+
+export const batchAvailabilityToReport = (rows: BatchAvailabilityRow[]): ExportReport => ({
+  title: 'Availability Report',
+  name: 'availability_report',
+  rows: rows.map(row => ({
+    url: row.url,
+    archived: row.status === 'done' ? (row.archived ? 'yes' : 'no') : '',
+    captures: row.captures ?? '',
+    first_capture: formatTimestamp(row.firstTimestamp),
+    last_capture: formatTimestamp(row.lastTimestamp),
+    latest_status: row.latestStatus || '',
+    wayback_url: row.waybackUrl || '',
+    check_status: row.status,
+    error: row.error?.message || '',
+    data_source: row.provenance?.source || '',
+  })),
+  mockRows: rows.filter(row => isMockProvenance(row.provenance)).length,
+});
@@ -0,0 +1,92 @@
+import { CACHE_MAX_ENTRIES, CACHE_MAX_STALE_MS, CACHE_PRUNE_INTERVAL_MS, CACHE_TTL_MS } from '../constants';
+import { CachedResponse, CacheEndpoint, Provenance } from '../types';
+import { storageService } from './storageService';
+import { getSettings, isAbortError, isDemoMode } from './httpClient';
+import { liveProvenance } from './provenance';
+import { isApiError } from './errors';
+
+export interface CachedResult<T> {
+  data: T;
+  provenance: Provenance;
+}
+
+// Errors that mean "we couldn't reach the API", as opposed to the API answering with an error
+const isOfflineError = (error: unknown) => !navigator.onLine || isApiError(error, 'network');
+
+const readEntry = async (key: string) => {
+  try {
+    return await storageService.getCachedResponse(key);
+  } catch (e) {
+    // A broken cache must never break the lookup itself
+    console.warn("Response cache unavailable", e);
+    return undefined;
+  }
+};
+
+let lastPrunedAt = 0;
+
+/**
+ * Deletes expired entries, keeping them for CACHE_MAX_STALE_MS while "serve
+ * stale while offline" may still need them, and caps the cache at
+ * CACHE_MAX_ENTRIES. Resolves to the number of entries removed.
+ */
+export const pruneCache = async (): Promise<number> => {
+  lastPrunedAt = Date.now();
+  const { serveStaleOffline } = getSettings();
+  const isPrunable = (entry: CachedResponse) =>
+    Date.now() - entry.fetchedAt >= CACHE_TTL_MS[entry.endpoint] + (serveStaleOffline ? CACHE_MAX_STALE_MS : 0);
+  return storageService.pruneCachedResponses(isPrunable, CACHE_MAX_ENTRIES);
+};
+
+const storeEntry = async (entry: CachedResponse) => {
+  await storageService.putCachedResponse(entry);
+  if (Date.now() - lastPrunedAt >= CACHE_PRUNE_INTERVAL_MS) await pruneCache();
+};
+
+/**
+ * Serves `loader`'s result from the IndexedDB response cache while it is within
+ * the endpoint's TTL, and stores fresh results. With "serve stale while offline"
+ * enabled, an expired entry is returned when the network can't be reached.
+ */
+export const withCache = async <T>(
+  endpoint: CacheEndpoint,
+  url: string,
+  loader: () => Promise<T>
+): Promise<CachedResult<T>> => {
+  const { cacheEnabled, serveStaleOffline } = getSettings();
+  // Replayed fixtures are already local and must not end up in the response cache
+  if (!cacheEnabled || isDemoMode()) {
+    const data = await loader();
+    return { data, provenance: await liveProvenance(url) };
+  }
+
+  const key = `${endpoint}:${url}`;
+  const entry = await readEntry(key);
+  const cachedProvenance = (stale: boolean): Provenance => ({
+    source: 'cached',
+    endpoint: url,
+    proxy: entry?.proxy ?? null,
+    fetchedAt: entry!.fetchedAt,
+    stale,
+  });
+  if (entry && Date.now() - entry.fetchedAt < CACHE_TTL_MS[endpoint]) {
+    return { data: entry.data as T, provenance: cachedProvenance(false) };
+  }
+
+  try {
+    const data = await loader();
+    const provenance = await liveProvenance(url);
+    storeEntry({ key, endpoint, url, data, fetchedAt: provenance.fetchedAt, proxy: provenance.proxy })
+      .catch(e => console.warn("Failed to cache response", e));
+    return { data, provenance };
+  } catch (error) {
+    if (entry && serveStaleOffline && !isAbortError(error) && isOfflineError(error)) {
+      console.warn(`Network unavailable, serving cached ${endpoint} response from ${new Date(entry.fetchedAt).toLocaleString()}`);
+      return { data: entry.data as T, provenance: cachedProvenance(true) };
+    }
+    throw error;
+  }
+};
+
+export const isCacheEntryExpired = (endpoint: CacheEndpoint, fetchedAt: number) =>
+  Date.now() - fetchedAt >= CACHE_TTL_MS[endpoint];
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DiffResult, diffTokens } from './diffService';
+
+// Reassembles both inputs from a diff: old = equal + removed, new = equal + added
+const sides = ({ parts }: DiffResult) => ({
+  before: parts.filter(p => p.type !== 'added').flatMap(p => p.tokens),
+  after: parts.filter(p => p.type !== 'removed').flatMap(p => p.tokens),
+});
+
+const distinctTokens = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}${i}`);
+
+describe('diffTokens', () => {
+  it('reports identical lists as one unchanged part', () => {
+    const result = diffTokens(['a', 'b', 'c'], ['a', 'b', 'c']);
+    expect(result).toEqual({ parts: [{ type: 'equal', tokens: ['a', 'b', 'c'] }], added: 0, removed: 0, exact: true });
+  });
+
+  it('keeps the shared prefix and suffix around a replaced word', () => {
+    const result = diffTokens('the quick brown fox'.split(' '), 'the slow brown fox'.split(' '));
+    expect(result.parts).toEqual([
+      { type: 'equal', tokens: ['the'] },
+      { type: 'removed', tokens: ['quick'] },
+      { type: 'added', tokens: ['slow'] },
+      { type: 'equal', tokens: ['brown', 'fox'] },
+    ]);
+    expect(result).toMatchObject({ added: 1, removed: 1, exact: true });
+  });
+
+  it('finds a shortest edit script', () => {
+    // The example from Myers' paper: edit distance 5
+    const a = 'ABCABBA'.split('');
+    const b = 'CBABAC'.split('');
+    const result = diffTokens(a, b);
+    expect(sides(result)).toEqual({ before: a, after: b });
+    expect(result.added + result.removed).toBe(5);
+    expect(result.exact).toBe(true);
+  });
+
+  it('handles one side being empty', () => {
+    expect(diffTokens([], ['x', 'y'])).toEqual({ parts: [{ type: 'added', tokens: ['x', 'y'] }], added: 2, removed: 0, exact: true });
+    expect(diffTokens(['x'], [])).toEqual({ parts: [{ type: 'removed', tokens: ['x'] }], added: 0, removed: 1, exact: true });
+  });
+
+  it('still diffs exactly at MAX_EDIT_DISTANCE', () => {
+    const result = diffTokens(distinctTokens('a', 1250), distinctTokens('b', 1250));
+    expect(result).toMatchObject({ added: 1250, removed: 1250, exact: true });
+  });
+
+  it('falls back to replacing the changed middle beyond MAX_EDIT_DISTANCE', () => {
+    const a = ['head', ...distinctTokens('a', 1251), 'tail'];
+    const b = ['head', ...distinctTokens('b', 1250), 'tail'];
+    const result = diffTokens(a, b);
+    expect(result.exact).toBe(false);
+    expect(result.parts.map(p => [p.type, p.tokens.length])).toEqual([
+      ['equal', 1],
+      ['removed', 1251],
+      ['added', 1250],
+      ['equal', 1],
+    ]);
+    expect(sides(result)).toEqual({ before: a, after: b });
+  });
+});
@@ -0,0 +1,192 @@
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  tokens: string[];
+}
+
+export interface DiffResult {
+  parts: DiffPart[];
+  added: number;
+  removed: number;
+  // False when the inputs differed too much and the changed middle was diffed as a whole
+  exact: boolean;
+}
+
+export interface LinkDiff {
+  added: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+// Bounds the Myers trace (memory grows with the square of the edit distance)
+const MAX_EDIT_DISTANCE = 2500;
+
+const WAYBACK_TOOLBAR = /<!-- BEGIN WAYBACK TOOLBAR INSERT -->[\s\S]*?<!-- END WAYBACK TOOLBAR INSERT -->/g;
+const WAYBACK_PREFIX = /^https?:\/\/web\.archive\.org\/web\/\d+[a-z_]*\/(.+)$/i;
+const HIDDEN_ELEMENTS = 'script, style, noscript, template, svg, iframe, #wm-ipp-base, #wm-ipp, #donato';
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, tokens: string[]) => {
+  if (tokens.length === 0) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.tokens.push(...tokens);
+  else parts.push({ type, tokens: [...tokens] });
+};
+
+/**
+ * Myers' O(ND) diff of the two token lists. Returns null when the edit distance
+ * exceeds MAX_EDIT_DISTANCE.
+ */
+const myers = (a: string[], b: string[]): DiffPart[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds v[-d-1..d+1] as it was at the start of round d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffPart[] => {
+  const reversed: { type: DiffPartType; token: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', token: a[x - 1] });
+      x--; y--;
+    }
+    if (d > 0) {
+      if (x === prevX) reversed.push({ type: 'added', token: b[y - 1] });
+      else reversed.push({ type: 'removed', token: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  const parts: DiffPart[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) pushPart(parts, reversed[i].type, [reversed[i].token]);
+  return parts;
+};
+
+/**
+ * Diffs two token lists. The common prefix and suffix are trimmed first, which
+ * keeps typical page revisions (a changed paragraph, a new footer year) cheap.
+ */
+export const diffTokens = (a: string[], b: string[]): DiffResult => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB);
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, start));
+  if (middle) {
+    middle.forEach(part => pushPart(parts, part.type, part.tokens));
+  } else {
+    pushPart(parts, 'removed', middleA);
+    pushPart(parts, 'added', middleB);
+  }
+  pushPart(parts, 'equal', a.slice(endA));
+
+  const count = (type: DiffPartType) => parts.filter(p => p.type === type).reduce((sum, p) => sum + p.tokens.length, 0);
+  return { parts, added: count('added'), removed: count('removed'), exact: middle !== null };
+};
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html.replace(WAYBACK_TOOLBAR, ''), 'text/html');
+
+/**
+ * Returns the text a visitor would read: scripts, styles and the Wayback toolbar
+ * are dropped, and text from separate elements is never glued together.
+ */
+export const extractVisibleText = (html: string): string => {
+  const doc = parseHtml(html);
+  doc.querySelectorAll(HIDDEN_ELEMENTS).forEach(el => el.remove());
+
+  const chunks: string[] = [];
+  const title = doc.title.trim();
+  if (title) chunks.push(title);
+
+  if (doc.body) {
+    const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+    while (walker.nextNode()) {
+      const text = walker.currentNode.textContent?.trim();
+      if (text) chunks.push(text);
+    }
+  }
+  return chunks.join(' ').replace(/\s+/g, ' ').trim();
+};
+
+// Resolves an href and unwraps Wayback-rewritten links back to the live URL
+const normalizeLink = (href: string, baseUrl: string): string | null => {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith('#') || /^(javascript|data):/i.test(trimmed)) return null;
+  try {
+    const resolved = new URL(trimmed, baseUrl);
+    resolved.hash = '';
+    const unwrapped = resolved.href.match(WAYBACK_PREFIX);
+    return unwrapped ? unwrapped[1] : resolved.href;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const extractLinks = (html: string, baseUrl: string): string[] => {
+  const links = new Set<string>();
+  parseHtml(html).querySelectorAll('a[href]').forEach(a => {
+    const link = normalizeLink(a.getAttribute('href') || '', baseUrl);
+    if (link) links.add(link);
+  });
+  return Array.from(links);
+};
+
+export const diffVisibleText = (oldHtml: string, newHtml: string): DiffResult => {
+  const words = (html: string) => extractVisibleText(html).split(' ').filter(Boolean);
+  return diffTokens(words(oldHtml), words(newHtml));
+};
+
+/**
+ * Line diff of the page source. Minified pages are split to one tag per line,
+ * otherwise a single changed attribute would mark the whole document as changed.
+ */
+export const diffSource = (oldHtml: string, newHtml: string): DiffResult => {
+  const lines = (html: string) => html.replace(WAYBACK_TOOLBAR, '').replace(/>\s*</g, '>\n<').split(/\r?\n/);
+  return diffTokens(lines(oldHtml), lines(newHtml));
+};
+
+export const diffLinks = (oldHtml: string, newHtml: string, baseUrl: string): LinkDiff => {
+  const before = new Set(extractLinks(oldHtml, baseUrl));
+  const after = new Set(extractLinks(newHtml, baseUrl));
+  return {
+    added: Array.from(after).filter(link => !before.has(link)).sort(),
+    removed: Array.from(before).filter(link => !after.has(link)).sort(),
+    unchanged: Array.from(after).filter(link => before.has(link)).length,
+  };
+};
@@ -0,0 +1,59 @@
+export type ApiErrorKind =
+  | 'network'        // CORS block, DNS failure, timeout: the API was never reached
+  | 'rate-limited'   // 429 that outlasted the scheduler's retries
+  | 'not-found'
+  | 'auth-missing'   // No S3 keys configured for an authenticated call
+  | 'auth-rejected'  // Keys were sent but the API refused them
+  | 'solr-syntax'    // Advanced Search couldn't parse the query
+  | 'upstream'       // 5xx from the Internet Archive
+  | 'non-json'       // Expected JSON, got something else (usually a proxy's HTML page)
+  | 'fixture-missing' // Demo Mode has no recorded response for this request
+  | 'unknown';
+
+export interface ApiErrorDetails {
+  url?: string;
+  status?: number;
+  /** Epoch ms after which a rate-limited request may be retried. */
+  retryAt?: number;
+  contentType?: string;
+  timedOut?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by the services for every failed API call. Views switch on
+ * `kind` (see components/ErrorPanel.tsx) instead of matching message strings.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly url?: string;
+  readonly status?: number;
+  readonly retryAt?: number;
+  readonly contentType?: string;
+  readonly timedOut?: boolean;
+
+  constructor(kind: ApiErrorKind, message: string, details: ApiErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.url = details.url;
+    this.status = details.status;
+    this.retryAt = details.retryAt;
+    this.contentType = details.contentType;
+    this.timedOut = details.timedOut;
+  }
+}
+
+export const isApiError = (error: unknown, kind?: ApiErrorKind): error is ApiError =>
+  error instanceof ApiError && (!kind || error.kind === kind);
+
+/** Normalizes anything a service may throw into an ApiError. */
+export const toApiError = (error: unknown, fallbackMessage = 'An unexpected error occurred.'): ApiError => {
+  if (error instanceof ApiError) return error;
+  // fetch() rejects with a bare TypeError when CORS or the network blocks the request
+  if (error instanceof TypeError) {
+    return new ApiError('network', error.message || 'Failed to fetch', { cause: error });
+  }
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  return new ApiError('unknown', message || fallbackMessage, { cause: error });
+};
@@ -0,0 +1,130 @@
+import { Fixture } from '../types';
+import { storageService } from './storageService';
+import { ApiError } from './errors';
+
+// Only text bodies are recorded; binary downloads would bloat the bundle
+const RECORDABLE_CONTENT_TYPES = ['json', 'text/', 'xml', 'javascript'];
+
+/**
+ * Subset of the HAR 1.2 format, so bundles open in HAR viewers and browser
+ * HAR exports can be imported as fixtures.
+ */
+export interface FixtureBundle {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: Array<{
+      startedDateTime: string;
+      request: { method: string; url: string; postData?: { mimeType: string; text: string } };
+      response: { status: number; content: { mimeType: string; text?: string } };
+    }>;
+  };
+}
+
+const normalizeParams = (params: URLSearchParams) => {
+  const sorted = new URLSearchParams(Array.from(params.entries()).sort(([a], [b]) => a.localeCompare(b)));
+  return sorted.toString();
+};
+
+/** Matches requests by method, URL and parameters, regardless of parameter order. */
+export const fixtureKey = (method: string, url: string, body?: string | null) => {
+  let normalized = url;
+  try {
+    const parsed = new URL(url);
+    const query = normalizeParams(parsed.searchParams);
+    normalized = `${parsed.origin}${parsed.pathname}${query ? `?${query}` : ''}`;
+  } catch (e) {
+    // Not an absolute URL, match it verbatim
+  }
+  const payload = body ? ` ${normalizeParams(new URLSearchParams(body))}` : '';
+  return `${method.toUpperCase()} ${normalized}${payload}`;
+};
+
+const requestBodyText = (body?: BodyInit | null) => (typeof body === 'string' ? body : undefined);
+
+export const hasFixture = async (url: string, method = 'GET', body?: string) => {
+  try {
+    return !!(await storageService.getFixture(fixtureKey(method, url, body)));
+  } catch (e) {
+    console.warn("Fixture store unavailable", e);
+    return false;
+  }
+};
+
+/** Demo Mode: answers a request from the fixture store instead of the network. */
+export const replayFixture = async (url: string, method = 'GET', body?: BodyInit | null): Promise<Response> => {
+  const fixture = await storageService.getFixture(fixtureKey(method, url, requestBodyText(body)));
+  if (!fixture) {
+    throw new ApiError('fixture-missing', `Demo Mode: no recorded fixture for ${method.toUpperCase()} ${url}`, { url });
+  }
+  return new Response(fixture.body, {
+    status: fixture.status,
+    headers: { 'Content-Type': fixture.contentType },
+  });
+};
+
+/** Stores a live response so it can be replayed later. Never throws. */
+export const recordFixture = async (url: string, method: string, body: BodyInit | null | undefined, res: Response) => {
+  const contentType = res.headers.get('content-type') || '';
+  if (!RECORDABLE_CONTENT_TYPES.some(type => contentType.includes(type))) return;
+  try {
+    const requestBody = requestBodyText(body);
+    await storageService.putFixtures([{
+      key: fixtureKey(method, url, requestBody),
+      method: method.toUpperCase(),
+      url,
+      requestBody,
+      status: res.status,
+      contentType,
+      body: await res.text(),
+      recordedAt: Date.now(),
+    }]);
+  } catch (e) {
+    console.warn("Failed to record fixture", e);
+  }
+};
+
+export const exportFixtureBundle = async (): Promise<FixtureBundle> => {
+  const fixtures = await storageService.getAllFixtures();
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'Archive-OmniDash', version: '1' },
+      entries: fixtures.map(f => ({
+        startedDateTime: new Date(f.recordedAt).toISOString(),
+        request: {
+          method: f.method,
+          url: f.url,
+          ...(f.requestBody ? { postData: { mimeType: 'application/x-www-form-urlencoded', text: f.requestBody } } : {}),
+        },
+        response: { status: f.status, content: { mimeType: f.contentType, text: f.body } },
+      })),
+    },
+  };
+};
+
+/** Imports a bundle (or any HAR file), replacing fixtures for the same requests. Returns the number imported. */
+export const importFixtureBundle = async (bundle: FixtureBundle): Promise<number> => {
+  if (!Array.isArray(bundle?.log?.entries)) {
+    throw new Error('Not a fixture bundle: expected a HAR file with log.entries.');
+  }
+  const fixtures: Fixture[] = bundle.log.entries
+    .filter(entry => entry?.request?.url && typeof entry.response?.content?.text === 'string')
+    .map(entry => {
+      const method = (entry.request.method || 'GET').toUpperCase();
+      const requestBody = entry.request.postData?.text;
+      const recordedAt = Date.parse(entry.startedDateTime);
+      return {
+        key: fixtureKey(method, entry.request.url, requestBody),
+        method,
+        url: entry.request.url,
+        requestBody,
+        status: entry.response.status || 200,
+        contentType: entry.response.content.mimeType || 'application/json',
+        body: entry.response.content.text as string,
+        recordedAt: isNaN(recordedAt) ? Date.now() : recordedAt,
+      };
+    });
+  await storageService.putFixtures(fixtures);
+  return fixtures.length;
+};
@@ -0,0 +1,250 @@
+import { DEFAULT_RETRY_AFTER_MS, DEFAULT_SETTINGS, LOCAL_PROXY_PATH, LOCAL_PROXY_STATUS_PATH } from '../constants';
+import { AppSettings, LocalProxyStatus } from '../types';
+import { requestScheduler } from './requestScheduler';
+import { ApiError } from './errors';
+import { recordFixture, replayFixture } from './fixtureService';
+
+// Base delay for exponential backoff between retries (doubles on every attempt)
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+// 429s are retried separately from `maxRetries`, once the host's pause has passed
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+export const getSettings = (): AppSettings => {
+  try {
+    const settings = localStorage.getItem('omnidash_settings');
+    return settings ? { ...DEFAULT_SETTINGS, ...JSON.parse(settings) } : DEFAULT_SETTINGS;
+  } catch(e) { return DEFAULT_SETTINGS; }
+};
+
+export const isDemoMode = () => !!getSettings().demoMode;
+
+let localProxyStatus: Promise<LocalProxyStatus | null> | null = null;
+
+/**
+ * Detects the bundled proxy (server/iaProxy.ts) once per page load. Resolves to
+ * null when the app is served without it, e.g. from a static build.
+ */
+export const getLocalProxyStatus = (): Promise<LocalProxyStatus | null> => {
+  if (!localProxyStatus) {
+    localProxyStatus = (async () => {
+      try {
+        const res = await fetch(LOCAL_PROXY_STATUS_PATH, { signal: AbortSignal.timeout(3000) });
+        if (!res.ok || !res.headers.get('content-type')?.includes('application/json')) return null;
+        const status = await res.json();
+        return Array.isArray(status?.hosts) ? status as LocalProxyStatus : null;
+      } catch (e) {
+        return null;
+      }
+    })();
+  }
+  return localProxyStatus;
+};
+
+/** True when the bundled proxy signs requests with server-side S3 keys. */
+export const hasServerCredentials = async () => !!(await getLocalProxyStatus())?.credentials;
+
+export const isProxyConfigured = async () => {
+  if (await getLocalProxyStatus()) return true;
+  const { corsProxy } = getSettings();
+  return !!corsProxy && corsProxy.trim().length > 0;
+};
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return '';
+  }
+};
+
+// The bundled proxy is preferred over a public CORS proxy for the hosts it serves
+export const getProxiedUrl = async (url: string): Promise<string> => {
+  const localProxy = await getLocalProxyStatus();
+  if (localProxy && localProxy.hosts.includes(getHostname(url))) {
+      return `${LOCAL_PROXY_PATH}${url}`;
+  }
+  const { corsProxy } = getSettings();
+  if (corsProxy && corsProxy.trim().length > 0) {
+      return `${corsProxy}${url}`;
+  }
+  return url;
+};
+
+/** Names the proxy `getProxiedUrl` would route `url` through, or null for a direct request. */
+export const getProxyLabel = async (url: string): Promise<string | null> => {
+  const target = await getProxiedUrl(url);
+  if (target === url) return null;
+  return target.startsWith(LOCAL_PROXY_PATH) ? 'OmniDash local proxy' : getSettings().corsProxy;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const createAbortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires.
+ * Also used by the services to simulate latency in Demo Mode.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Runs `task` for every index below `count`, at most `concurrency` at a time,
+ * and stops starting new ones once `signal` fires. Tasks handle their own
+ * errors; a rejection ends the run.
+ */
+export const runConcurrently = async (
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < count && !signal?.aborted) await task(next++);
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+};
+
+const getBackoffDelay = (attempt: number) => {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  // Add up to 25% jitter so parallel retries don't hit the API in lockstep
+  return delay + Math.random() * delay * 0.25;
+};
+
+/** Parses a Retry-After header, which is either a delay in seconds or an HTTP date. */
+export const parseRetryAfter = (header: string | null): number => {
+  if (!header) return DEFAULT_RETRY_AFTER_MS;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+  return DEFAULT_RETRY_AFTER_MS;
+};
+
+/**
+ * Builds the ApiError for a non-2xx response. Callers with endpoint-specific
+ * cases (e.g. Solr syntax errors) check for those first.
+ */
+export const errorFromResponse = (res: Response, url: string, context = 'Request'): ApiError => {
+  const status = res.status;
+  const details = { url, status, contentType: res.headers.get('content-type') || undefined };
+  if (status === 401 || status === 403) {
+    return new ApiError('auth-rejected', `${context} was rejected (HTTP ${status}). Check your S3 keys.`, details);
+  }
+  if (status === 404) {
+    return new ApiError('not-found', `${context} failed: not found (HTTP 404).`, details);
+  }
+  if (status === 429) {
+    const retryAt = Date.now() + parseRetryAfter(res.headers.get('Retry-After'));
+    return new ApiError('rate-limited', `${context} was rate limited by the Internet Archive.`, { ...details, retryAt });
+  }
+  if (status >= 500) {
+    return new ApiError('upstream', `${context} failed: the Internet Archive returned HTTP ${status}.`, details);
+  }
+  return new ApiError('unknown', `${context} failed with HTTP ${status}${res.statusText ? ` (${res.statusText})` : ''}.`, details);
+};
+
+export interface HttpRequestOptions extends Omit<RequestInit, 'signal'> {
+  /** Cancels the request (and any pending retry) when aborted. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds. Defaults to the `requestTimeout` setting. */
+  timeout?: number;
+  /** Retries on network errors, timeouts and 5xx responses. Defaults to the `maxRetries` setting. */
+  retries?: number;
+  /** Route the request through the bundled or the configured CORS proxy (default: true). */
+  useProxy?: boolean;
+}
+
+/**
+ * Shared fetch wrapper for every Internet Archive call.
+ *
+ * Requests go through the per-host scheduler, so they may wait in a queue before
+ * the timeout starts counting. Returns the final Response (including non-2xx
+ * ones, so callers can inspect the body). Throws an ApiError of kind 'network'
+ * on network failure or timeout, and an AbortError on cancellation.
+ */
+export const httpRequest = async (url: string, options: HttpRequestOptions = {}): Promise<Response> => {
+  const settings = getSettings();
+  const {
+    signal,
+    timeout = settings.requestTimeout * 1000,
+    retries = settings.maxRetries,
+    useProxy = true,
+    ...init
+  } = options;
+
+  // Demo Mode never touches the network: requests are answered from recorded fixtures
+  if (settings.demoMode) {
+    if (signal?.aborted) throw createAbortError();
+    return replayFixture(url, init.method, init.body);
+  }
+
+  const target = useProxy ? await getProxiedUrl(url) : url;
+
+  const fetchWithTimeout = async (): Promise<Response> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await fetch(target, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      // Timeouts are reported as network errors so views treat them alike
+      throw timedOut
+        ? new ApiError('network', `Request timed out after ${timeout / 1000}s`, { url, timedOut: true })
+        : new ApiError('network', `Could not reach ${getHostname(url) || url}. The request was blocked (CORS) or the network is down.`, { url, cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  let rateLimitRetries = 0;
+  for (let attempt = 0; ; ) {
+    if (signal?.aborted) throw createAbortError();
+
+    try {
+      // Scheduled by the target host, not the proxy host, since that's where the limits apply
+      const res = await requestScheduler.schedule(url, fetchWithTimeout, signal);
+      if (res.status === 429 && rateLimitRetries < MAX_RATE_LIMIT_RETRIES
+          && requestScheduler.pauseHost(url, parseRetryAfter(res.headers.get('Retry-After')))) {
+        rateLimitRetries++;
+        continue;
+      }
+      if (res.status >= 500 && attempt < retries) {
+        console.warn(`Request to ${url} returned ${res.status}, retrying (${attempt + 1}/${retries})...`);
+        await sleep(getBackoffDelay(attempt++), signal);
+        continue;
+      }
+      if (settings.recordFixtures && res.status !== 429 && res.status < 500) {
+        recordFixture(url, init.method || 'GET', init.body, res.clone());
+      }
+      return res;
+    } catch (error) {
+      if (isAbortError(error) || attempt >= retries) throw error;
+      console.warn(`Request to ${url} failed, retrying (${attempt + 1}/${retries})...`, error);
+      await sleep(getBackoffDelay(attempt++), signal);
+    }
+  }
+};
@@ -1,38 +1,44 @@
 import { API_BASE } from '../constants';
-import { IAMetadata, IASearchResult, ViewCountData } from '../types';
+import { Provenance, IAMetadata, IASearchResult, ViewCountData } from '../types';
 import { getMockMetadata, getMockSearchResults, getMockViews } from './mockService';
-
-const getSettings = () => {
-  try {
-    const settings = localStorage.getItem('omnidash_settings');
-    return settings ? JSON.parse(settings) : {};
-  } catch(e) { return {}; }
-};
-
-const isDemoMode = () => !!getSettings().demoMode;
-
-const getProxiedUrl = (url: string) => {
-  const { corsProxy } = getSettings();
-  if (corsProxy && corsProxy.trim().length > 0) {
-      return `${corsProxy}${url}`;
+import { errorFromResponse, httpRequest, isAbortError, isDemoMode, sleep } from './httpClient';
+import { ApiError, isApiError, toApiError } from './errors';
+import { withCache } from './cacheService';
+import { mockProvenance } from './provenance';
+import { hasFixture } from './fixtureService';
+
+const ADVANCED_SEARCH_ROWS = 50;
+
+export const fetchMetadata = async (identifier: string, signal?: AbortSignal): Promise<IAMetadata> => {
+  const url = `${API_BASE.METADATA}/${identifier}`;
+  // Demo Mode replays a recorded fixture when there is one, generated data otherwise
+  if (isDemoMode() && !(await hasFixture(url))) {
+    await sleep(600, signal);
+    return { ...getMockMetadata(identifier), provenance: mockProvenance(url, 'demo') };
   }
-  return url;
-};
 
-export const fetchMetadata = async (identifier: string): Promise<IAMetadata> => {
-  if (isDemoMode()) {
-    return new Promise(resolve => setTimeout(() => resolve(getMockMetadata(identifier)), 600));
+  const { data, provenance } = await withCache('metadata', url, async () => {
+    const res = await httpRequest(url, { signal });
+    if (!res.ok) throw errorFromResponse(res, url, 'Metadata fetch');
+    return await res.json() as IAMetadata;
+  });
+  // Unknown identifiers come back as 200 with an empty object
+  if (!data?.metadata || Object.keys(data.metadata).length === 0) {
+    throw new ApiError('not-found', 'Item not found. Double check the identifier.', { url });
   }
-
-  const res = await fetch(getProxiedUrl(`${API_BASE.METADATA}/${identifier}`));
-  if (!res.ok) throw new Error(`Metadata fetch failed: ${res.statusText}`);
-  return await res.json();
+  return { ...data, provenance };
 };
 
 export interface SearchResponse {
   items: IASearchResult[];
   cursor?: string;
   total?: number;
+  provenance: Provenance;
+}
+
+export interface ViewsResponse {
+  views: ViewCountData;
+  provenance: Provenance;
 }
 
 // Helper to sanitize queries for Solr
@@ -52,39 +58,49 @@ const sanitizeQuery = (query: string): string => {
 export const searchItems = async (
   query: string, 
   cursor: string | null, 
-  mode: 'general' | 'scrape' = 'general'
+  mode: 'general' | 'scrape' = 'general',
+  signal?: AbortSignal
 ): Promise<SearchResponse> => {
   
-  // Only use mock data if explicitly enabled in settings
+  const sanitizedQuery = sanitizeQuery(query);
+
+  // Only use mock data if explicitly enabled in settings and nothing was recorded for this search
   if (isDemoMode()) {
-    const mock = getMockSearchResults(query);
-    return new Promise(resolve => setTimeout(() => resolve({ items: mock, total: 1250, cursor: 'mock-cursor' }), 800));
+    const firstUrl = mode === 'scrape'
+      ? buildScrapeSearchUrl(sanitizedQuery, cursor)
+      : buildAdvancedSearchUrl(sanitizedQuery, cursor ? parseInt(cursor) : 1);
+    if (!(await hasFixture(firstUrl.toString()))) {
+      await sleep(800, signal);
+      return { items: getMockSearchResults(query), total: 1250, cursor: 'mock-cursor', provenance: mockProvenance(API_BASE.SEARCH, 'demo') };
+    }
   }
 
-  const sanitizedQuery = sanitizeQuery(query);
-
   // 1. Explicit Scrape Mode (User selected "Scrape API")
   if (mode === 'scrape') {
-    return executeScrapeSearch(sanitizedQuery, cursor);
+    return executeScrapeSearch(sanitizedQuery, cursor, signal);
   }
 
   // 2. General Mode (Try Advanced Search, Fallback to Scrape if it fails)
   try {
-    return await executeAdvancedSearch(sanitizedQuery, cursor ? parseInt(cursor) : 1);
+    return await executeAdvancedSearch(sanitizedQuery, cursor ? parseInt(cursor) : 1, signal);
   } catch (error) {
+    // A cancelled search must not trigger the fallback request
+    if (isAbortError(error)) throw error;
+    // Nor must a malformed query: the scrape API would reject it too, hiding the syntax hint
+    if (isApiError(error, 'solr-syntax')) throw error;
     console.warn("Advanced Search failed (likely CORS). Attempting fallback to V1 Scrape API...", error);
     // Fallback: The Scrape API is much more CORS friendly. 
     // We try to fetch the first page of results using the scrape API instead.
     try {
-        return await executeScrapeSearch(sanitizedQuery, null); // Cursor logic differs, so we reset cursor for fallback
-    } catch (fallbackError: any) {
-        throw new Error(`Search failed: ${fallbackError.message || "Connection refused"}`);
+        return await executeScrapeSearch(sanitizedQuery, null, signal); // Cursor logic differs, so we reset cursor for fallback
+    } catch (fallbackError) {
+        if (isAbortError(fallbackError)) throw fallbackError;
+        throw toApiError(fallbackError, 'Search failed: Connection refused');
     }
   }
 };
 
-const executeAdvancedSearch = async (query: string, page: number): Promise<SearchResponse> => {
-  const rows = 50;
+const buildAdvancedSearchUrl = (query: string, page: number) => {
   const url = new URL(API_BASE.SEARCH);
   url.searchParams.append('q', query);
   
@@ -92,60 +108,80 @@ const executeAdvancedSearch = async (query: string, page: number): Promise<Searc
     url.searchParams.append('fl[]', field);
   });
 
-  url.searchParams.append('rows', rows.toString());
+  url.searchParams.append('rows', ADVANCED_SEARCH_ROWS.toString());
   url.searchParams.append('page', page.toString());
   url.searchParams.append('output', 'json');
   
   if (!query.includes('sort:')) {
       url.searchParams.append('sort[]', 'downloads desc');
   }
+  return url;
+};
+
+const executeAdvancedSearch = async (query: string, page: number, signal?: AbortSignal): Promise<SearchResponse> => {
+  const url = buildAdvancedSearchUrl(query, page);
+  const { data, provenance } = await withCache('search', url.toString(), async () => {
+    const res = await httpRequest(url.toString(), { signal });
+    if (!res.ok) {
+        // Solr answers an unparseable query with a 400 (often an HTML page), we want a clean message
+        if (res.status === 400) {
+            throw new ApiError('solr-syntax', `Search API could not parse the query "${query}".`, { url: url.toString(), status: res.status });
+        }
+        throw errorFromResponse(res, url.toString(), 'Search');
+    }
+    return await res.json();
+  });
 
-  // Use proxy helper
-  const res = await fetch(getProxiedUrl(url.toString()));
-  if (!res.ok) {
-      const text = await res.text();
-      // Solr errors are often HTML, we want a clean message
-      if (text.includes('<html')) throw new Error(`Search API returned ${res.status} (Solr Syntax Error)`);
-      throw new Error(`Search API returned ${res.status}`);
-  }
-  
-  const data = await res.json();
   const docs = data.response?.docs || [];
   const numFound = data.response?.numFound || 0;
-  const nextCursor = (page * rows < numFound) ? (page + 1).toString() : undefined;
+  const nextCursor = (page * ADVANCED_SEARCH_ROWS < numFound) ? (page + 1).toString() : undefined;
 
   return { 
     items: docs, 
     cursor: nextCursor,
-    total: numFound 
+    total: numFound,
+    provenance
   };
 };
 
-const executeScrapeSearch = async (query: string, cursor: string | null): Promise<SearchResponse> => {
+const buildScrapeSearchUrl = (query: string, cursor: string | null) => {
   const url = new URL(API_BASE.SCRAPE);
   url.searchParams.append('q', query);
   url.searchParams.append('fields', 'identifier,title,mediatype,date,downloads,description');
   // Sort is hardcoded in scrape API usually, but we can try basic sort
   url.searchParams.append('sort', 'downloads desc'); 
   if (cursor) url.searchParams.append('cursor', cursor);
+  return url;
+};
+
+const executeScrapeSearch = async (query: string, cursor: string | null, signal?: AbortSignal): Promise<SearchResponse> => {
+  const url = buildScrapeSearchUrl(query, cursor);
+
+  const { data, provenance } = await withCache('search', url.toString(), async () => {
+    const res = await httpRequest(url.toString(), { signal });
+    if (!res.ok) throw errorFromResponse(res, url.toString(), 'Scrape search');
+    return await res.json();
+  });
 
-  const res = await fetch(getProxiedUrl(url.toString()));
-  if (!res.ok) throw new Error(`V1 API returned ${res.status}`);
-  
-  const data = await res.json();
   return { 
     items: data.items || [], 
     cursor: data.cursor,
-    total: data.total 
+    total: data.total,
+    provenance
   };
 };
 
-export const fetchViews = async (identifier: string): Promise<ViewCountData> => {
-  if (isDemoMode()) {
-    return new Promise(resolve => setTimeout(() => resolve(getMockViews()), 500));
+export const fetchViews = async (identifier: string, signal?: AbortSignal): Promise<ViewsResponse> => {
+  const url = `${API_BASE.VIEWS}/${identifier}`;
+  if (isDemoMode() && !(await hasFixture(url))) {
+    await sleep(500, signal);
+    return { views: getMockViews(), provenance: mockProvenance(url, 'demo') };
   }
 
-  const res = await fetch(getProxiedUrl(`${API_BASE.VIEWS}/${identifier}`));
-  if (!res.ok) throw new Error(`Views fetch failed`);
-  return await res.json();
+  const { data, provenance } = await withCache('views', url, async () => {
+    const res = await httpRequest(url, { signal });
+    if (!res.ok) throw errorFromResponse(res, url, 'Views fetch');
+    return await res.json() as ViewCountData;
+  });
+  return { views: data, provenance };
 };
\ No newline at end of file
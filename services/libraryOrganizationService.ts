@@ -0,0 +1,82 @@
+import { SavedSnapshot } from '../types';
+
+export interface FolderNode {
+  name: string;
+  // Full path, e.g. "Research/Climate"
+  path: string;
+  children: FolderNode[];
+  // Snapshots in this folder and everything below it
+  count: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// What the Library shows; the criteria combine
+export interface LibraryScope {
+  // null for every folder, '' for snapshots without one; a folder includes its subfolders
+  folder: string | null;
+  tag: string | null;
+  starredOnly: boolean;
+}
+
+export const EMPTY_LIBRARY_SCOPE: LibraryScope = { folder: null, tag: null, starredOnly: false };
+
+/** " Research / /Climate/ " -> "Research/Climate" */
+export const normalizeFolder = (path: string) => path.split('/').map(part => part.trim()).filter(Boolean).join('/');
+
+/** Comma-separated tags, trimmed and without duplicates (compared case-insensitively). */
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const inLibraryScope = (snapshot: SavedSnapshot, scope: LibraryScope) =>
+  (!scope.starredOnly || snapshot.starred) &&
+  (scope.tag === null || snapshot.tags.includes(scope.tag)) &&
+  (scope.folder === null ||
+    (scope.folder === '' ? !snapshot.folder : snapshot.folder === scope.folder || snapshot.folder.startsWith(`${scope.folder}/`)));
+
+/** Folders in use, nested by path, with every ancestor present even when it holds no snapshot itself. */
+export const buildFolderTree = (snapshots: SavedSnapshot[]): FolderNode[] => {
+  const roots: FolderNode[] = [];
+  const byPath = new Map<string, FolderNode>();
+
+  snapshots.forEach(snapshot => {
+    if (!snapshot.folder) return;
+    let siblings = roots;
+    let path = '';
+    snapshot.folder.split('/').forEach(name => {
+      path = path ? `${path}/${name}` : name;
+      let node = byPath.get(path);
+      if (!node) {
+        node = { name, path, children: [], count: 0 };
+        byPath.set(path, node);
+        siblings.push(node);
+      }
+      node.count++;
+      siblings = node.children;
+    });
+  });
+
+  const sort = (nodes: FolderNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach(node => sort(node.children));
+  };
+  sort(roots);
+  return roots;
+};
+
+/** Tags in use, most used first. */
+export const collectTags = (snapshots: SavedSnapshot[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  snapshots.forEach(snapshot => snapshot.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, tokenize } from './librarySearchService';
+
+const word = (...words: string[]) => ({ words, prefix: false });
+const prefix = (...words: string[]) => ({ words, prefix: true });
+
+describe('tokenize', () => {
+  it('lower-cases, strips diacritics and splits on anything but letters and digits', () => {
+    expect(tokenize('Café Déjà-vu, 2024!')).toEqual(['cafe', 'deja', 'vu', '2024']);
+  });
+
+  it('keeps non-Latin words whole', () => {
+    expect(tokenize('Архив интернета 档案')).toEqual(['архив', 'интернета', '档案']);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('requires every plain word', () => {
+    expect(parseSearchQuery('climate Report')).toEqual({ groups: [[word('climate')], [word('report')]], excluded: [] });
+  });
+
+  it('keeps a quoted phrase together, even when unterminated', () => {
+    expect(parseSearchQuery('"sea level rise" data')).toEqual({ groups: [[word('sea', 'level', 'rise')], [word('data')]], excluded: [] });
+    expect(parseSearchQuery('"open ended').groups).toEqual([[word('open', 'ended')]]);
+  });
+
+  it('widens a trailing * to a prefix match of at least two characters', () => {
+    expect(parseSearchQuery('climat*').groups).toEqual([[prefix('climat')]]);
+    // Too short to be worth expanding
+    expect(parseSearchQuery('c*').groups).toEqual([[word('c')]]);
+    // Phrases are matched as written
+    expect(parseSearchQuery('"climat*"').groups).toEqual([[word('climat')]]);
+  });
+
+  it('excludes terms marked with - or NOT', () => {
+    expect(parseSearchQuery('climate -draft NOT "press release" -"old news"')).toEqual({
+      groups: [[word('climate')]],
+      excluded: [word('draft'), word('press', 'release'), word('old', 'news')],
+    });
+  });
+
+  it('treats a lone - as text, not an exclusion', () => {
+    expect(parseSearchQuery('climate - report').excluded).toEqual([]);
+  });
+
+  it('joins terms around OR into one group', () => {
+    expect(parseSearchQuery('flood OR drought OR "heat wave" policy').groups).toEqual([
+      [word('flood'), word('drought'), word('heat', 'wave')],
+      [word('policy')],
+    ]);
+  });
+
+  it('ignores OR and AND without terms to join', () => {
+    expect(parseSearchQuery('OR flood AND policy').groups).toEqual([[word('flood')], [word('policy')]]);
+  });
+});
@@ -0,0 +1,295 @@
+import { SEARCH_MAX_TEXT_CHARS, SEARCH_RESULT_LIMIT } from '../constants';
+import { SavedSnapshot, SearchDocument, SearchPosting } from '../types';
+import { extractVisibleText } from './diffService';
+import { isHtmlSnapshot } from './waybackService';
+import { storageService } from './storageService';
+
+// A word, or a phrase when it tokenizes to several; `prefix` widens the last word
+interface QueryTerm {
+  words: string[];
+  prefix: boolean;
+}
+
+export interface ParsedQuery {
+  // Every group must match; a group matches when any of its terms does
+  groups: QueryTerm[][];
+  excluded: QueryTerm[];
+}
+
+// Empty values match everything
+export interface LibrarySearchFilters {
+  host: string;
+  year: string;
+  mimetype: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface LibrarySearchResult {
+  snapshotId: string;
+  score: number;
+  title: SnippetPart[];
+  snippet: SnippetPart[];
+}
+
+export interface LibrarySearchResults {
+  results: LibrarySearchResult[];
+  // Matches before SEARCH_RESULT_LIMIT is applied
+  total: number;
+}
+
+export const EMPTY_SEARCH_FILTERS: LibrarySearchFilters = { host: '', year: '', mimetype: '' };
+
+// Title matches outweigh this many body matches
+const TITLE_BOOST = 5;
+const SNIPPET_LENGTH = 240;
+const SNIPPET_LEAD = 80;
+// Shorter prefixes would pull in a large part of the index
+const MIN_PREFIX_LENGTH = 2;
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+// Lowercase without diacritics, so "Café" finds "cafe"
+const normalize = (text: string) => text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url.includes('://') ? url : `http://${url}`).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return url;
+  }
+};
+
+/** The fields the Library filters on, for snapshots and search documents alike. */
+export const snapshotFacets = (snapshot: Pick<SavedSnapshot, 'originalUrl' | 'timestamp' | 'mimetype'>): LibrarySearchFilters => ({
+  host: hostOf(snapshot.originalUrl),
+  year: snapshot.timestamp.slice(0, 4),
+  mimetype: snapshot.mimetype,
+});
+
+export const matchesSearchFilters = (facets: LibrarySearchFilters, filters: LibrarySearchFilters) =>
+  (!filters.host || facets.host === filters.host) &&
+  (!filters.year || facets.year === filters.year) &&
+  (!filters.mimetype || facets.mimetype === filters.mimetype);
+
+const readableContent = (snapshot: SavedSnapshot): { title: string; text: string } => {
+  if (snapshot.blob) return { title: '', text: '' };
+  if (!isHtmlSnapshot(snapshot)) return { title: '', text: snapshot.content };
+  const title = new DOMParser().parseFromString(snapshot.content, 'text/html').title.replace(/\s+/g, ' ').trim();
+  const visible = extractVisibleText(snapshot.content);
+  // The visible text opens with the title; it is indexed on its own
+  return { title, text: title && visible.startsWith(title) ? visible.slice(title.length).trim() : visible };
+};
+
+/**
+ * Indexes the snapshot's title and visible text, replacing what was indexed
+ * for it before. Binary snapshots get a document without terms, so filters
+ * still find them.
+ */
+export const indexSnapshot = async (snapshot: SavedSnapshot): Promise<void> => {
+  const { title, text } = readableContent(snapshot);
+  const indexedText = text.slice(0, SEARCH_MAX_TEXT_CHARS);
+  const titleTerms = tokenize(title);
+  // One position is skipped after the title so phrases never span title and text
+  const terms = [...titleTerms, '', ...tokenize(indexedText)];
+
+  const positions = new Map<string, number[]>();
+  terms.forEach((term, position) => {
+    if (!term) return;
+    const list = positions.get(term);
+    if (list) list.push(position);
+    else positions.set(term, [position]);
+  });
+
+  const snapshotId = String(snapshot.id);
+  const document: SearchDocument = {
+    snapshotId,
+    title,
+    text: indexedText,
+    ...snapshotFacets(snapshot),
+    titleTokens: titleTerms.length,
+    indexedAt: Date.now(),
+  };
+  const postings: SearchPosting[] = Array.from(positions, ([term, list]) => ({ key: `${term}|${snapshotId}`, term, snapshotId, positions: list }));
+  await storageService.putSearchEntries(document, postings);
+};
+
+/**
+ * Indexes the snapshots the search index does not know yet, such as those
+ * saved before search existed. Returns how many were indexed.
+ */
+export const indexMissingSnapshots = async (
+  snapshots: SavedSnapshot[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<number> => {
+  const indexed = new Set(await storageService.getIndexedSnapshotIds());
+  const missing = snapshots.filter(snapshot => !indexed.has(String(snapshot.id)));
+  for (let i = 0; i < missing.length; i++) {
+    if (signal?.aborted) throw new DOMException('The request was cancelled.', 'AbortError');
+    await indexSnapshot(missing[i]);
+    onProgress?.(i + 1, missing.length);
+  }
+  return missing.length;
+};
+
+/**
+ * Parses a search query. Words are required; `"quoted phrases"` must appear
+ * in order; `OR` between two terms accepts either; `-term` or `NOT term`
+ * excludes; a trailing `*` matches word prefixes.
+ */
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const groups: QueryTerm[][] = [];
+  const excluded: QueryTerm[] = [];
+  let joinNext = false;
+  let negateNext = false;
+
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+    const [, negation, phrase, raw] = match;
+    if (raw === 'OR') {
+      joinNext = groups.length > 0;
+      continue;
+    }
+    if (raw === 'AND') continue;
+    if (raw === 'NOT') {
+      negateNext = true;
+      continue;
+    }
+
+    const negated = negateNext || negation === '-' || (raw !== undefined && raw.length > 1 && raw.startsWith('-'));
+    const value = phrase ?? raw.replace(/^-/, '');
+    const words = tokenize(value);
+    const prefix = phrase === undefined && value.endsWith('*') && words.length > 0 && words[words.length - 1].length >= MIN_PREFIX_LENGTH;
+    if (words.length > 0) {
+      const term = { words, prefix };
+      if (negated) excluded.push(term);
+      else if (joinNext) groups[groups.length - 1].push(term);
+      else groups.push([term]);
+    }
+    joinNext = false;
+    negateNext = false;
+  }
+  return { groups, excluded };
+};
+
+type PostingLookup = (word: string, prefix: boolean) => Promise<Map<string, number[]>>;
+
+// Fetches each word's postings once per search
+const createPostingLookup = (): PostingLookup => {
+  const loaded = new Map<string, Promise<Map<string, number[]>>>();
+  return (word, prefix) => {
+    const key = prefix ? `${word}*` : word;
+    if (!loaded.has(key)) {
+      loaded.set(key, storageService.getSearchPostings(prefix ? IDBKeyRange.bound(word, `${word}\uffff`) : IDBKeyRange.only(word)).then(postings => {
+        const bySnapshot = new Map<string, number[]>();
+        postings.forEach(posting => bySnapshot.set(posting.snapshotId, [...(bySnapshot.get(posting.snapshotId) || []), ...posting.positions]));
+        return bySnapshot;
+      }));
+    }
+    return loaded.get(key)!;
+  };
+};
+
+// Positions where the term starts, per snapshot that contains it
+const matchTerm = async (term: QueryTerm, lookup: PostingLookup): Promise<Map<string, number[]>> => {
+  const last = term.words.length - 1;
+  const [first, ...rest] = await Promise.all(term.words.map((word, i) => lookup(word, term.prefix && i === last)));
+  const hits = new Map<string, number[]>();
+  first.forEach((positions, snapshotId) => {
+    if (rest.some(list => !list.has(snapshotId))) return;
+    const following = rest.map(list => new Set(list.get(snapshotId)));
+    const starts = positions.filter(p => following.every((set, i) => set.has(p + i + 1)));
+    if (starts.length > 0) hits.set(snapshotId, starts);
+  });
+  return hits;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const highlighter = (terms: QueryTerm[]) => {
+  const patterns = terms.map(term => term.words
+    .map((word, i) => escapeRegExp(word) + (term.prefix && i === term.words.length - 1 ? `${WORD_CHAR}*` : ''))
+    .join(`[^\\p{L}\\p{N}]+`));
+  return new RegExp(`(?<!${WORD_CHAR})(?:${patterns.join('|')})(?!${WORD_CHAR})`, 'giu');
+};
+
+const highlight = (text: string, pattern: RegExp): SnippetPart[] => {
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) parts.push({ text: text.slice(last, match.index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+};
+
+// The stretch of text around the first match
+const snippet = (text: string, pattern: RegExp): SnippetPart[] => {
+  const first = Math.max(0, text.search(pattern));
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const parts = highlight(text.slice(start, end), pattern);
+  if (start > 0) parts.unshift({ text: '… ', match: false });
+  if (end < text.length) parts.push({ text: ' …', match: false });
+  return parts;
+};
+
+/**
+ * Searches the Library index. Snapshots are ranked by how often the query's
+ * terms occur, weighted by how rare each term is, with title matches counting
+ * extra.
+ */
+export const searchLibrary = async (
+  query: string,
+  filters: LibrarySearchFilters = EMPTY_SEARCH_FILTERS,
+  // Snapshot ids the search is limited to
+  within?: Set<string>
+): Promise<LibrarySearchResults> => {
+  const { groups, excluded } = parseSearchQuery(query);
+  if (groups.length === 0) return { results: [], total: 0 };
+
+  const lookup = createPostingLookup();
+  const groupHits = await Promise.all(groups.map(group => Promise.all(group.map(term => matchTerm(term, lookup)))));
+  const excludedIds = new Set((await Promise.all(excluded.map(term => matchTerm(term, lookup)))).flatMap(hits => [...hits.keys()]));
+
+  const candidates = groupHits
+    .map(hits => new Set(hits.flatMap(termHits => [...termHits.keys()])))
+    .reduce((matched, ids) => new Set([...matched].filter(id => ids.has(id))));
+  excludedIds.forEach(id => candidates.delete(id));
+  if (within) candidates.forEach(id => !within.has(id) && candidates.delete(id));
+
+  const documents = (await storageService.getSearchDocuments([...candidates])).filter(doc => matchesSearchFilters(doc, filters));
+  const indexedCount = (await storageService.getIndexedSnapshotIds()).length;
+
+  const scored = documents.map(doc => {
+    let score = 0;
+    groupHits.flat().forEach(termHits => {
+      const starts = termHits.get(doc.snapshotId);
+      if (!starts) return;
+      const rarity = Math.log(1 + indexedCount / termHits.size);
+      const inTitle = starts.filter(p => p < doc.titleTokens).length;
+      score += rarity * (starts.length - inTitle + inTitle * TITLE_BOOST);
+    });
+    return { doc, score };
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  const pattern = highlighter(groups.flat());
+  return {
+    results: scored.slice(0, SEARCH_RESULT_LIMIT).map(({ doc, score }) => ({
+      snapshotId: doc.snapshotId,
+      score,
+      title: highlight(doc.title, pattern),
+      snippet: snippet(doc.text, pattern),
+    })),
+    total: scored.length,
+  };
+};
@@ -0,0 +1,169 @@
+import { DEFAULT_CDX_OPTIONS, LINK_ROT_CONCURRENCY } from '../constants';
+import { CDXQueryOptions, CDXRecord, ExportReport, Provenance } from '../types';
+import { checkAvailability, downloadSnapshotContent, fetchCDX } from './waybackService';
+import { isAbortError, runConcurrently } from './httpClient';
+import { ApiError, toApiError } from './errors';
+import { isMockProvenance } from './provenance';
+
+export type OutlinkKind = 'link' | 'embed';
+
+export interface Outlink {
+  url: string;
+  // `<a href>` links versus `src` resources (images, scripts, frames, media)
+  kind: OutlinkKind;
+  // Anchor text, or the tag name for embeds
+  label: string;
+}
+
+export interface LinkCheckPage {
+  url: string;
+  // Capture the links were read from; coverage is judged against it
+  timestamp: string;
+  waybackUrl: string;
+  links: Outlink[];
+  provenance: Provenance;
+}
+
+// archived: a capture exists at or before the page's capture
+// later-only: the first capture came after it, so a reader then found nothing
+// never: no usable capture at all
+export type LinkCoverage = 'archived' | 'later-only' | 'never';
+
+export interface LinkRotRow extends Outlink {
+  status: 'queued' | 'checking' | 'done' | 'error';
+  coverage?: LinkCoverage;
+  // The capture nearest the page's capture on the side that decided the coverage
+  captureTimestamp?: string;
+  error?: ApiError;
+  provenance?: Provenance;
+}
+
+// Matches https://web.archive.org/web/20200101000000/http://example.com/ and its id_/im_ variants
+const WAYBACK_URL = /^https?:\/\/(?:web\.)?archive\.org\/web\/(\d{4,14})[a-z]{0,2}_?\/(.+)$/i;
+
+// Redirects count as coverage; captured error pages don't
+const USABLE_CAPTURE: CDXQueryOptions = { ...DEFAULT_CDX_OPTIONS, filters: [{ field: 'statuscode', pattern: '[23]..', negate: false }] };
+const isUsable = (record: CDXRecord) => /^[23]/.test(record.statuscode);
+
+/**
+ * Every http(s) URL the page links to (`<a href>`) or loads (`src`), resolved
+ * against the page URL and `<base href>`, without fragments and duplicates.
+ */
+export const extractOutlinks = (html: string, pageUrl: string): Outlink[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let base = pageUrl;
+  try {
+    base = new URL(doc.querySelector('base[href]')?.getAttribute('href') || '', pageUrl).toString();
+  } catch (e) {
+    // Malformed <base>; resolve against the page itself
+  }
+
+  const seen = new Set<string>();
+  const links: Outlink[] = [];
+  const add = (raw: string | null, kind: OutlinkKind, label: string) => {
+    if (!raw) return;
+    let url: URL;
+    try {
+      url = new URL(raw.trim(), base);
+    } catch (e) {
+      return;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+    url.hash = '';
+    const href = url.toString();
+    if (seen.has(href)) return;
+    seen.add(href);
+    links.push({ url: href, kind, label });
+  };
+
+  doc.querySelectorAll('a[href]').forEach(a => add(a.getAttribute('href'), 'link', (a.textContent || '').replace(/\s+/g, ' ').trim()));
+  doc.querySelectorAll('[src]').forEach(el => add(el.getAttribute('src'), 'embed', el.tagName.toLowerCase()));
+  return links;
+};
+
+/**
+ * Loads the page whose links are checked. A Wayback URL pins the capture; a
+ * plain URL uses its most recent one.
+ */
+export const loadLinkCheckPage = async (input: string, signal?: AbortSignal): Promise<LinkCheckPage> => {
+  let timestamp: string;
+  let url: string;
+  const pinned = input.match(WAYBACK_URL);
+  if (pinned) {
+    timestamp = pinned[1].padEnd(14, '0');
+    url = pinned[2];
+  } else {
+    const availability = await checkAvailability(input, undefined, signal);
+    const closest = availability.archived_snapshots.closest;
+    if (!closest) {
+      throw new ApiError('not-found', `${input} has no Wayback capture to read links from. Save it first, then check its links.`, { url: input });
+    }
+    timestamp = closest.timestamp;
+    url = input;
+  }
+
+  const waybackUrl = `https://web.archive.org/web/${timestamp}/${url}`;
+  const { content, blob, mimetype, provenance } = await downloadSnapshotContent(waybackUrl, signal);
+  if (blob) {
+    throw new ApiError('unknown', `The capture of ${url} is ${mimetype}, not a page with links.`, { url: waybackUrl, contentType: mimetype });
+  }
+  return { url, timestamp, waybackUrl, links: extractOutlinks(content, url), provenance };
+};
+
+/** Whether `url` was archived by the time of `timestamp`, only later, or never. */
+export const checkLinkCoverage = async (
+  url: string,
+  timestamp: string,
+  signal?: AbortSignal
+): Promise<Pick<LinkRotRow, 'coverage' | 'captureTimestamp' | 'provenance'>> => {
+  // Records are filtered again locally since mock data ignores the query
+  const before = await fetchCDX(url, { ...USABLE_CAPTURE, to: timestamp, limit: -1 }, signal);
+  const latestBefore = before.records.filter(r => isUsable(r) && r.timestamp <= timestamp).pop();
+  if (latestBefore) return { coverage: 'archived', captureTimestamp: latestBefore.timestamp, provenance: before.provenance };
+
+  const after = await fetchCDX(url, { ...USABLE_CAPTURE, from: timestamp, limit: 1 }, signal);
+  const firstAfter = after.records.find(r => isUsable(r) && r.timestamp > timestamp);
+  return firstAfter
+    ? { coverage: 'later-only', captureTimestamp: firstAfter.timestamp, provenance: after.provenance }
+    : { coverage: 'never', provenance: after.provenance };
+};
+
+/**
+ * Checks the coverage of every link, LINK_ROT_CONCURRENCY at a time, reporting
+ * each row through `onUpdate` as it starts and finishes.
+ */
+export const runLinkRotCheck = async (
+  links: Outlink[],
+  timestamp: string,
+  onUpdate: (index: number, row: LinkRotRow) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  await runConcurrently(links.length, LINK_ROT_CONCURRENCY, async index => {
+    const link = links[index];
+    onUpdate(index, { ...link, status: 'checking' });
+    try {
+      onUpdate(index, { ...link, status: 'done', ...(await checkLinkCoverage(link.url, timestamp, signal)) });
+    } catch (e) {
+      onUpdate(index, isAbortError(e) ? { ...link, status: 'queued' } : { ...link, status: 'error', error: toApiError(e) });
+    }
+  }, signal);
+};
+
+export const linkRotToReport = (page: LinkCheckPage, rows: LinkRotRow[]): ExportReport => ({
+  title: 'Link Rot Report',
+  name: 'link_rot_report',
+  rows: rows.map(row => ({
+    page_url: page.url,
+    page_capture: page.timestamp,
+    link_url: row.url,
+    link_kind: row.kind,
+    link_label: row.label,
+    coverage: row.coverage || '',
+    capture_timestamp: row.captureTimestamp || '',
+    wayback_url: row.captureTimestamp ? `https://web.archive.org/web/${row.captureTimestamp}/${row.url}` : '',
+    check_status: row.status,
+    error: row.error?.message || '',
+    data_source: row.provenance?.source || '',
+  })),
+  mockRows: rows.filter(row => isMockProvenance(row.provenance)).length,
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { closestMementoIndex, httpDateToTimestamp, parseLinkFormat } from './mementoService';
+
+describe('parseLinkFormat', () => {
+  it('keeps commas inside quoted datetimes within their link', () => {
+    const links = parseLinkFormat(
+      '<http://archive.example/20000620180259/http://a.example/>; rel="memento"; datetime="Tue, 20 Jun 2000 18:02:59 GMT", '
+      + '<http://archive.example/20010101000000/http://a.example/>; rel="memento"; datetime="Mon, 01 Jan 2001 00:00:00 GMT"'
+    );
+    expect(links).toHaveLength(2);
+    expect(links[0]).toEqual({
+      uri: 'http://archive.example/20000620180259/http://a.example/',
+      rels: ['memento'],
+      params: { rel: 'memento', datetime: 'Tue, 20 Jun 2000 18:02:59 GMT' },
+    });
+    expect(links[1].params.datetime).toBe('Mon, 01 Jan 2001 00:00:00 GMT');
+  });
+
+  it('splits space separated rel values and lower-cases them', () => {
+    const [link] = parseLinkFormat('<http://archive.example/1>; rel="First  Memento"; datetime="Tue, 20 Jun 2000 18:02:59 GMT"');
+    expect(link.rels).toEqual(['first', 'memento']);
+  });
+
+  it('reads a multi-line TimeMap with unquoted and valueless parameters', () => {
+    const links = parseLinkFormat(
+      '<http://a.example/>;rel="original",\n'
+      + '<http://archive.example/timemap/link/http://a.example/> ; rel=self ; type="application/link-format" ; from="Tue, 20 Jun 2000 18:02:59 GMT",\n'
+      + '<http://archive.example/1>; rel="memento"; Datetime="Tue, 20 Jun 2000 18:02:59 GMT"; anchor\n'
+    );
+    expect(links.map(link => link.rels)).toEqual([['original'], ['self'], ['memento']]);
+    expect(links[1].params).toMatchObject({ rel: 'self', type: 'application/link-format', from: 'Tue, 20 Jun 2000 18:02:59 GMT' });
+    // Parameter names are case-insensitive
+    expect(links[2].params).toEqual({ rel: 'memento', datetime: 'Tue, 20 Jun 2000 18:02:59 GMT', anchor: '' });
+  });
+
+  it('resolves relative URIs against the base', () => {
+    const [link] = parseLinkFormat('</web/20000620180259/http://a.example/>; rel="memento"', 'https://archive.example/timemap/link/http://a.example/');
+    expect(link.uri).toBe('https://archive.example/web/20000620180259/http://a.example/');
+  });
+
+  it('finds no link relations in empty text or an HTML page', () => {
+    expect(parseLinkFormat('')).toEqual([]);
+    const html = parseLinkFormat('<html><head><link rel="stylesheet" href="a.css"></head><body>Not found</body></html>');
+    expect(html.some(link => link.rels.length > 0)).toBe(false);
+  });
+});
+
+describe('httpDateToTimestamp', () => {
+  it('converts an HTTP date to a 14-digit UTC timestamp', () => {
+    expect(httpDateToTimestamp('Tue, 20 Jun 2000 18:02:59 GMT')).toBe('20000620180259');
+  });
+
+  it('returns null for an unparseable date', () => {
+    expect(httpDateToTimestamp('')).toBeNull();
+    expect(httpDateToTimestamp('yesterday')).toBeNull();
+  });
+});
+
+describe('closestMementoIndex', () => {
+  const mementos = ['20000101000000', '20050101000000', '20100101000000'].map(timestamp => ({ uri: `http://archive.example/${timestamp}`, timestamp }));
+
+  it('picks the capture nearest the requested moment', () => {
+    expect(closestMementoIndex(mementos, '20060101000000')).toBe(1);
+    expect(closestMementoIndex(mementos, '20090101000000')).toBe(2);
+    expect(closestMementoIndex(mementos, '19900101000000')).toBe(0);
+  });
+
+  it('returns -1 without captures', () => {
+    expect(closestMementoIndex([], '20000101000000')).toBe(-1);
+  });
+});
@@ -0,0 +1,214 @@
+import { Memento, MementoArchive, Provenance } from '../types';
+import { getMockTimeMap } from './mockService';
+import { errorFromResponse, getLocalProxyStatus, getSettings, httpRequest, isDemoMode, sleep } from './httpClient';
+import { ApiError, isApiError } from './errors';
+import { withCache } from './cacheService';
+import { liveProvenance, mockFallbackOrThrow, mockProvenance } from './provenance';
+import { hasFixture } from './fixtureService';
+import { parseWaybackTimestamp } from './waybackService';
+
+export interface LinkEntry {
+  uri: string;
+  // Space separated `rel` values, e.g. ["first", "memento"]
+  rels: string[];
+  // Every other parameter, keys lower-cased
+  params: Record<string, string>;
+}
+
+export interface MementoTimeMap {
+  archive: MementoArchive;
+  // Oldest first
+  mementos: Memento[];
+  provenance: Provenance;
+}
+
+export interface MementoLookup {
+  archive: MementoArchive;
+  // The memento the TimeGate picked, null when the archive has no capture of the URL
+  memento: Memento | null;
+  first?: Memento;
+  prev?: Memento;
+  next?: Memento;
+  last?: Memento;
+  provenance: Provenance;
+}
+
+// Parameters after a `<uri>`, up to the comma that starts the next link
+const LINK_PARAM = /\s*;\s*([^=;,\s]+)\s*(?:=\s*(?:"([^"]*)"|([^;,]*)))?/y;
+
+/**
+ * Parses an RFC 6690 link-format document (a TimeMap body) or an HTTP `Link`
+ * header. Relative URIs are resolved against `base`.
+ */
+export const parseLinkFormat = (text: string, base?: string): LinkEntry[] => {
+  const entries: LinkEntry[] = [];
+  let position = 0;
+  for (;;) {
+    const start = text.indexOf('<', position);
+    const end = start === -1 ? -1 : text.indexOf('>', start);
+    if (end === -1) break;
+
+    let uri = text.slice(start + 1, end).trim();
+    try {
+      uri = new URL(uri, base).toString();
+    } catch (e) {
+      // Keep it as written; some archives emit URIs the URL parser rejects
+    }
+
+    const params: Record<string, string> = {};
+    LINK_PARAM.lastIndex = end + 1;
+    let match: RegExpExecArray | null;
+    position = end + 1;
+    while ((match = LINK_PARAM.exec(text))) {
+      params[match[1].toLowerCase()] = (match[2] ?? match[3] ?? '').trim();
+      position = LINK_PARAM.lastIndex;
+    }
+    entries.push({ uri, rels: (params.rel || '').toLowerCase().split(/\s+/).filter(Boolean), params });
+  }
+  return entries;
+};
+
+/** "Tue, 20 Jun 2000 18:02:59 GMT" -> "20000620180259", null when unparseable. */
+export const httpDateToTimestamp = (value: string): string | null => {
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString().replace(/\D/g, '').slice(0, 14);
+};
+
+const toMemento = (entry?: LinkEntry): Memento | undefined => {
+  const timestamp = entry?.params.datetime ? httpDateToTimestamp(entry.params.datetime) : null;
+  return entry && timestamp ? { uri: entry.uri, timestamp } : undefined;
+};
+
+/** Index of the memento nearest `timestamp`, -1 for an empty list. */
+export const closestMementoIndex = (mementos: Memento[], timestamp: string): number => {
+  const target = parseWaybackTimestamp(timestamp);
+  let best = -1;
+  mementos.forEach((memento, index) => {
+    if (best === -1 || Math.abs(parseWaybackTimestamp(memento.timestamp) - target) < Math.abs(parseWaybackTimestamp(mementos[best].timestamp) - target)) {
+      best = index;
+    }
+  });
+  return best;
+};
+
+/**
+ * Lists every capture `archive` holds of `url`. Archives answer 404 for URLs
+ * they never captured, which yields an empty TimeMap. Paged TimeMaps are not
+ * followed; the first page is returned.
+ */
+export const fetchTimeMap = async (archive: MementoArchive, url: string, signal?: AbortSignal): Promise<MementoTimeMap> => {
+  const api = `${archive.timemap}${url}`;
+
+  if (isDemoMode() && !(await hasFixture(api))) {
+    await sleep(600, signal);
+    return { archive, mementos: getMockTimeMap(url, archive), provenance: mockProvenance(api, 'demo') };
+  }
+
+  try {
+    const { data, provenance } = await withCache('timemap', api, async () => {
+      const res = await httpRequest(api, { signal, headers: { Accept: 'application/link-format' } });
+      if (res.status === 404) return [];
+      if (!res.ok) throw errorFromResponse(res, api, `${archive.name} TimeMap`);
+
+      const text = await res.text();
+      const links = parseLinkFormat(text, api);
+      // Tags of an HTML page parse as links too, but none of them carries a relation
+      if (text.trim() && !links.some(link => link.rels.length > 0)) {
+        const contentType = res.headers.get('content-type') || undefined;
+        throw new ApiError('unknown', `${archive.name} did not return a link-format TimeMap.`, { url: api, status: res.status, contentType });
+      }
+      return links
+        .filter(link => link.rels.includes('memento'))
+        .map(toMemento)
+        .filter((m): m is Memento => !!m)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    });
+    return { archive, mementos: data, provenance };
+  } catch (error) {
+    const { data, provenance } = mockFallbackOrThrow(await explainUnreachable(error, archive, api), api, () => getMockTimeMap(url, archive));
+    return { archive, mementos: data, provenance };
+  }
+};
+
+/**
+ * Archives outside the bundled proxy's allowlist are fetched directly, which
+ * most of them block (no CORS headers). Turns the resulting network error into
+ * one that names the fix.
+ */
+const explainUnreachable = async (error: unknown, archive: MementoArchive, api: string): Promise<unknown> => {
+  if (!isApiError(error, 'network') || error.timedOut || getSettings().corsProxy?.trim()) return error;
+  const host = new URL(api).hostname;
+  const localProxy = await getLocalProxyStatus();
+  if (localProxy?.hosts.includes(host)) return error;
+  const message = localProxy
+    ? `${archive.name} could not be reached: ${host} is not on the OmniDash proxy's allowlist. Add it to IA_PROXY_HOSTS in .env.local and restart the server, or configure a CORS proxy in Settings.`
+    : `${archive.name} could not be reached, likely because it does not allow cross-origin requests (CORS). Configure a CORS proxy in Settings, or run OmniDash with its local proxy and add ${host} to IA_PROXY_HOSTS.`;
+  return new ApiError('network', message, { url: api, cause: error });
+};
+
+const mockLookup = (archive: MementoArchive, url: string, datetime?: Date): Omit<MementoLookup, 'provenance'> => {
+  const mementos = getMockTimeMap(url, archive);
+  const index = datetime
+    ? closestMementoIndex(mementos, httpDateToTimestamp(datetime.toUTCString()) || '')
+    : mementos.length - 1;
+  return {
+    archive,
+    memento: mementos[index] ?? null,
+    first: mementos[0],
+    prev: mementos[index - 1],
+    next: mementos[index + 1],
+    last: mementos[mementos.length - 1],
+  };
+};
+
+/**
+ * Asks `archive`'s TimeGate for the capture of `url` closest to `datetime`, or
+ * the most recent one without it. The chosen memento comes from the
+ * Memento-Datetime header; first/prev/next/last from the Link header when the
+ * archive sends them. Only headers are requested (HEAD, or GET for archives
+ * that refuse it).
+ */
+export const queryTimeGate = async (archive: MementoArchive, url: string, datetime?: Date, signal?: AbortSignal): Promise<MementoLookup> => {
+  const api = `${archive.timegate}${url}`;
+
+  if (isDemoMode() && !(await hasFixture(api, 'HEAD'))) {
+    await sleep(500, signal);
+    return { ...mockLookup(archive, url, datetime), provenance: mockProvenance(api, 'demo') };
+  }
+
+  try {
+    const headers = datetime ? { 'Accept-Datetime': datetime.toUTCString() } : undefined;
+    // Only the headers matter, so HEAD spares downloading the memento itself
+    let res = await httpRequest(api, { method: 'HEAD', signal, headers });
+    if (res.status === 405 || res.status === 501) {
+      // Archives that refuse HEAD get a GET whose body is dropped unread
+      res = await httpRequest(api, { signal, headers });
+      res.body?.cancel().catch(() => {});
+    }
+    if (res.status === 404) return { archive, memento: null, provenance: await liveProvenance(api) };
+    if (!res.ok) throw errorFromResponse(res, api, `${archive.name} TimeGate`);
+
+    const timestamp = httpDateToTimestamp(res.headers.get('Memento-Datetime') || '');
+    if (!timestamp) {
+      const contentType = res.headers.get('content-type') || undefined;
+      throw new ApiError('unknown', `${archive.name} did not answer as a Memento TimeGate (no Memento-Datetime header).`, { url: api, status: res.status, contentType });
+    }
+
+    const links = parseLinkFormat(res.headers.get('Link') || '', api).filter(link => link.rels.includes('memento'));
+    const withRel = (rel: string) => toMemento(links.find(link => link.rels.includes(rel)));
+    const self = links.find(link => toMemento(link)?.timestamp === timestamp);
+    return {
+      archive,
+      // Wayback-style archives (pywb, OpenWayback) address captures as <base><timestamp>/<url>
+      memento: { uri: self?.uri || `${archive.timegate}${timestamp}/${url}`, timestamp },
+      first: withRel('first'),
+      prev: withRel('prev'),
+      next: withRel('next'),
+      last: withRel('last'),
+      provenance: await liveProvenance(api),
+    };
+  } catch (error) {
+    const { data, provenance } = mockFallbackOrThrow(await explainUnreachable(error, archive, api), api, () => mockLookup(archive, url, datetime));
+    return { ...data, provenance };
+  }
+};
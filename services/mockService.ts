@@ -1,4 +1,4 @@
-import { IAMetadata, IASearchResult, WaybackAvailability, CDXRecord } from '../types';
+import { IAMetadata, IASearchResult, WaybackAvailability, CDXRecord, Memento, UrlInventoryEntry } from '../types';
 
 export const getMockMetadata = (identifier: string): IAMetadata => ({
   created: 1625097600,
@@ -29,17 +29,28 @@ export const getMockSearchResults = (query: string, count = 10): IASearchResult[
   }));
 };
 
-export const getMockAvailability = (url: string): WaybackAvailability => ({
-  url,
-  archived_snapshots: {
-    closest: {
-      available: true,
-      status: "200",
-      timestamp: "20231015120000",
-      url: `http://web.archive.org/web/20231015120000/${url}`
+const timestampToMs = (ts: string) =>
+  Date.UTC(+ts.slice(0, 4), +ts.slice(4, 6) - 1, +ts.slice(6, 8), +ts.slice(8, 10), +ts.slice(10, 12), +ts.slice(12, 14));
+
+// With a timestamp, answers like the real API: the 200 capture of the mock history nearest to it
+export const getMockAvailability = (url: string, timestamp?: string): WaybackAvailability => {
+  const closest = timestamp
+    ? getMockCDX(url)
+        .filter(r => r.statuscode === '200')
+        .reduce((best, r) => Math.abs(timestampToMs(r.timestamp) - timestampToMs(timestamp)) < Math.abs(timestampToMs(best) - timestampToMs(timestamp)) ? r.timestamp : best, '20231015120000')
+    : '20231015120000';
+  return {
+    url,
+    archived_snapshots: {
+      closest: {
+        available: true,
+        status: "200",
+        timestamp: closest,
+        url: `http://web.archive.org/web/${closest}/${url}`
+      }
     }
-  }
-});
+  };
+};
 
 export const getMockCDX = (url: string): CDXRecord[] => {
   // Generate a spread of data over several years for the chart
@@ -54,12 +65,91 @@ export const getMockCDX = (url: string): CDXRecord[] => {
       original: url,
       mimetype: "text/html",
       statuscode: i % 10 === 0 ? "404" : "200",
-      digest: "3I42H3S6NNFQ2MSVX7XZKYAYSCX5QBYJ",
+      // Content changes every 40 captures; error pages share one digest
+      digest: i % 10 === 0 ? "3I42H3S6NNFQ2MSVX7XZKYAYSCX5QBYJ" : `MOCKDIGEST${Math.floor(i / 40)}`.padEnd(32, 'X'),
       length: "1234"
     };
   });
 };
 
+// Links of every kind the link-rot check looks for, relative and absolute
+export const getMockSnapshotHtml = (): string => `<html><head><link rel="stylesheet" href="/assets/style.css"></head><body>
+<h1>Mock Content</h1>
+<p>This is mock HTML content for demo mode.</p>
+<img src="/assets/img/logo.png" alt="Logo">
+<ul>
+  <li><a href="/about">About</a></li>
+  <li><a href="/blog/2021/redesign#comments">Redesign notes</a></li>
+  <li><a href="https://en.wikipedia.org/wiki/Web_archiving">Web archiving</a></li>
+  <li><a href="mailto:editor@example.com">Contact</a></li>
+</ul>
+</body></html>`;
+
+// Stand-ins for the stylesheet, image and script a mock page references
+export const getMockAsset = (url: string): { body: string; mimetype: string } => {
+  if (/\.css(\?|$)/i.test(url)) {
+    return { body: 'body { font-family: sans-serif; margin: 2rem; color: #1f2937; }\nh1 { color: #4f46e5; }', mimetype: 'text/css' };
+  }
+  if (/\.js(\?|$)/i.test(url)) return { body: '// mock script', mimetype: 'application/javascript' };
+  return {
+    body: '<svg xmlns="http://www.w3.org/2000/svg" width="120" height="40"><rect width="120" height="40" rx="6" fill="#4f46e5"/><text x="60" y="26" font-size="14" fill="#fff" text-anchor="middle" font-family="sans-serif">Mock logo</text></svg>',
+    mimetype: 'image/svg+xml',
+  };
+};
+
+// The collapsed CDX row for the mock history of a single URL
+export const getMockCaptureSummary = (url: string): UrlInventoryEntry => {
+  const records = getMockCDX(url);
+  return {
+    urlkey: records[0].urlkey,
+    original: url,
+    mimetype: records[0].mimetype,
+    statuscode: records[0].statuscode,
+    captures: records.length,
+    firstTimestamp: records[0].timestamp,
+    lastTimestamp: records[records.length - 1].timestamp,
+  };
+};
+
+// A small site: a few sections with pages, assets and the odd dead link
+export const getMockUrlInventory = (url: string): UrlInventoryEntry[] => {
+  const host = url.replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0].replace(/^www\./, '') || 'example.com';
+  const surt = host.split(':')[0].split('.').reverse().join(',');
+  const paths = [
+    '/', '/about', '/contact',
+    '/blog/', '/blog/2019/hello-world', '/blog/2019/second-post', '/blog/2021/redesign', '/blog/2021/redesign?print=1',
+    '/docs/', '/docs/getting-started', '/docs/api/reference', '/docs/api/changelog', '/docs/old-guide',
+    '/assets/style.css', '/assets/app.js', '/assets/img/logo.png',
+  ];
+  return paths.map((path, i) => {
+    const mimetype = path.endsWith('.css') ? 'text/css' : path.endsWith('.js') ? 'application/javascript' : path.endsWith('.png') ? 'image/png' : 'text/html';
+    const firstYear = 2010 + (i % 9);
+    return {
+      urlkey: `${surt})${path}`,
+      original: `http://${host}${path}`,
+      mimetype,
+      statuscode: path === '/docs/old-guide' ? '404' : path === '/contact' ? '301' : '200',
+      captures: 5 + ((i * 37) % 180),
+      firstTimestamp: `${firstYear}0${(i % 9) + 1}15093000`,
+      lastTimestamp: `${Math.min(2024, firstYear + 3 + (i % 6))}1${i % 3}02120000`,
+    };
+  });
+};
+
+// Each archive gets its own, stable share of captures so side-by-side views differ
+export const getMockTimeMap = (url: string, archive: { id: string; timegate: string }): Memento[] => {
+  const seed = Array.from(archive.id).reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  const count = 4 + (seed % 30);
+  const startYear = 2008 + (seed % 7);
+  return Array.from({ length: count }).map((_, i) => {
+    const year = startYear + Math.floor((i * (2024 - startYear)) / count);
+    const month = ((seed + i * 5) % 12) + 1;
+    const day = ((seed + i * 11) % 28) + 1;
+    const timestamp = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}0${i % 10}3000`;
+    return { uri: `${archive.timegate}${timestamp}/${url}`, timestamp };
+  }).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
 export const getMockViews = (): Record<string, number> => {
   const data: Record<string, number> = {};
   const today = new Date();
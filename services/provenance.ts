@@ -0,0 +1,44 @@
+import { Provenance } from '../types';
+import { getProxyLabel, getSettings, isAbortError, isDemoMode } from './httpClient';
+import { fixtureKey } from './fixtureService';
+import { storageService } from './storageService';
+
+/**
+ * Provenance for a result fetched from the API just now, or, in Demo Mode,
+ * replayed from the fixture recorded for that request.
+ */
+export const liveProvenance = async (endpoint: string, useProxy = true): Promise<Provenance> => {
+  if (isDemoMode()) {
+    const fixture = await storageService.getFixture(fixtureKey('GET', endpoint)).catch(() => undefined);
+    return { source: 'fixture', endpoint, proxy: null, fetchedAt: fixture?.recordedAt ?? Date.now() };
+  }
+  return {
+    source: 'live',
+    endpoint,
+    proxy: useProxy ? await getProxyLabel(endpoint) : null,
+    fetchedAt: Date.now(),
+  };
+};
+
+/** Provenance for generated data, either because Demo Mode is on or because the live call failed. */
+export const mockProvenance = (endpoint: string, reason: 'demo' | 'fallback'): Provenance => ({
+  source: reason === 'demo' ? 'mock-demo' : 'mock-fallback',
+  endpoint,
+  proxy: null,
+  fetchedAt: Date.now(),
+});
+
+export const isMockProvenance = (provenance?: Provenance) =>
+  provenance?.source === 'mock-demo' || provenance?.source === 'mock-fallback';
+
+/**
+ * Replaces a failed live call with mock data only when the user opted into
+ * "Mock data fallback"; otherwise the original error is rethrown so the view
+ * shows it instead of silently presenting fabricated results.
+ */
+export const mockFallbackOrThrow = <T>(error: unknown, endpoint: string, createMock: () => T): { data: T; provenance: Provenance } => {
+  // Demo Mode reports missing fixtures instead of papering over them
+  if (isAbortError(error) || isDemoMode() || !getSettings().mockFallback) throw error;
+  console.warn(`Live request to ${endpoint} failed, substituting mock data`, error);
+  return { data: createMock(), provenance: mockProvenance(endpoint, 'fallback') };
+};
@@ -0,0 +1,173 @@
+import { HOST_RATE_LIMITS } from '../constants';
+
+const RATE_WINDOW_MS = 60000;
+
+interface QueuedTask {
+  run: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface HostState {
+  queue: QueuedTask[];
+  active: number;
+  // Start times of requests within the last rate window
+  starts: number[];
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export interface ThrottledHost {
+  host: string;
+  resumeAt: number;
+}
+
+export interface SchedulerStatus {
+  queued: number;
+  active: number;
+  throttled: ThrottledHost[];
+}
+
+type StatusListener = (status: SchedulerStatus) => void;
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return '';
+  }
+};
+
+/**
+ * Per-host request queue for the Internet Archive APIs.
+ *
+ * Caps concurrency and requests per minute for every host listed in
+ * HOST_RATE_LIMITS and holds a host's queue while it is rate limited (429).
+ * Requests to other hosts run immediately.
+ */
+class RequestScheduler {
+  private hosts = new Map<string, HostState>();
+  private listeners = new Set<StatusListener>();
+
+  schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const host = getHost(url);
+    if (!HOST_RATE_LIMITS[host]) return task();
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(new DOMException('The request was cancelled.', 'AbortError'));
+      }
+
+      const state = this.getState(host);
+      const entry: QueuedTask = {
+        signal,
+        run: () => {
+          state.active++;
+          state.starts.push(Date.now());
+          this.notify();
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              state.active--;
+              this.pump(host);
+            });
+        },
+      };
+
+      // Cancelling a queued request just drops it from the queue
+      entry.onAbort = () => {
+        state.queue = state.queue.filter(t => t !== entry);
+        reject(new DOMException('The request was cancelled.', 'AbortError'));
+        this.notify();
+      };
+      signal?.addEventListener('abort', entry.onAbort, { once: true });
+
+      state.queue.push(entry);
+      this.pump(host);
+    });
+  }
+
+  /**
+   * Holds every queued request for the URL's host until the Retry-After delay has passed.
+   * Returns false for hosts the scheduler doesn't manage.
+   */
+  pauseHost(url: string, delayMs: number): boolean {
+    const host = getHost(url);
+    if (!HOST_RATE_LIMITS[host]) return false;
+    const state = this.getState(host);
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delayMs);
+    console.warn(`Rate limited by ${host}, pausing requests for ${Math.ceil(delayMs / 1000)}s`);
+    this.pump(host);
+    return true;
+  }
+
+  getStatus(): SchedulerStatus {
+    const now = Date.now();
+    let queued = 0;
+    let active = 0;
+    const throttled: ThrottledHost[] = [];
+    this.hosts.forEach((state, host) => {
+      queued += state.queue.length;
+      active += state.active;
+      if (state.pausedUntil > now) throttled.push({ host, resumeAt: state.pausedUntil });
+    });
+    return { queued, active, throttled };
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { queue: [], active: 0, starts: [], pausedUntil: 0, timer: null };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private pump(host: string) {
+    const state = this.getState(host);
+    const limits = HOST_RATE_LIMITS[host];
+
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+
+    const now = Date.now();
+    state.starts = state.starts.filter(t => now - t < RATE_WINDOW_MS);
+
+    while (state.queue.length > 0 && state.active < limits.maxConcurrent) {
+      let waitMs = 0;
+      if (state.pausedUntil > now) {
+        waitMs = state.pausedUntil - now;
+      } else if (state.starts.length >= limits.requestsPerMinute) {
+        waitMs = state.starts[0] + RATE_WINDOW_MS - now;
+      }
+
+      if (waitMs > 0) {
+        state.timer = setTimeout(() => this.pump(host), waitMs);
+        break;
+      }
+
+      const next = state.queue.shift()!;
+      if (next.onAbort) next.signal?.removeEventListener('abort', next.onAbort);
+      next.run();
+    }
+
+    this.notify();
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,317 @@
+import { DEFAULT_RETRY_AFTER_MS, SITEMAP_MAX_CHILDREN, SPN_DAILY_RESERVE, SPN_QUEUE_CONCURRENCY, SPN_QUEUE_INTERVAL_MS, SPN_QUOTA_REFRESH_MS } from '../constants';
+import { SaveQueueItem, SPNOptions, SPNUserStatus } from '../types';
+import { storageService } from './storageService';
+import { fetchSaveUserStatus, savePageNow, waitForSaveJob } from './waybackService';
+import { errorFromResponse, getSettings, httpRequest, isAbortError } from './httpClient';
+import { ApiError, isApiError } from './errors';
+
+export interface SaveQueueState {
+  items: SaveQueueItem[];
+  paused: boolean;
+  // Set while SavePageNow rate limits the account
+  pausedUntil: number;
+  // Why the queue paused itself, e.g. missing credentials or a spent daily budget
+  pauseReason: string | null;
+  // Last known account quota, null until read or when the keys can't be checked
+  quota: SPNUserStatus | null;
+}
+
+type QueueListener = (state: SaveQueueState) => void;
+
+const FINISHED = ['success', 'error'];
+
+/**
+ * Persistent SavePageNow queue.
+ *
+ * Items are stored in IndexedDB and processed in the background regardless of
+ * the active view, at most SPN_QUEUE_CONCURRENCY at a time and one submission
+ * every SPN_QUEUE_INTERVAL_MS. Before each submission the account quota is
+ * checked: the queue waits while no capture session is free and pauses itself
+ * once the daily budget is down to SPN_DAILY_RESERVE captures. After a reload,
+ * `load()` resumes polling of jobs that were still capturing and re-queues
+ * submissions that never got a job.
+ */
+class SaveQueue {
+  private items: SaveQueueItem[] = [];
+  private paused = false;
+  private pausedUntil = 0;
+  private pauseReason: string | null = null;
+  private active = new Map<string, AbortController>();
+  private lastSubmit = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private quota: SPNUserStatus | null = null;
+  private quotaCheckedAt = 0;
+  private quotaRequest: Promise<void> | null = null;
+  private listeners = new Set<QueueListener>();
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = storageService.getSaveQueue().then(items => {
+        this.items = items;
+        items.forEach(item => {
+          if (item.status === 'capturing' && item.job?.jobId) {
+            this.run(item.id, signal => this.poll(item.id, item.job!.jobId!, signal));
+          } else if (item.status === 'submitting' || item.status === 'capturing') {
+            // Interrupted before SavePageNow answered; submit again
+            this.update(item.id, { status: 'queued' });
+          }
+        });
+        this.pump();
+      }).catch(e => {
+        console.error("Failed to load the save queue", e);
+        this.loadPromise = null;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /** Adds URLs not already waiting in the queue. Returns how many were added. */
+  async enqueue(urls: string[], options: SPNOptions): Promise<number> {
+    await this.load();
+    const pending = new Set(this.items.filter(i => !FINISHED.includes(i.status)).map(i => i.url));
+    const now = Date.now();
+    const added: SaveQueueItem[] = Array.from(new Set(urls))
+      .filter(url => !pending.has(url))
+      .map((url, index) => ({
+        id: `${now}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+        url,
+        options,
+        status: 'queued',
+        attempts: 0,
+        addedAt: now + index,
+        updatedAt: now,
+      }));
+
+    this.items = [...this.items, ...added];
+    await storageService.putSaveQueueItems(added);
+    this.pump();
+    return added.length;
+  }
+
+  retry(ids: string[]) {
+    ids.forEach(id => {
+      const item = this.items.find(i => i.id === id);
+      if (item?.status === 'error') this.update(id, { status: 'queued', message: undefined, job: undefined });
+    });
+    this.pump();
+  }
+
+  async remove(ids: string[]) {
+    ids.forEach(id => this.active.get(id)?.abort());
+    this.items = this.items.filter(i => !ids.includes(i.id));
+    this.notify();
+    await storageService.deleteSaveQueueItems(ids);
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+    if (!paused) {
+      this.pauseReason = null;
+      this.pausedUntil = 0;
+    }
+    this.pump();
+  }
+
+  getState(): SaveQueueState {
+    return { items: this.items, paused: this.paused, pausedUntil: this.pausedUntil, pauseReason: this.pauseReason, quota: this.quota };
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(id: string, patch: Partial<SaveQueueItem>) {
+    const index = this.items.findIndex(item => item.id === id);
+    // Removed while a request was still in flight
+    if (index === -1) return;
+    const updated = { ...this.items[index], ...patch, updatedAt: Date.now() };
+    this.items = this.items.map((item, i) => (i === index ? updated : item));
+    storageService.putSaveQueueItems([updated]).catch(e => console.error("Failed to persist save queue item", e));
+    this.notify();
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.notify();
+
+    const next = this.items.find(i => i.status === 'queued');
+    if (this.paused || !next || this.active.size >= SPN_QUEUE_CONCURRENCY) return;
+
+    const now = Date.now();
+    const waitMs = Math.max(this.pausedUntil - now, this.lastSubmit + SPN_QUEUE_INTERVAL_MS - now);
+    if (waitMs > 0) {
+      this.timer = setTimeout(() => this.pump(), waitMs);
+      return;
+    }
+
+    if (now - this.quotaCheckedAt > SPN_QUOTA_REFRESH_MS) {
+      this.refreshQuota();
+      return;
+    }
+    if (this.quota) {
+      const { available, dailyCaptures, dailyCapturesLimit } = this.quota;
+      if (dailyCapturesLimit !== null && dailyCapturesLimit - dailyCaptures <= SPN_DAILY_RESERVE) {
+        this.paused = true;
+        this.pauseReason = `Daily capture budget almost used (${dailyCaptures.toLocaleString()} of ${dailyCapturesLimit.toLocaleString()}). Resume once it resets.`;
+        this.notify();
+        return;
+      }
+      if (available <= 0) {
+        // Every capture session is busy; look again once the quota may have changed
+        this.timer = setTimeout(() => this.refreshQuota(), SPN_QUEUE_INTERVAL_MS);
+        return;
+      }
+    }
+
+    this.lastSubmit = now;
+    // The next submission re-reads the quota this one is about to use
+    this.quotaCheckedAt = 0;
+    this.update(next.id, { status: 'submitting', attempts: next.attempts + 1, message: undefined });
+    this.run(next.id, signal => this.submit(next, signal));
+    this.pump();
+  }
+
+  private refreshQuota() {
+    if (this.quotaRequest) return;
+    const { accessKey, secretKey } = getSettings();
+    this.quotaRequest = fetchSaveUserStatus(accessKey, secretKey)
+      .then(quota => {
+        this.quota = quota;
+      })
+      .catch(e => {
+        // An unreadable quota doesn't block captures; SPN itself still enforces the limits
+        console.warn("Could not read the SavePageNow quota", e);
+        this.quota = null;
+      })
+      .finally(() => {
+        this.quotaCheckedAt = Date.now();
+        this.quotaRequest = null;
+        this.pump();
+      });
+  }
+
+  // Tracks the item as active until `task` settles, then frees the slot
+  private async run(id: string, task: (signal: AbortSignal) => Promise<void>) {
+    const controller = new AbortController();
+    this.active.set(id, controller);
+    try {
+      await task(controller.signal);
+    } catch (e) {
+      if (!isAbortError(e)) this.fail(id, e);
+    } finally {
+      this.active.delete(id);
+      this.pump();
+    }
+  }
+
+  private async submit(item: SaveQueueItem, signal: AbortSignal) {
+    const { accessKey, secretKey } = getSettings();
+    const job = await savePageNow(item.url, accessKey, secretKey, item.options, signal);
+    if (job.jobId && job.status === 'pending') {
+      this.update(item.id, { status: 'capturing', job, message: job.message });
+      await this.poll(item.id, job.jobId, signal);
+    } else {
+      this.update(item.id, { status: job.status === 'error' ? 'error' : 'success', job, message: job.message });
+    }
+  }
+
+  private async poll(id: string, jobId: string, signal: AbortSignal) {
+    const { accessKey, secretKey } = getSettings();
+    const job = await waitForSaveJob(jobId, accessKey, secretKey, update => this.update(id, { job: update }), signal);
+    this.update(id, {
+      status: job.status === 'error' ? 'error' : 'success',
+      job,
+      message: job.message || (job.status === 'error' ? 'Capture failed' : 'Captured'),
+    });
+  }
+
+  private fail(id: string, error: unknown) {
+    const item = this.items.find(i => i.id === id);
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Limits and credentials affect every item: hold the queue instead of failing them all
+    if (isApiError(error, 'rate-limited') && !item?.job?.jobId) {
+      this.pausedUntil = Math.max(this.pausedUntil, (error as ApiError).retryAt || Date.now() + DEFAULT_RETRY_AFTER_MS);
+      this.update(id, { status: 'queued', message: 'Rate limited, waiting to retry' });
+      return;
+    }
+    if (isApiError(error, 'auth-missing') || isApiError(error, 'auth-rejected')) {
+      this.paused = true;
+      this.pauseReason = message;
+      this.update(id, { status: 'queued', message });
+      return;
+    }
+    this.update(id, { status: 'error', message });
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const saveQueue = new SaveQueue();
+
+/**
+ * Extracts URLs from pasted text or an uploaded .txt/.csv file. Any whitespace,
+ * comma or semicolon separated token that looks like a URL is kept.
+ */
+export const parseUrlList = (text: string): string[] => {
+  const urls = text
+    .split(/[\s,;"']+/)
+    .map(token => token.trim())
+    .filter(token => /^https?:\/\//i.test(token) || /^[\w-]+(\.[\w-]+)+(\/\S*)?$/.test(token))
+    .map(token => (/^https?:\/\//i.test(token) ? token : `http://${token}`));
+  return Array.from(new Set(urls));
+};
+
+/** Reads the <loc> entries of a sitemap, following up to SITEMAP_MAX_CHILDREN nested sitemaps of an index. */
+export const fetchSitemapUrls = async (sitemapUrl: string, signal?: AbortSignal): Promise<string[]> => {
+  const read = async (url: string): Promise<Document> => {
+    const res = await httpRequest(url, { signal });
+    if (!res.ok) throw errorFromResponse(res, url, 'Sitemap');
+    const doc = new DOMParser().parseFromString(await res.text(), 'application/xml');
+    if (doc.querySelector('parsererror')) {
+      throw new ApiError('unknown', `${url} is not a valid XML sitemap.`, { url, contentType: res.headers.get('content-type') || undefined });
+    }
+    return doc;
+  };
+  const locs = (doc: Document, parent: string) =>
+    Array.from(doc.getElementsByTagName(parent)).map(el => el.getElementsByTagName('loc')[0]?.textContent?.trim() || '').filter(Boolean);
+
+  const root = await read(sitemapUrl);
+  const children = locs(root, 'sitemap').slice(0, SITEMAP_MAX_CHILDREN);
+  const urls = locs(root, 'url');
+  for (const child of children) {
+    urls.push(...locs(await read(child), 'url'));
+  }
+  return Array.from(new Set(urls));
+};
+
+const csvCell = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export const saveQueueToCsv = (items: SaveQueueItem[]): string => {
+  const header = ['url', 'status', 'attempts', 'job_id', 'capture_timestamp', 'wayback_url', 'resources', 'outlinks', 'message', 'added_at', 'updated_at'];
+  const rows = items.map(item => [
+    item.url,
+    item.status,
+    item.attempts,
+    item.job?.jobId || '',
+    item.job?.timestamp || '',
+    item.job?.timestamp ? `https://web.archive.org/web/${item.job.timestamp}/${item.job.originalUrl || item.url}` : '',
+    item.job?.resources.length ?? '',
+    item.job?.outlinks.length ?? '',
+    item.message || '',
+    new Date(item.addedAt).toISOString(),
+    new Date(item.updatedAt).toISOString(),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,239 @@
+import { SNAPSHOT_ASSET_CONCURRENCY, SNAPSHOT_MAX_ASSETS } from '../constants';
+import { SavedSnapshot, SnapshotAsset, SnapshotAssetSummary } from '../types';
+import { CaptureModifier, downloadCaptureAsset } from './waybackService';
+import { isAbortError, runConcurrently } from './httpClient';
+import { storageService } from './storageService';
+
+interface AssetReference {
+  url: string;
+  modifier: CaptureModifier;
+}
+
+// Elements whose attribute loads a resource the page needs to render. Frames are
+// left out; they are documents of their own. Scripts are neither saved nor replayed:
+// archived code must never run next to the app's keys and databases.
+const HTML_REFERENCES: { selector: string; attribute: string; modifier: CaptureModifier; srcset?: boolean }[] = [
+  { selector: 'img[src], input[type="image"][src]', attribute: 'src', modifier: 'im_' },
+  { selector: 'img[srcset], source[srcset]', attribute: 'srcset', modifier: 'im_', srcset: true },
+  { selector: 'video[poster]', attribute: 'poster', modifier: 'im_' },
+  { selector: 'source[src], video[src], audio[src], embed[src]', attribute: 'src', modifier: 'id_' },
+  { selector: 'link[rel~="stylesheet"][href]', attribute: 'href', modifier: 'cs_' },
+  { selector: 'link[rel~="icon"][href]', attribute: 'href', modifier: 'im_' },
+];
+
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+const CSS_IMPORT = /@import\s+(['"])(.*?)\1/gi;
+const FONT_FILE = /\.(woff2?|ttf|otf|eot)(\?|#|$)/i;
+const WAYBACK_REFERENCE = /^https?:\/\/(?:web\.)?archive\.org\/web\/\d+[a-z]{0,2}_?\/(.+)$/i;
+
+const isStylesheet = (asset: Pick<SnapshotAsset, 'mimetype' | 'url'>) =>
+  asset.mimetype === 'text/css' || /\.css(\?|$)/i.test(asset.url);
+
+/**
+ * The original absolute URL a reference points to, or null for data:, blob:,
+ * fragment and other non-http references. References the Wayback Machine
+ * rewrote (`/web/<timestamp>im_/http://…`) are unwrapped.
+ */
+const resolveReference = (reference: string, base: string): string | null => {
+  const value = reference.trim();
+  if (!value || value.startsWith('#')) return null;
+  try {
+    const url = new URL(value, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    const unwrapped = url.toString().match(WAYBACK_REFERENCE);
+    return unwrapped ? unwrapped[1] : url.toString();
+  } catch (e) {
+    return null;
+  }
+};
+
+const srcsetUrls = (srcset: string) => srcset.split(',').map(part => part.trim().split(/\s+/)[0]).filter(Boolean);
+
+const rewriteSrcset = (srcset: string, rewrite: (reference: string) => string) =>
+  srcset.split(',').map(part => {
+    const [reference, ...descriptors] = part.trim().split(/\s+/);
+    return [rewrite(reference), ...descriptors].join(' ');
+  }).join(', ');
+
+const cssReferences = (css: string, base: string): AssetReference[] => {
+  const references: AssetReference[] = [];
+  for (const match of css.matchAll(CSS_IMPORT)) {
+    const url = resolveReference(match[2], base);
+    if (url) references.push({ url, modifier: 'cs_' });
+  }
+  for (const match of css.matchAll(CSS_URL)) {
+    const url = resolveReference(match[2], base);
+    if (url) references.push({ url, modifier: FONT_FILE.test(url) ? 'id_' : /\.css(\?|$)/i.test(url) ? 'cs_' : 'im_' });
+  }
+  return references;
+};
+
+const rewriteCss = (css: string, base: string, lookup: (url: string) => string | undefined) =>
+  css
+    .replace(CSS_IMPORT, (whole, quote, reference) => {
+      const target = lookup(resolveReference(reference, base) || '');
+      return target ? `@import ${quote}${target}${quote}` : whole;
+    })
+    .replace(CSS_URL, (whole, quote, reference) => {
+      const target = lookup(resolveReference(reference, base) || '');
+      return target ? `url(${quote}${target}${quote})` : whole;
+    });
+
+// <base href> applies to every relative reference in the document
+const documentBase = (doc: Document, pageUrl: string) => {
+  try {
+    return new URL(doc.querySelector('base[href]')?.getAttribute('href') || '', pageUrl).toString();
+  } catch (e) {
+    return pageUrl;
+  }
+};
+
+const htmlReferences = (html: string, pageUrl: string): AssetReference[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const base = documentBase(doc, pageUrl);
+  const references: AssetReference[] = [];
+
+  HTML_REFERENCES.forEach(({ selector, attribute, modifier, srcset }) => {
+    doc.querySelectorAll(selector).forEach(el => {
+      const value = el.getAttribute(attribute) || '';
+      (srcset ? srcsetUrls(value) : [value]).forEach(reference => {
+        const url = resolveReference(reference, base);
+        if (url) references.push({ url, modifier });
+      });
+    });
+  });
+  doc.querySelectorAll('style').forEach(el => references.push(...cssReferences(el.textContent || '', base)));
+  doc.querySelectorAll('[style]').forEach(el => references.push(...cssReferences(el.getAttribute('style') || '', base)));
+  return references;
+};
+
+/**
+ * Downloads the images, stylesheets and fonts `snapshot` references
+ * from the same capture, up to SNAPSHOT_MAX_ASSETS, and stores them with an
+ * updated asset summary on the snapshot. Resources referenced by stylesheets
+ * are followed. Failed downloads are counted, not thrown; cancelling `signal`
+ * abandons the whole save.
+ */
+export const saveSnapshotAssets = async (
+  snapshot: SavedSnapshot,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<SavedSnapshot> => {
+  const seen = new Set<string>();
+  const assets: SnapshotAsset[] = [];
+  let failed = 0;
+  let pending: AssetReference[] = [];
+  const enqueue = (references: AssetReference[]) => references.forEach(reference => {
+    if (seen.has(reference.url) || seen.size >= SNAPSHOT_MAX_ASSETS) return;
+    seen.add(reference.url);
+    pending.push(reference);
+  });
+
+  enqueue(htmlReferences(snapshot.content, snapshot.originalUrl));
+  // Each wave fetches what the previous one discovered, i.e. what stylesheets reference
+  while (pending.length > 0) {
+    const wave = pending;
+    pending = [];
+    await runConcurrently(wave.length, SNAPSHOT_ASSET_CONCURRENCY, async index => {
+      const { url, modifier } = wave[index];
+      try {
+        const { blob, mimetype } = await downloadCaptureAsset(snapshot.timestamp, url, modifier, signal);
+        assets.push({ key: `${snapshot.id}|${url}`, snapshotId: snapshot.id, url, mimetype, blob, fetchedAt: Date.now() });
+        if (isStylesheet({ mimetype, url })) {
+          enqueue(cssReferences(await blob.text(), `https://web.archive.org/web/${snapshot.timestamp}cs_/${url}`));
+        }
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.warn(`Could not save asset ${url}`, e);
+        failed++;
+      } finally {
+        onProgress?.(assets.length + failed, seen.size);
+      }
+    }, signal);
+    if (signal?.aborted) throw new DOMException('The request was cancelled.', 'AbortError');
+  }
+
+  const summary: SnapshotAssetSummary = {
+    count: assets.length,
+    bytes: assets.reduce((sum, asset) => sum + asset.blob.size, 0),
+    failed,
+    savedAt: Date.now(),
+  };
+  const updated = { ...snapshot, assets: summary };
+  await storageService.saveSnapshotAssets(updated, assets);
+  return updated;
+};
+
+export interface OfflinePreview {
+  html: string;
+  // Releases the object URLs the preview points at
+  revoke: () => void;
+}
+
+/**
+ * Rebuilds the snapshot's page from stored assets: every stored reference is
+ * rewritten to an object URL, stylesheets included, and links point at the
+ * capture on the Wayback Machine. References without a stored asset are left
+ * as they were. Scripts and inline event handlers are stripped.
+ */
+export const buildOfflinePreview = async (snapshot: SavedSnapshot): Promise<OfflinePreview> => {
+  const assets = new Map((await storageService.getSnapshotAssets(snapshot.id)).map(asset => [asset.url, asset]));
+  const objectUrls = new Map<string, string>();
+
+  // Stylesheets are rewritten before they get a URL of their own, so imported sheets resolve too
+  const resolving = new Set<string>();
+  const urlFor = async (url: string): Promise<string | undefined> => {
+    const asset = assets.get(url);
+    if (!asset || resolving.has(url)) return objectUrls.get(url);
+    if (objectUrls.has(url)) return objectUrls.get(url);
+
+    let blob = asset.blob;
+    if (isStylesheet(asset)) {
+      resolving.add(url);
+      const css = await asset.blob.text();
+      const base = `https://web.archive.org/web/${snapshot.timestamp}cs_/${url}`;
+      for (const reference of cssReferences(css, base)) await urlFor(reference.url);
+      blob = new Blob([rewriteCss(css, base, target => objectUrls.get(target))], { type: 'text/css' });
+      resolving.delete(url);
+    }
+    objectUrls.set(url, URL.createObjectURL(blob));
+    return objectUrls.get(url);
+  };
+  for (const url of assets.keys()) await urlFor(url);
+
+  const doc = new DOMParser().parseFromString(snapshot.content, 'text/html');
+  doc.querySelectorAll('script').forEach(el => el.remove());
+  doc.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      if (/^on/i.test(attr.name)) el.removeAttribute(attr.name);
+    });
+  });
+  const base = documentBase(doc, snapshot.originalUrl);
+  const rewrite = (reference: string) => objectUrls.get(resolveReference(reference, base) || '') || reference;
+
+  HTML_REFERENCES.forEach(({ selector, attribute, srcset }) => {
+    doc.querySelectorAll(selector).forEach(el => {
+      const value = el.getAttribute(attribute) || '';
+      el.setAttribute(attribute, srcset ? rewriteSrcset(value, rewrite) : rewrite(value));
+    });
+  });
+  const lookup = (url: string) => objectUrls.get(url);
+  doc.querySelectorAll('style').forEach(el => (el.textContent = rewriteCss(el.textContent || '', base, lookup)));
+  doc.querySelectorAll('[style]').forEach(el => el.setAttribute('style', rewriteCss(el.getAttribute('style') || '', base, lookup)));
+  doc.querySelectorAll('a[href]').forEach(el => {
+    const url = resolveReference(el.getAttribute('href') || '', base);
+    if (url) el.setAttribute('href', `https://web.archive.org/web/${snapshot.timestamp}/${url}`);
+  });
+
+  // References are absolute now; the base only opens links outside the preview
+  doc.querySelectorAll('base').forEach(el => el.remove());
+  const baseTag = doc.createElement('base');
+  baseTag.setAttribute('target', '_blank');
+  doc.head.prepend(baseTag);
+
+  return {
+    html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+    revoke: () => objectUrls.forEach(url => URL.revokeObjectURL(url)),
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { applyMigrations, latestVersion, Migration, MIGRATIONS, validateMigrations } from './storageMigrations';
+
+const step = (version: number, log: number[] = []): Migration => ({
+  version,
+  description: `Step ${version}`,
+  up: () => {
+    log.push(version);
+  },
+});
+
+// applyMigrations only hands these through to the steps
+const db = {} as IDBDatabase;
+const transaction = {} as IDBTransaction;
+
+describe('validateMigrations', () => {
+  it('accepts the built-in migrations', () => {
+    expect(() => validateMigrations(MIGRATIONS)).not.toThrow();
+    expect(latestVersion(MIGRATIONS)).toBe(7);
+  });
+
+  it('rejects a gap between versions', () => {
+    expect(() => validateMigrations([step(1), step(3)])).toThrow('Step 3" has version 3, expected 2');
+  });
+
+  it('rejects duplicate versions', () => {
+    expect(() => validateMigrations([step(1), step(1)])).toThrow('has version 1, expected 2');
+  });
+
+  it('rejects a list that does not start at version 1', () => {
+    expect(() => validateMigrations([step(2), step(3)])).toThrow('expected 1');
+  });
+});
+
+describe('applyMigrations', () => {
+  it('runs only the steps above the old version, in order', () => {
+    const log: number[] = [];
+    applyMigrations(db, transaction, 1, 3, [step(1, log), step(2, log), step(3, log), step(4, log)]);
+    expect(log).toEqual([2, 3]);
+  });
+
+  it('names the step that failed', () => {
+    const broken: Migration = { version: 2, description: 'Broken', up: () => { throw new Error('boom'); } };
+    expect(() => applyMigrations(db, transaction, 0, 2, [step(1), broken])).toThrow('Storage migration to v2 (Broken) failed: boom');
+  });
+});
@@ -0,0 +1,128 @@
+import { DEFAULT_SNAPSHOT_ORGANIZATION } from '../constants';
+
+export const STORE_NAME = 'snapshots';
+export const CACHE_STORE_NAME = 'responses';
+export const FIXTURE_STORE_NAME = 'fixtures';
+export const SAVE_QUEUE_STORE_NAME = 'saveQueue';
+export const ASSET_STORE_NAME = 'assets';
+export const SEARCH_DOC_STORE_NAME = 'searchDocuments';
+export const SEARCH_POSTING_STORE_NAME = 'searchPostings';
+
+/**
+ * One schema step of OmniDashDB. `up` runs inside the upgrade transaction, so
+ * it can add stores and indexes and rewrite existing records; anything it
+ * throws aborts the whole upgrade and leaves the database at its old version.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Rewrites every record of a store; returning undefined leaves a record as it is
+export const updateRecords = <T>(transaction: IDBTransaction, storeName: string, update: (record: T) => T | undefined) => {
+  transaction.objectStore(storeName).openCursor().onsuccess = (e) => {
+    const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const updated = update(cursor.value as T);
+    if (updated !== undefined) cursor.update(updated);
+    cursor.continue();
+  };
+};
+
+// Append only: released versions must never change, or databases already past them drift from fresh ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Snapshot library',
+    up: db => {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp', { unique: false });
+      store.createIndex('originalUrl', 'originalUrl', { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description: 'Response cache',
+    up: db => {
+      const store = db.createObjectStore(CACHE_STORE_NAME, { keyPath: 'key' });
+      store.createIndex('endpoint', 'endpoint', { unique: false });
+      store.createIndex('fetchedAt', 'fetchedAt', { unique: false });
+    },
+  },
+  {
+    version: 3,
+    description: 'Demo Mode fixtures',
+    up: db => {
+      const store = db.createObjectStore(FIXTURE_STORE_NAME, { keyPath: 'key' });
+      store.createIndex('recordedAt', 'recordedAt', { unique: false });
+    },
+  },
+  {
+    version: 4,
+    description: 'SavePageNow queue',
+    up: db => {
+      const store = db.createObjectStore(SAVE_QUEUE_STORE_NAME, { keyPath: 'id' });
+      store.createIndex('status', 'status', { unique: false });
+      store.createIndex('addedAt', 'addedAt', { unique: false });
+    },
+  },
+  {
+    version: 5,
+    description: 'Snapshot assets',
+    up: db => {
+      const store = db.createObjectStore(ASSET_STORE_NAME, { keyPath: 'key' });
+      store.createIndex('snapshotId', 'snapshotId', { unique: false });
+    },
+  },
+  {
+    version: 6,
+    description: 'Library search index',
+    up: db => {
+      db.createObjectStore(SEARCH_DOC_STORE_NAME, { keyPath: 'snapshotId' });
+      const postings = db.createObjectStore(SEARCH_POSTING_STORE_NAME, { keyPath: 'key' });
+      postings.createIndex('term', 'term', { unique: false });
+      postings.createIndex('snapshotId', 'snapshotId', { unique: false });
+    },
+  },
+  {
+    version: 7,
+    description: 'Snapshot tags, folders, notes and stars',
+    up: (db, transaction) => {
+      const store = transaction.objectStore(STORE_NAME);
+      store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+      store.createIndex('folder', 'folder', { unique: false });
+      updateRecords<object>(transaction, STORE_NAME, snapshot => ({ ...DEFAULT_SNAPSHOT_ORGANIZATION, ...snapshot }));
+    },
+  },
+];
+
+/** Throws unless versions start at 1 and go up by one, so no step can be skipped or run twice. */
+export const validateMigrations = (migrations: Migration[]) => {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Storage migration "${migration.description}" has version ${migration.version}, expected ${i + 1}`);
+    }
+  });
+};
+
+export const latestVersion = (migrations: Migration[]) => migrations.length;
+
+/** Runs, in order, the steps between the database's version and the one being opened. */
+export const applyMigrations = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: Migration[] = MIGRATIONS
+) => {
+  migrations
+    .filter(migration => migration.version > oldVersion && migration.version <= newVersion)
+    .forEach(migration => {
+      try {
+        migration.up(db, transaction);
+      } catch (e) {
+        throw new Error(`Storage migration to v${migration.version} (${migration.description}) failed: ${e instanceof Error ? e.message : e}`, { cause: e });
+      }
+    });
+};
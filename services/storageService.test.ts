@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { CachedResponse, SavedSnapshot } from '../types';
+import { Migration, MIGRATIONS, STORE_NAME } from './storageMigrations';
+import { StorageService, StorageState } from './storageService';
+
+const DB_NAME = 'OmniDashTestDB';
+
+// A snapshot as saved before v7, without tags, folder, notes or star
+const LEGACY_SNAPSHOT = {
+  id: '1',
+  originalUrl: 'https://example.com/',
+  timestamp: '20200101000000',
+  content: '<html></html>',
+  mimetype: 'text/html',
+  savedAt: 1,
+} as unknown as SavedSnapshot;
+
+// Opens the database without upgrading it, to inspect what the service left behind
+const openRaw = (factory: IDBFactory, version?: number): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, version);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readAll = (db: IDBDatabase, storeName: string): Promise<unknown[]> =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const watchStates = (service: StorageService): StorageState[] => {
+  const states: StorageState[] = [];
+  service.subscribe(status => states.push(status.state));
+  return states;
+};
+
+// A database left at v1 by an older build, holding one snapshot
+const createV1Database = async (factory: IDBFactory) => {
+  const v1 = new StorageService({ factory, name: DB_NAME, migrations: MIGRATIONS.slice(0, 1) });
+  await v1.saveSnapshot(LEGACY_SNAPSHOT);
+  return v1;
+};
+
+describe('StorageService migrations', () => {
+  it('creates every store on a fresh install', async () => {
+    const factory = new IDBFactory();
+    const service = new StorageService({ factory, name: DB_NAME });
+    await service.init();
+
+    expect(service.getStatus()).toEqual({ state: 'ready', version: 7 });
+    const db = await openRaw(factory);
+    expect(db.version).toBe(7);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(
+      ['assets', 'fixtures', 'responses', 'saveQueue', 'searchDocuments', 'searchPostings', 'snapshots']
+    );
+    db.close();
+  });
+
+  it('upgrades a v1 database and backfills the organization fields', async () => {
+    const factory = new IDBFactory();
+    const v1 = await createV1Database(factory);
+    const service = new StorageService({ factory, name: DB_NAME });
+
+    const [snapshot] = await service.getAllSnapshots();
+    expect(snapshot).toMatchObject({ id: '1', tags: [], folder: '', notes: '', starred: false });
+    expect(service.getStatus().version).toBe(7);
+    // The old connection made way for the upgrade
+    expect(v1.getStatus().state).toBe('outdated');
+
+    const db = await openRaw(factory);
+    const indexes = Array.from(db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).indexNames);
+    expect(indexes).toEqual(expect.arrayContaining(['tags', 'folder']));
+    db.close();
+  });
+
+  it('rolls back a failing step and leaves the old version in place', async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+    const broken: Migration = {
+      version: 2,
+      description: 'Broken',
+      up: db => {
+        db.createObjectStore('halfDone');
+        throw new Error('boom');
+      },
+    };
+    const service = new StorageService({ factory, name: DB_NAME, migrations: [MIGRATIONS[0], broken] });
+
+    await expect(service.init()).rejects.toThrow('Storage migration to v2 (Broken) failed: boom');
+    expect(service.getStatus().state).toBe('failed');
+
+    const db = await openRaw(factory);
+    expect(db.version).toBe(1);
+    expect(db.objectStoreNames.contains('halfDone')).toBe(false);
+    expect(await readAll(db, STORE_NAME)).toHaveLength(1);
+    db.close();
+  });
+});
+
+describe('StorageService across tabs', () => {
+  it('reports an upgrade blocked by another connection until it closes', async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+    // Another tab's connection that does not give way on versionchange
+    const other = await openRaw(factory);
+    const service = new StorageService({ factory, name: DB_NAME });
+    const states = watchStates(service);
+
+    const init = service.init();
+    await expect.poll(() => service.getStatus().state).toBe('blocked');
+    other.close();
+    await init;
+
+    expect(states).toEqual(['closed', 'blocked', 'upgrading', 'ready']);
+  });
+
+  it('becomes outdated when another tab upgrades past it', async () => {
+    const factory = new IDBFactory();
+    const service = new StorageService({ factory, name: DB_NAME });
+    await service.init();
+
+    const newer = await openRaw(factory, 8);
+    expect(service.getStatus().state).toBe('outdated');
+
+    await expect(service.init()).rejects.toThrow('upgraded by a newer version of OmniDash in another tab');
+    expect(service.getStatus()).toMatchObject({ state: 'outdated', version: null });
+    newer.close();
+  });
+});
+
+describe('StorageService response cache', () => {
+  const entry = (key: string, fetchedAt: number): CachedResponse =>
+    ({ key, endpoint: 'cdx', url: `https://example.com/${key}`, data: [], fetchedAt, proxy: null });
+
+  it('prunes the entries picked and the oldest beyond the cap', async () => {
+    const service = new StorageService({ factory: new IDBFactory(), name: DB_NAME });
+    for (const [key, fetchedAt] of [['a', 1], ['b', 2], ['c', 3], ['d', 4], ['expired', 5]] as const) {
+      await service.putCachedResponse(entry(key, fetchedAt));
+    }
+
+    const deleted = await service.pruneCachedResponses(cached => cached.key === 'expired', 2);
+
+    expect(deleted).toBe(3);
+    expect((await service.getAllCachedResponses()).map(cached => cached.key)).toEqual(['d', 'c']);
+  });
+});
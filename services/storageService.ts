@@ -1,44 +1,161 @@
-import { SavedSnapshot } from '../types';
+import { SavedSnapshot, CachedResponse, Fixture, SaveQueueItem, SnapshotAsset, SearchDocument, SearchPosting } from '../types';
+import {
+  applyMigrations,
+  ASSET_STORE_NAME,
+  CACHE_STORE_NAME,
+  FIXTURE_STORE_NAME,
+  latestVersion,
+  Migration,
+  MIGRATIONS,
+  SAVE_QUEUE_STORE_NAME,
+  SEARCH_DOC_STORE_NAME,
+  SEARCH_POSTING_STORE_NAME,
+  STORE_NAME,
+  validateMigrations,
+} from './storageMigrations';
 
 const DB_NAME = 'OmniDashDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'snapshots';
 
-class StorageService {
+// 'blocked': an upgrade waits for other tabs to close their connection.
+// 'outdated': another tab moved the database to a newer version; this one needs a reload.
+export type StorageState = 'closed' | 'upgrading' | 'blocked' | 'ready' | 'outdated' | 'failed';
+
+export interface StorageStatus {
+  state: StorageState;
+  // Version of the open database, null while none is open
+  version: number | null;
+  message?: string;
+}
+
+type StatusListener = (status: StorageStatus) => void;
+
+export interface StorageServiceOptions {
+  // Defaults to the browser's indexedDB; tests pass an in-memory implementation
+  factory?: IDBFactory;
+  name?: string;
+  migrations?: Migration[];
+}
+
+// Deletes the records of a store's `snapshotId` index that belong to one snapshot
+const deleteBySnapshotId = (transaction: IDBTransaction, storeName: string, snapshotId: string) => {
+  const store = transaction.objectStore(storeName);
+  store.index('snapshotId').openKeyCursor(IDBKeyRange.only(snapshotId)).onsuccess = (e) => {
+    const cursor = (e.target as IDBRequest<IDBCursor | null>).result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export class StorageService {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
+  private status: StorageStatus = { state: 'closed', version: null };
+  private listeners = new Set<StatusListener>();
+  private factory?: IDBFactory;
+  private name: string;
+  private migrations: Migration[];
+
+  constructor(options: StorageServiceOptions = {}) {
+    this.factory = options.factory;
+    this.name = options.name ?? DB_NAME;
+    this.migrations = options.migrations ?? MIGRATIONS;
+    validateMigrations(this.migrations);
+  }
 
   async init(): Promise<void> {
     if (this.db) return;
     if (this.initPromise) return this.initPromise;
 
     this.initPromise = new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const version = latestVersion(this.migrations);
+      let migrationError: Error | null = null;
+      let request: IDBOpenDBRequest;
+      try {
+        request = (this.factory ?? indexedDB).open(this.name, version);
+      } catch (e) {
+        this.initPromise = null;
+        this.setStatus({ state: 'failed', version: null, message: e instanceof Error ? e.message : String(e) });
+        return reject(e);
+      }
 
       request.onerror = () => {
         this.initPromise = null;
-        reject(request.error);
+        // A tab still running older code cannot open a database another tab has already upgraded
+        if (request.error?.name === 'VersionError') {
+          const message = 'The Library database was upgraded by a newer version of OmniDash in another tab. Reload this page to keep using it.';
+          this.setStatus({ state: 'outdated', version: null, message });
+          return reject(new Error(message, { cause: request.error }));
+        }
+        const error = migrationError || request.error;
+        this.setStatus({ state: 'failed', version: null, message: error?.message });
+        reject(error);
       };
 
-      request.onsuccess = () => {
-        this.db = request.result;
-        this.initPromise = null;
-        resolve();
+      // Fires while other tabs hold the old version open; the upgrade resumes once they close it
+      request.onblocked = () => {
+        this.setStatus({ state: 'blocked', version: null, message: 'Close other OmniDash tabs to finish upgrading the Library database.' });
       };
 
       request.onupgradeneeded = (e) => {
-        const db = (e.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-          store.createIndex('timestamp', 'timestamp', { unique: false });
-          store.createIndex('originalUrl', 'originalUrl', { unique: false });
+        const upgrade = request.transaction!;
+        this.setStatus({ state: 'upgrading', version: null });
+        try {
+          applyMigrations(request.result, upgrade, e.oldVersion, e.newVersion ?? version, this.migrations);
+        } catch (err) {
+          // Aborting rolls back every step, so the database stays intact at its old version
+          migrationError = err instanceof Error ? err : new Error(String(err));
+          upgrade.abort();
         }
       };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let another tab upgrade or delete the database instead of blocking it; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          this.release(db, { state: 'outdated', version: null, message: 'The Library database changed in another tab. Reload this page if it stops working.' });
+        };
+        // The browser closed the connection itself, e.g. because site data was cleared
+        db.onclose = () => this.release(db, { state: 'closed', version: null });
+        this.db = db;
+        this.initPromise = null;
+        this.setStatus({ state: 'ready', version: db.version });
+        resolve();
+      };
     });
 
     return this.initPromise;
   }
 
+  getStatus(): StorageStatus {
+    return this.status;
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private release(db: IDBDatabase, status: StorageStatus) {
+    if (this.db !== db) return;
+    this.db = null;
+    this.setStatus(status);
+  }
+
+  private setStatus(status: StorageStatus) {
+    this.status = status;
+    this.notify();
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
   async saveSnapshot(snapshot: SavedSnapshot): Promise<void> {
     await this.init();
     return new Promise((resolve, reject) => {
@@ -95,18 +212,436 @@ class StorageService {
     });
   }
 
-  async deleteSnapshot(id: string): Promise<void> {
+  // Applies `changes` to the stored snapshot as it is now, so concurrent edits of other fields survive
+  async updateSnapshot(id: string, changes: Partial<SavedSnapshot>): Promise<SavedSnapshot> {
     await this.init();
     return new Promise((resolve, reject) => {
       if (!this.db) return reject('Database not initialized');
       try {
         const transaction = this.db.transaction([STORE_NAME], 'readwrite');
         const store = transaction.objectStore(STORE_NAME);
+        const request = store.get(id);
+        let updated: SavedSnapshot;
+
+        request.onsuccess = () => {
+          if (!request.result) {
+            transaction.abort();
+            return reject(new Error(`Snapshot ${id} no longer exists`));
+          }
+          updated = { ...request.result, ...changes, id };
+          store.put(updated);
+        };
+        transaction.oncomplete = () => resolve(updated);
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  // Removes the snapshot together with its stored assets and search entries
+  async deleteSnapshot(id: string): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([STORE_NAME, ASSET_STORE_NAME, SEARCH_DOC_STORE_NAME, SEARCH_POSTING_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
         const request = store.delete(id);
+        deleteBySnapshotId(transaction, ASSET_STORE_NAME, id);
+        transaction.objectStore(SEARCH_DOC_STORE_NAME).delete(id);
+        deleteBySnapshotId(transaction, SEARCH_POSTING_STORE_NAME, id);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        request.onerror = () => reject(request.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([CACHE_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(CACHE_STORE_NAME);
+        const request = store.get(key);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async putCachedResponse(entry: CachedResponse): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([CACHE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(CACHE_STORE_NAME);
+        const request = store.put(entry);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        request.onerror = () => reject(request.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getAllCachedResponses(): Promise<CachedResponse[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([CACHE_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(CACHE_STORE_NAME);
+        const request = store.getAll();
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const results = request.result as CachedResponse[];
+          results.sort((a, b) => b.fetchedAt - a.fetchedAt);
+          resolve(results);
+        };
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async deleteCachedResponse(key: string): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([CACHE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(CACHE_STORE_NAME);
+        const request = store.delete(key);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        request.onerror = () => reject(request.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async clearCachedResponses(): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([CACHE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(CACHE_STORE_NAME);
+        const request = store.clear();
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        request.onerror = () => reject(request.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  // Walks the cache newest first, deleting entries `isPrunable` picks and any beyond the
+  // newest `maxEntries`. Resolves to the number of entries deleted.
+  async pruneCachedResponses(isPrunable: (entry: CachedResponse) => boolean, maxEntries: number): Promise<number> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([CACHE_STORE_NAME], 'readwrite');
+        const index = transaction.objectStore(CACHE_STORE_NAME).index('fetchedAt');
+        let kept = 0;
+        let deleted = 0;
+        index.openCursor(null, 'prev').onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          if (kept >= maxEntries || isPrunable(cursor.value as CachedResponse)) {
+            cursor.delete();
+            deleted++;
+          } else {
+            kept++;
+          }
+          cursor.continue();
+        };
+
+        transaction.oncomplete = () => resolve(deleted);
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getFixture(key: string): Promise<Fixture | undefined> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([FIXTURE_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(FIXTURE_STORE_NAME);
+        const request = store.get(key);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async putFixtures(fixtures: Fixture[]): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([FIXTURE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(FIXTURE_STORE_NAME);
+        fixtures.forEach(fixture => store.put(fixture));
 
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getAllFixtures(): Promise<Fixture[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([FIXTURE_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(FIXTURE_STORE_NAME);
+        const request = store.getAll();
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const results = request.result as Fixture[];
+          results.sort((a, b) => b.recordedAt - a.recordedAt);
+          resolve(results);
+        };
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async deleteFixture(key: string): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([FIXTURE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(FIXTURE_STORE_NAME);
+        const request = store.delete(key);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        request.onerror = () => reject(request.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async clearFixtures(): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([FIXTURE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(FIXTURE_STORE_NAME);
+        const request = store.clear();
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        request.onerror = () => reject(request.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getSaveQueue(): Promise<SaveQueueItem[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SAVE_QUEUE_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(SAVE_QUEUE_STORE_NAME);
+        const request = store.getAll();
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const results = request.result as SaveQueueItem[];
+          results.sort((a, b) => a.addedAt - b.addedAt);
+          resolve(results);
+        };
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async putSaveQueueItems(items: SaveQueueItem[]): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SAVE_QUEUE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(SAVE_QUEUE_STORE_NAME);
+        items.forEach(item => store.put(item));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async deleteSaveQueueItems(ids: string[]): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SAVE_QUEUE_STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(SAVE_QUEUE_STORE_NAME);
+        ids.forEach(id => store.delete(id));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  // Stores a snapshot's assets and its updated summary in one transaction. Only the
+  // summary is written to a stored snapshot; edits made during the download are kept.
+  async saveSnapshotAssets(snapshot: SavedSnapshot, assets: SnapshotAsset[]): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([STORE_NAME, ASSET_STORE_NAME], 'readwrite');
+        const assetStore = transaction.objectStore(ASSET_STORE_NAME);
+        assets.forEach(asset => assetStore.put(asset));
+        const store = transaction.objectStore(STORE_NAME);
+        const current = store.get(snapshot.id);
+        current.onsuccess = () => store.put(current.result ? { ...current.result, assets: snapshot.assets } : snapshot);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getSnapshotAssets(snapshotId: string): Promise<SnapshotAsset[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([ASSET_STORE_NAME], 'readonly');
+        const index = transaction.objectStore(ASSET_STORE_NAME).index('snapshotId');
+        const request = index.getAll(IDBKeyRange.only(snapshotId));
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result as SnapshotAsset[]);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  // Replaces a snapshot's search document and postings in one transaction
+  async putSearchEntries(document: SearchDocument, postings: SearchPosting[]): Promise<void> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SEARCH_DOC_STORE_NAME, SEARCH_POSTING_STORE_NAME], 'readwrite');
+        const postingStore = transaction.objectStore(SEARCH_POSTING_STORE_NAME);
+        const cleared = postingStore.index('snapshotId').getAllKeys(IDBKeyRange.only(document.snapshotId));
+        cleared.onsuccess = () => {
+          cleared.result.forEach(key => postingStore.delete(key));
+          postings.forEach(posting => postingStore.put(posting));
+        };
+        transaction.objectStore(SEARCH_DOC_STORE_NAME).put(document);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  // Postings whose term falls in `terms`: one term, or a prefix range
+  async getSearchPostings(terms: IDBKeyRange): Promise<SearchPosting[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SEARCH_POSTING_STORE_NAME], 'readonly');
+        const request = transaction.objectStore(SEARCH_POSTING_STORE_NAME).index('term').getAll(terms);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result as SearchPosting[]);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getSearchDocuments(snapshotIds: string[]): Promise<SearchDocument[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SEARCH_DOC_STORE_NAME], 'readonly');
+        const store = transaction.objectStore(SEARCH_DOC_STORE_NAME);
+        const documents: SearchDocument[] = [];
+        snapshotIds.forEach(id => {
+          store.get(id).onsuccess = (e) => {
+            const document = (e.target as IDBRequest<SearchDocument | undefined>).result;
+            if (document) documents.push(document);
+          };
+        });
+
+        transaction.oncomplete = () => resolve(documents);
+        transaction.onerror = () => reject(transaction.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async getIndexedSnapshotIds(): Promise<string[]> {
+    await this.init();
+    return new Promise((resolve, reject) => {
+      if (!this.db) return reject('Database not initialized');
+      try {
+        const transaction = this.db.transaction([SEARCH_DOC_STORE_NAME], 'readonly');
+        const request = transaction.objectStore(SEARCH_DOC_STORE_NAME).getAllKeys();
+
         request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result.map(String));
       } catch (e) {
         reject(e);
       }
@@ -0,0 +1,141 @@
+import { UrlInventoryEntry } from '../types';
+
+export interface UrlTreeNode {
+  // Path segment, or the host for top-level nodes
+  name: string;
+  // What a prefix CDX query for everything below this node looks like, e.g. "example.com/blog/"
+  prefix: string;
+  children: UrlTreeNode[];
+  // URLs archived at exactly this path (several when only the query string or a trailing slash differs)
+  entries: UrlInventoryEntry[];
+  // Totals over this node and everything below it
+  urls: number;
+  captures: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  // Captures per status code; each URL counts under the status of its first capture
+  statusCaptures: Record<string, number>;
+}
+
+/** "com,example,blog:8080" -> "blog.example.com:8080" */
+const surtHostToHost = (surtHost: string) => {
+  const [host, port] = surtHost.split(':');
+  return host.split(',').filter(Boolean).reverse().join('.') + (port ? `:${port}` : '');
+};
+
+/**
+ * Splits a urlkey ("com,example)/blog/post?page=2") into the host and the path
+ * segments of the tree. The query string stays on the last segment so query
+ * variants show up as siblings.
+ */
+export const parseUrlKey = (urlkey: string): { host: string; segments: string[] } => {
+  const close = urlkey.indexOf(')');
+  if (close === -1) return { host: urlkey, segments: [] };
+  const rest = urlkey.slice(close + 1);
+  const queryAt = rest.indexOf('?');
+  const path = queryAt === -1 ? rest : rest.slice(0, queryAt);
+  const segments = path.split('/').filter(Boolean);
+  if (queryAt !== -1) {
+    const query = rest.slice(queryAt);
+    if (segments.length) segments[segments.length - 1] += query;
+    else segments.push(query);
+  }
+  return { host: surtHostToHost(urlkey.slice(0, close)), segments };
+};
+
+const createNode = (name: string, prefix: string): UrlTreeNode => ({
+  name,
+  prefix,
+  children: [],
+  entries: [],
+  urls: 0,
+  captures: 0,
+  firstTimestamp: '',
+  lastTimestamp: '',
+  statusCaptures: {},
+});
+
+/** Folds entries sharing a urlkey (a collapsed group split across CDX pages) into one. */
+export const mergeInventory = (entries: UrlInventoryEntry[]): UrlInventoryEntry[] => {
+  const byKey = new Map<string, UrlInventoryEntry>();
+  entries.forEach(entry => {
+    const existing = byKey.get(entry.urlkey);
+    if (!existing) {
+      byKey.set(entry.urlkey, entry);
+      return;
+    }
+    byKey.set(entry.urlkey, {
+      ...existing,
+      captures: existing.captures + entry.captures,
+      firstTimestamp: entry.firstTimestamp < existing.firstTimestamp ? entry.firstTimestamp : existing.firstTimestamp,
+      lastTimestamp: entry.lastTimestamp > existing.lastTimestamp ? entry.lastTimestamp : existing.lastTimestamp,
+    });
+  });
+  return Array.from(byKey.values());
+};
+
+// Adds up children first so every node carries the totals of its subtree
+const summarize = (node: UrlTreeNode) => {
+  node.children.sort((a, b) => a.name.localeCompare(b.name));
+  const parts = [
+    ...node.entries.map(e => ({ urls: 1, captures: e.captures, first: e.firstTimestamp, last: e.lastTimestamp, status: { [e.statuscode]: e.captures } })),
+    ...node.children.map(child => {
+      summarize(child);
+      return { urls: child.urls, captures: child.captures, first: child.firstTimestamp, last: child.lastTimestamp, status: child.statusCaptures };
+    }),
+  ];
+  parts.forEach(part => {
+    node.urls += part.urls;
+    node.captures += part.captures;
+    if (!node.firstTimestamp || part.first < node.firstTimestamp) node.firstTimestamp = part.first;
+    if (part.last > node.lastTimestamp) node.lastTimestamp = part.last;
+    Object.entries(part.status).forEach(([status, count]) => {
+      node.statusCaptures[status] = (node.statusCaptures[status] || 0) + count;
+    });
+  });
+};
+
+/** Arranges a site inventory as host -> directory -> page nodes. Returns one root per host. */
+export const buildUrlTree = (entries: UrlInventoryEntry[]): UrlTreeNode[] => {
+  const roots: UrlTreeNode[] = [];
+  const nodes = new Map<string, UrlTreeNode>();
+
+  mergeInventory(entries).forEach(entry => {
+    const { host, segments } = parseUrlKey(entry.urlkey);
+    let node = nodes.get(host);
+    if (!node) {
+      node = createNode(host, `${host}/`);
+      nodes.set(host, node);
+      roots.push(node);
+    }
+    for (const segment of segments) {
+      const prefix = `${node.prefix}${segment}/`;
+      let child = nodes.get(prefix);
+      if (!child) {
+        child = createNode(segment, prefix);
+        nodes.set(prefix, child);
+        node.children.push(child);
+      }
+      node = child;
+    }
+    node.entries.push(entry);
+  });
+
+  roots.sort((a, b) => a.name.localeCompare(b.name));
+  roots.forEach(summarize);
+  return roots;
+};
+
+/** The status code with the most captures below `node`. */
+export const dominantStatus = (node: UrlTreeNode): string =>
+  Object.entries(node.statusCaptures).sort((a, b) => b[1] - a[1])[0]?.[0] || '-';
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+export const urlInventoryToCsv = (entries: UrlInventoryEntry[]): string => {
+  const header = ['url', 'urlkey', 'mimetype', 'status', 'captures', 'first_capture', 'last_capture'];
+  const rows = mergeInventory(entries)
+    .sort((a, b) => a.urlkey.localeCompare(b.urlkey))
+    .map(e => [e.original, e.urlkey, e.mimetype, e.statuscode, e.captures, e.firstTimestamp, e.lastTimestamp].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CDX_OPTIONS } from '../constants';
+import { buildCDXUrl } from './waybackService';
+
+const paramsOf = (api: string) => new URL(api).searchParams;
+
+describe('buildCDXUrl', () => {
+  it('asks for JSON with the fixed field list and leaves defaults out', () => {
+    const api = buildCDXUrl('example.com/page?a=1&b=2');
+    expect(api.startsWith('https://web.archive.org/cdx/search/cdx?')).toBe(true);
+
+    const params = paramsOf(api);
+    expect(params.get('url')).toBe('example.com/page?a=1&b=2');
+    expect(params.get('output')).toBe('json');
+    expect(params.get('fl')).toBe('urlkey,timestamp,original,mimetype,statuscode,digest,length');
+    ['matchType', 'from', 'to', 'filter', 'collapse', 'fastLatest', 'limit', 'showResumeKey'].forEach(name => {
+      expect(params.has(name)).toBe(false);
+    });
+  });
+
+  it('encodes matchType, the date range, limit and fastLatest', () => {
+    const params = paramsOf(buildCDXUrl('example.com', {
+      ...DEFAULT_CDX_OPTIONS,
+      matchType: 'prefix',
+      from: '2010-01',
+      to: '2012-12-31 23:59:59 extra',
+      fastLatest: true,
+      limit: -10,
+    }));
+    expect(params.get('matchType')).toBe('prefix');
+    // Separators are dropped and timestamps cut to 14 digits
+    expect(params.get('from')).toBe('201001');
+    expect(params.get('to')).toBe('20121231235959');
+    expect(params.get('fastLatest')).toBe('true');
+    expect(params.get('limit')).toBe('-10');
+  });
+
+  it('adds one filter per non-empty pattern, negated with "!"', () => {
+    const params = paramsOf(buildCDXUrl('example.com', {
+      ...DEFAULT_CDX_OPTIONS,
+      filters: [
+        { field: 'statuscode', pattern: '200', negate: false },
+        { field: 'mimetype', pattern: ' text/.*&more ', negate: true },
+        { field: 'original', pattern: '   ', negate: false },
+      ],
+    }));
+    expect(params.getAll('filter')).toEqual(['statuscode:200', '!mimetype:text/.*&more']);
+  });
+
+  it('collapses on a field or its first characters', () => {
+    expect(paramsOf(buildCDXUrl('example.com', { ...DEFAULT_CDX_OPTIONS, collapse: { field: 'digest' } })).get('collapse')).toBe('digest');
+    expect(paramsOf(buildCDXUrl('example.com', { ...DEFAULT_CDX_OPTIONS, collapse: { field: 'timestamp', length: 8 } })).get('collapse')).toBe('timestamp:8');
+  });
+
+  it('requests a resume key for the first page and passes it on afterwards', () => {
+    const first = paramsOf(buildCDXUrl('example.com', DEFAULT_CDX_OPTIONS, null));
+    expect(first.get('showResumeKey')).toBe('true');
+    expect(first.has('resumeKey')).toBe(false);
+
+    const next = paramsOf(buildCDXUrl('example.com', DEFAULT_CDX_OPTIONS, 'com,example)/ 20200101000000+='));
+    expect(next.get('showResumeKey')).toBe('true');
+    expect(next.get('resumeKey')).toBe('com,example)/ 20200101000000+=');
+  });
+});
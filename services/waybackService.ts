@@ -1,31 +1,39 @@
-import { API_BASE, PROXY_OPTIONS } from '../constants';
-import { WaybackAvailability, CDXRecord } from '../types';
-import { getMockAvailability, getMockCDX } from './mockService';
+import { API_BASE, CDX_FIELDS, CDX_PAGE_SIZE, DEFAULT_CDX_OPTIONS, DEFAULT_SPN_OPTIONS, NEIGHBOR_CAPTURES, PROXY_OPTIONS, SPN_POLL_INTERVAL_MS, SPN_POLL_TIMEOUT_MS } from '../constants';
+import { WaybackAvailability, CDXRecord, CDXMatchType, CDXQueryOptions, Provenance, SavedSnapshot, SPNJob, SPNOptions, SPNUserStatus, UrlInventoryEntry } from '../types';
+import { getMockAsset, getMockAvailability, getMockCaptureSummary, getMockCDX, getMockSnapshotHtml, getMockUrlInventory } from './mockService';
+import { errorFromResponse, hasServerCredentials, httpRequest, isAbortError, isDemoMode, isProxyConfigured, sleep } from './httpClient';
+import { ApiError, isApiError } from './errors';
+import { withCache } from './cacheService';
+import { liveProvenance, mockFallbackOrThrow, mockProvenance } from './provenance';
+import { hasFixture } from './fixtureService';
 
-const getSettings = () => {
-  try {
-    const settings = localStorage.getItem('omnidash_settings');
-    return settings ? JSON.parse(settings) : {};
-  } catch(e) { return {}; }
-};
-
-const isDemoMode = () => !!getSettings().demoMode;
+export interface CDXResponse {
+  records: CDXRecord[];
+  provenance: Provenance;
+}
 
-const getProxiedUrl = (url: string) => {
-  const { corsProxy } = getSettings();
-  if (corsProxy && corsProxy.trim().length > 0) {
-      return `${corsProxy}${url}`;
-  }
-  return url;
-};
+export interface SnapshotContent {
+  // Decoded text for text types; empty for binary captures, whose bytes are in `blob`
+  content: string;
+  blob?: Blob;
+  // Content type the capture was served with, without parameters
+  mimetype: string;
+  provenance: Provenance;
+}
 
-export const checkAvailability = async (url: string): Promise<WaybackAvailability> => {
-  if (isDemoMode()) {
-     return new Promise(resolve => setTimeout(() => resolve(getMockAvailability(url)), 700));
+/**
+ * Finds the capture of `url` closest to `timestamp` (YYYYMMDDhhmmss), or the
+ * most recent one without it.
+ */
+export const checkAvailability = async (url: string, timestamp?: string, signal?: AbortSignal): Promise<WaybackAvailability> => {
+  const target = `${API_BASE.WAYBACK_AVAILABLE}?url=${encodeURIComponent(url)}${timestamp ? `&timestamp=${timestamp}` : ''}`;
+  if (isDemoMode() && !(await hasFixture(target))) {
+     await sleep(700, signal);
+     return { ...getMockAvailability(url, timestamp), provenance: mockProvenance(target, 'demo') };
   }
 
   // Helper to construct response from CDX data
-  const createFromCDX = (cdxRow: any[]): WaybackAvailability => {
+  const createFromCDX = (cdxRow: any[], provenance: Provenance): WaybackAvailability => {
       const timestamp = cdxRow[1];
       const original = cdxRow[2];
       const status = cdxRow[4];
@@ -38,168 +46,688 @@ export const checkAvailability = async (url: string): Promise<WaybackAvailabilit
                   timestamp: timestamp,
                   url: `http://web.archive.org/web/${timestamp}/${original}`
               }
-          }
+          },
+          provenance
       };
   };
 
   try {
     // 1. Try standard Availability API
-    const target = `${API_BASE.WAYBACK_AVAILABLE}?url=${encodeURIComponent(url)}`;
-    const res = await fetch(getProxiedUrl(target));
+    const res = await httpRequest(target, { signal });
     
     if (res.ok) {
         const data = await res.json();
         // If successful and has data, return it
         if (data && data.archived_snapshots && data.archived_snapshots.closest) {
-            return data;
+            return { ...data, provenance: await liveProvenance(target) };
         }
     }
     
     // 2. Fallback: If Availability API failed or returned empty, try CDX "Last 1" strategy
-    // limit=-1 fetches the most recent capture
+    // limit=-1 fetches the most recent capture; with a timestamp, sort=closest puts the nearest first
     console.log("Standard availability check empty/failed, falling back to CDX...");
-    const cdxUrl = `${API_BASE.CDX}?url=${encodeURIComponent(url)}&output=json&limit=-1&fl=urlkey,timestamp,original,mimetype,statuscode,digest,length`;
-    const cdxRes = await fetch(getProxiedUrl(cdxUrl));
-
-    if (cdxRes.ok) {
-        const cdxJson = await cdxRes.json();
-        // CDX JSON is [[headers], [data]]
-        if (Array.isArray(cdxJson) && cdxJson.length > 1) {
-            return createFromCDX(cdxJson[1]);
-        }
+    const selection = timestamp ? `sort=closest&closest=${timestamp}&limit=1` : 'limit=-1';
+    const cdxUrl = `${API_BASE.CDX}?url=${encodeURIComponent(url)}&output=json&${selection}&fl=urlkey,timestamp,original,mimetype,statuscode,digest,length`;
+    const cdxRes = await httpRequest(cdxUrl, { signal });
+
+    if (!cdxRes.ok) throw errorFromResponse(cdxRes, cdxUrl, 'Availability check');
+    const cdxJson = await cdxRes.json();
+    // CDX JSON is [[headers], [data]]
+    if (Array.isArray(cdxJson) && cdxJson.length > 1) {
+        return createFromCDX(cdxJson[1], await liveProvenance(cdxUrl));
     }
 
     // If both failed to find data, return empty state
     return {
         url,
-        archived_snapshots: {}
+        archived_snapshots: {},
+        provenance: await liveProvenance(cdxUrl)
     };
 
   } catch (error) {
-    console.error("Availability Check Error (Falling back to mock):", error);
-    // Explicitly notify in console that we are mocking due to error
-    console.warn("Returning MOCK data because the live API call failed. Check your CORS Proxy settings.");
-    return getMockAvailability(url);
+    // Mock data only replaces the error when "Mock data fallback" is enabled in Settings
+    const { data, provenance } = mockFallbackOrThrow(error, target, () => getMockAvailability(url, timestamp));
+    return { ...data, provenance };
   }
 };
 
-export const fetchCDX = async (url: string, limit: number = 3000): Promise<CDXRecord[]> => {
-  if (isDemoMode()) {
-      return new Promise(resolve => setTimeout(() => resolve(getMockCDX(url)), 800));
+/**
+ * Builds the CDX server query for `url`. Exported so the query builder can show
+ * the exact URL that will be requested. Passing `resumeKey` (null for the first
+ * page) asks the server for a key to continue from.
+ */
+export const buildCDXUrl = (url: string, options: CDXQueryOptions = DEFAULT_CDX_OPTIONS, resumeKey?: string | null): string => {
+  // CDX is fussy about protocols sometimes, but usually passing the full URL is best.
+  const params = new URLSearchParams({ url, output: 'json' });
+  if (options.matchType !== 'exact') params.set('matchType', options.matchType);
+
+  // The server accepts 1-14 digit timestamps; anything else is dropped rather than rejected
+  const from = options.from.replace(/\D/g, '').slice(0, 14);
+  const to = options.to.replace(/\D/g, '').slice(0, 14);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+
+  options.filters
+    .filter(f => f.pattern.trim())
+    .forEach(f => params.append('filter', `${f.negate ? '!' : ''}${f.field}:${f.pattern.trim()}`));
+
+  if (options.collapse) {
+    const { field, length } = options.collapse;
+    params.append('collapse', length ? `${field}:${length}` : field);
   }
+  if (options.fastLatest) params.set('fastLatest', 'true');
 
-  try {
-    // Basic clean of URL for CDX to ensure we hit the index
-    // CDX is fussy about protocols sometimes, but usually passing the full URL is best.
-    const encodedUrl = encodeURIComponent(url);
-    const api = `${API_BASE.CDX}?url=${encodedUrl}&output=json&limit=${limit}&fl=urlkey,timestamp,original,mimetype,statuscode,digest,length`;
-    
-    const res = await fetch(getProxiedUrl(api));
-    if (!res.ok) {
-        throw new Error(`CDX fetch failed with status: ${res.status}`);
-    }
+  // 0 means "no limit"
+  if (options.limit) params.set('limit', String(options.limit));
+  params.set('fl', CDX_FIELDS.join(','));
+
+  if (resumeKey !== undefined) {
+    params.set('showResumeKey', 'true');
+    if (resumeKey) params.set('resumeKey', resumeKey);
+  }
+  return `${API_BASE.CDX}?${params.toString()}`;
+};
+
+interface CDXPage {
+  // Column names from the first JSON row
+  header: string[];
+  rows: string[][];
+  resumeKey: string | null;
+  provenance: Provenance;
+}
+
+const requestCDXPage = async (api: string, signal?: AbortSignal): Promise<CDXPage> => {
+  const { data, provenance } = await withCache('cdx', api, async () => {
+    const res = await httpRequest(api, { signal });
+    if (!res.ok) throw errorFromResponse(res, api, 'CDX fetch');
     
     const contentType = res.headers.get("content-type");
     if (!contentType || !contentType.includes("application/json")) {
         const text = await res.text();
         if (text.length === 0) return []; 
-        throw new Error("Received non-JSON response from CDX API");
+        throw new ApiError('non-json', "Received non-JSON response from CDX API", { url: api, status: res.status, contentType: contentType || undefined });
+    }
+
+    return await res.json();
+  });
+
+  if (!Array.isArray(data) || data.length <= 1) return { header: [], rows: [], resumeKey: null, provenance };
+
+  // With showResumeKey the rows end with an empty row followed by [resumeKey]
+  let rows: string[][] = data.slice(1);
+  let resumeKey: string | null = null;
+  const separator = rows.findIndex(row => row.length === 0);
+  if (separator !== -1) {
+    resumeKey = rows[separator + 1]?.[0] || null;
+    rows = rows.slice(0, separator);
+  }
+
+  return { header: data[0], rows, resumeKey, provenance };
+};
+
+const toCDXRecord = (row: string[]): CDXRecord => ({
+  urlkey: row[0],
+  timestamp: row[1],
+  original: row[2],
+  mimetype: row[3],
+  statuscode: row[4],
+  digest: row[5],
+  length: row[6]
+});
+
+export const fetchCDX = async (url: string, options: CDXQueryOptions = DEFAULT_CDX_OPTIONS, signal?: AbortSignal): Promise<CDXResponse> => {
+  const api = buildCDXUrl(url, options);
+
+  if (isDemoMode() && !(await hasFixture(api))) {
+      await sleep(800, signal);
+      return { records: getMockCDX(url), provenance: mockProvenance(api, 'demo') };
+  }
+
+  try {
+    const { rows, provenance } = await requestCDXPage(api, signal);
+    return { records: rows.map(toCDXRecord), provenance };
+  } catch (error) {
+    const { data, provenance } = mockFallbackOrThrow(error, api, () => getMockCDX(url));
+    return { records: data, provenance };
+  }
+};
+
+export interface CDXProgress {
+  records: number;
+  pages: number;
+  // Upper bound from the query's limit, null when unbounded
+  limit: number | null;
+}
+
+/**
+ * Retrieves every capture matching the query, CDX_PAGE_SIZE rows at a time via
+ * resumeKey, handing each page to `onPage` as it arrives. Cancelling `signal`
+ * stops after the current page; pages already delivered are kept by the caller.
+ */
+export const streamCDX = async (
+  url: string,
+  options: CDXQueryOptions,
+  onPage: (records: CDXRecord[], progress: CDXProgress, provenance: Provenance) => void,
+  signal?: AbortSignal
+): Promise<CDXProgress> => {
+  const limit = options.limit > 0 ? options.limit : null;
+  const progress: CDXProgress = { records: 0, pages: 0, limit };
+
+  // "Last N" queries (negative limit, fastLatest) are answered in a single request
+  if (options.limit < 0 || options.fastLatest) {
+    const { records, provenance } = await fetchCDX(url, options, signal);
+    const done = { records: records.length, pages: 1, limit: Math.abs(options.limit) || null };
+    onPage(records, done, provenance);
+    return done;
+  }
+
+  let resumeKey: string | null = null;
+  do {
+    const pageSize = limit ? Math.min(CDX_PAGE_SIZE, limit - progress.records) : CDX_PAGE_SIZE;
+    const api = buildCDXUrl(url, { ...options, limit: pageSize }, resumeKey);
+
+    let page: { records: CDXRecord[]; resumeKey: string | null; provenance: Provenance };
+    if (isDemoMode() && !(await hasFixture(api))) {
+      await sleep(800, signal);
+      page = { records: getMockCDX(url), resumeKey: null, provenance: mockProvenance(api, 'demo') };
+    } else {
+      try {
+        const { rows, resumeKey, provenance } = await requestCDXPage(api, signal);
+        page = { records: rows.map(toCDXRecord), resumeKey, provenance };
+      } catch (error) {
+        // Only the first page may be replaced by mock data; later failures keep what was loaded
+        if (progress.pages > 0) throw error;
+        const { data, provenance } = mockFallbackOrThrow(error, api, () => getMockCDX(url));
+        page = { records: data, resumeKey: null, provenance };
+      }
     }
 
-    const json = await res.json();
-    if (Array.isArray(json) && json.length > 1) {
-       return json.slice(1).map((row: string[]) => ({
-         urlkey: row[0],
-         timestamp: row[1],
-         original: row[2],
-         mimetype: row[3],
-         statuscode: row[4],
-         digest: row[5],
-         length: row[6]
-       }));
+    progress.records += page.records.length;
+    progress.pages++;
+    onPage(page.records, { ...progress }, page.provenance);
+    resumeKey = page.resumeKey;
+  } while (resumeKey && (!limit || progress.records < limit) && !signal?.aborted);
+
+  return progress;
+};
+
+export interface CaptureNeighbors {
+  // Nearest first on both sides; a capture at exactly the requested moment counts as "before"
+  before: CDXRecord[];
+  after: CDXRecord[];
+  provenance: Provenance;
+}
+
+/**
+ * The NEIGHBOR_CAPTURES captures on either side of `timestamp`, so the closest
+ * capture can be shown with its distance to the requested moment and what
+ * surrounds it. `onlyOk` skips redirects and errors.
+ */
+export const fetchCaptureNeighbors = async (url: string, timestamp: string, onlyOk: boolean, signal?: AbortSignal): Promise<CaptureNeighbors> => {
+  const base: CDXQueryOptions = { ...DEFAULT_CDX_OPTIONS, filters: onlyOk ? [{ field: 'statuscode', pattern: '200', negate: false }] : [] };
+  const [before, after] = await Promise.all([
+    fetchCDX(url, { ...base, to: timestamp, limit: -NEIGHBOR_CAPTURES }, signal),
+    fetchCDX(url, { ...base, from: timestamp, limit: NEIGHBOR_CAPTURES }, signal),
+  ]);
+
+  // Applied again locally, since mock data doesn't honour the query
+  const matches = (r: CDXRecord) => !onlyOk || r.statuscode === '200';
+  return {
+    before: before.records
+      .filter(r => matches(r) && r.timestamp <= timestamp)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, NEIGHBOR_CAPTURES),
+    after: after.records
+      .filter(r => matches(r) && r.timestamp > timestamp)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(0, NEIGHBOR_CAPTURES),
+    provenance: before.provenance,
+  };
+};
+
+export type UrlInventoryScope = Exclude<CDXMatchType, 'exact'>;
+
+// With showSkipCount/lastSkipTimestamp each collapsed row also carries its group size and last capture
+const toInventoryEntry = (header: string[]) => {
+  const column = (name: string, fallback: number) => (header.indexOf(name) !== -1 ? header.indexOf(name) : fallback);
+  const skipCount = column('skipcount', CDX_FIELDS.length);
+  const endTimestamp = column('endtimestamp', CDX_FIELDS.length + 1);
+  return (row: string[]): UrlInventoryEntry => {
+    const skipped = parseInt(row[skipCount], 10) || 0;
+    return {
+      urlkey: row[0],
+      original: row[2],
+      mimetype: row[3],
+      statuscode: row[4],
+      captures: skipped + 1,
+      firstTimestamp: row[1],
+      lastTimestamp: skipped && /^\d+$/.test(row[endTimestamp] || '') ? row[endTimestamp] : row[1],
+    };
+  };
+};
+
+/**
+ * Lists every distinct URL archived under `url` from a `collapse=urlkey` query,
+ * one row per URL instead of one per capture, streamed page by page like
+ * `streamCDX`. A group cut by a page boundary arrives as two entries with the
+ * same urlkey; `buildUrlTree` merges them.
+ */
+export const streamUrlInventory = async (
+  url: string,
+  scope: UrlInventoryScope,
+  onPage: (entries: UrlInventoryEntry[], progress: CDXProgress, provenance: Provenance) => void,
+  signal?: AbortSignal
+): Promise<CDXProgress> => {
+  const options: CDXQueryOptions = { ...DEFAULT_CDX_OPTIONS, matchType: scope, collapse: { field: 'urlkey' }, limit: CDX_PAGE_SIZE };
+  const progress: CDXProgress = { records: 0, pages: 0, limit: null };
+
+  let resumeKey: string | null = null;
+  do {
+    const api = `${buildCDXUrl(url, options, resumeKey)}&showSkipCount=true&lastSkipTimestamp=true`;
+
+    let page: { entries: UrlInventoryEntry[]; resumeKey: string | null; provenance: Provenance };
+    if (isDemoMode() && !(await hasFixture(api))) {
+      await sleep(800, signal);
+      page = { entries: getMockUrlInventory(url), resumeKey: null, provenance: mockProvenance(api, 'demo') };
+    } else {
+      try {
+        const { header, rows, resumeKey, provenance } = await requestCDXPage(api, signal);
+        page = { entries: rows.map(toInventoryEntry(header)), resumeKey, provenance };
+      } catch (error) {
+        if (progress.pages > 0) throw error;
+        const { data, provenance } = mockFallbackOrThrow(error, api, () => getMockUrlInventory(url));
+        page = { entries: data, resumeKey: null, provenance };
+      }
     }
-    return [];
+
+    progress.records += page.entries.length;
+    progress.pages++;
+    onPage(page.entries, { ...progress }, page.provenance);
+    resumeKey = page.resumeKey;
+  } while (resumeKey && !signal?.aborted);
+
+  return progress;
+};
+
+export interface CaptureSummary {
+  // null when the URL was never captured
+  entry: UrlInventoryEntry | null;
+  provenance: Provenance;
+}
+
+/**
+ * First and last capture of exactly `url` and how many there are, read from a
+ * single `collapse=urlkey` row instead of listing every capture.
+ */
+export const fetchCaptureSummary = async (url: string, signal?: AbortSignal): Promise<CaptureSummary> => {
+  const api = `${buildCDXUrl(url, { ...DEFAULT_CDX_OPTIONS, collapse: { field: 'urlkey' } })}&showSkipCount=true&lastSkipTimestamp=true`;
+  if (isDemoMode() && !(await hasFixture(api))) {
+    await sleep(500, signal);
+    return { entry: getMockCaptureSummary(url), provenance: mockProvenance(api, 'demo') };
+  }
+
+  try {
+    const { header, rows, provenance } = await requestCDXPage(api, signal);
+    // One row for an exact match; a group split by the server is summed back together
+    const entry = rows.map(toInventoryEntry(header)).reduce<UrlInventoryEntry | null>((merged, next) => merged ? {
+      ...merged,
+      captures: merged.captures + next.captures,
+      lastTimestamp: next.lastTimestamp > merged.lastTimestamp ? next.lastTimestamp : merged.lastTimestamp,
+    } : next, null);
+    return { entry, provenance };
   } catch (error) {
-    console.error("CDX Error (Falling back to mock):", error);
-    return getMockCDX(url);
+    const { data, provenance } = mockFallbackOrThrow(error, api, () => getMockCaptureSummary(url));
+    return { entry: data, provenance };
   }
 };
 
-export const downloadSnapshotContent = async (waybackUrl: string): Promise<string> => {
-    if (isDemoMode()) {
-        return "<html><body><h1>Mock Content</h1><p>This is mock HTML content for demo mode.</p></body></html>";
+export interface ContentVersion {
+  digest: string;
+  statuscode: string;
+  first: CDXRecord;
+  last: CDXRecord;
+  captures: number;
+  // Epoch ms of the first capture and of the first capture of the next version
+  // (the last capture for the current version)
+  start: number;
+  end: number;
+  current: boolean;
+}
+
+export const parseWaybackTimestamp = (ts: string): number => {
+  const padded = ts.padEnd(14, '0');
+  return Date.UTC(
+    Number(padded.slice(0, 4)), Number(padded.slice(4, 6)) - 1, Number(padded.slice(6, 8)) || 1,
+    Number(padded.slice(8, 10)), Number(padded.slice(10, 12)), Number(padded.slice(12, 14))
+  );
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Two largest units, e.g. "3 days 4 h" or "12 min"; enough to judge whether a capture is citable
+const formatSpan = (ms: number) => {
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((ms % HOUR_MS) / MINUTE_MS);
+  if (days >= 365) return `${(days / 365).toFixed(1)} years`;
+  if (days > 0) return `${days} day${days === 1 ? '' : 's'}${hours ? ` ${hours} h` : ''}`;
+  if (hours > 0) return `${hours} h${minutes ? ` ${minutes} min` : ''}`;
+  if (minutes > 0) return `${minutes} min`;
+  return `${Math.round(ms / 1000)} s`;
+};
+
+/** How far `timestamp` lies from `target`, e.g. "3 days 4 h before". */
+export const describeCaptureOffset = (timestamp: string, target: string): string => {
+  const delta = parseWaybackTimestamp(timestamp) - parseWaybackTimestamp(target);
+  if (delta === 0) return 'exactly at the chosen moment';
+  return `${formatSpan(Math.abs(delta))} ${delta < 0 ? 'before' : 'after'}`;
+};
+
+/**
+ * Collapses consecutive captures with the same digest into versions. Each
+ * boundary between two versions is a point where the archived content changed.
+ * Expects the captures of a single URL.
+ */
+export const buildContentVersions = (records: CDXRecord[]): ContentVersion[] => {
+  const sorted = [...records].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const versions: ContentVersion[] = [];
+
+  sorted.forEach(record => {
+    const latest = versions[versions.length - 1];
+    if (latest && latest.digest === record.digest) {
+      latest.last = record;
+      latest.captures++;
+      return;
     }
+    const start = parseWaybackTimestamp(record.timestamp);
+    if (latest) latest.end = start;
+    versions.push({ digest: record.digest, statuscode: record.statuscode, first: record, last: record, captures: 1, start, end: start, current: false });
+  });
 
-    // Insert 'id_' into the timestamp to request the raw archived content without the Wayback toolbar.
-    // Example: /web/20230101000000/http://... -> /web/20230101000000id_/http://...
-    const rawUrl = waybackUrl.replace(/(\/web\/\d+)/, '$1id_');
+  const latest = versions[versions.length - 1];
+  if (latest) {
+    latest.end = parseWaybackTimestamp(latest.last.timestamp);
+    latest.current = true;
+  }
+  return versions;
+};
+
+/** Whether captures of this content type are kept as text rather than bytes. */
+export const isTextMimetype = (mimetype: string) =>
+  /^text\/|^application\/([\w.-]+\+)?(json|xml)$|javascript|ecmascript/i.test(mimetype);
 
-    const { corsProxy } = getSettings();
-    const isProxied = corsProxy && corsProxy.trim().length > 0;
+// Snapshots saved before binary support hold page source whatever their recorded type
+export const isHtmlSnapshot = (snapshot: Pick<SavedSnapshot, 'blob' | 'mimetype'>) =>
+  !snapshot.blob && (/html/.test(snapshot.mimetype) || !isTextMimetype(snapshot.mimetype));
+
+const CAPTURE_EXTENSIONS: Record<string, string> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/plain': 'txt',
+  'text/css': 'css',
+  'text/csv': 'csv',
+  'application/json': 'json',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/zip': 'zip',
+};
+
+/** File name for a downloaded capture, with an extension matching its content type. */
+export const captureFileName = (originalUrl: string, timestamp: string, mimetype: string) =>
+  `wayback-${timestamp}-${originalUrl.replace(/[^a-z0-9]/gi, '_').slice(0, 30)}.${CAPTURE_EXTENSIONS[mimetype] || 'bin'}`;
+
+// Fetches a raw capture URL, falling back to a public CORS proxy when the browser blocks the direct request
+const fetchRawCapture = async (rawUrl: string, context: string, signal?: AbortSignal): Promise<{ res: Response; provenance: Provenance }> => {
+    const isProxied = await isProxyConfigured();
 
     try {
-        const res = await fetch(getProxiedUrl(rawUrl));
-        if (!res.ok) {
-            throw new Error(`Failed to download content: ${res.statusText} (Status ${res.status})`);
-        }
-        return await res.text();
-    } catch (e: any) {
-         // Check for typical CORS/Network errors
-         if (!isProxied && (e.message.includes('NetworkError') || e.message.includes('Failed to fetch') || e.name === 'TypeError')) {
+        const res = await httpRequest(rawUrl, { signal });
+        if (!res.ok) throw errorFromResponse(res, rawUrl, context);
+        return { res, provenance: await liveProvenance(rawUrl) };
+    } catch (e) {
+         if (isAbortError(e)) throw e;
+         // Direct fetches of raw captures are usually blocked by CORS
+         if (!isProxied && isApiError(e, 'network')) {
              
              console.log("Direct fetch blocked by CORS. Attempting automatic fallback via AllOrigins...");
              try {
                  // Fallback to a public proxy specifically for this operation to improve UX
                  // AllOrigins is good for simple text content
                  const fallbackUrl = `${PROXY_OPTIONS.ALL_ORIGINS}${encodeURIComponent(rawUrl)}`;
-                 const resFallback = await fetch(fallbackUrl);
+                 const resFallback = await httpRequest(fallbackUrl, { signal, useProxy: false });
                  if (resFallback.ok) {
-                     return await resFallback.text();
+                     const provenance = await liveProvenance(rawUrl, false);
+                     return { res: resFallback, provenance: { ...provenance, proxy: PROXY_OPTIONS.ALL_ORIGINS } };
                  }
              } catch (fallbackError) {
+                 if (isAbortError(fallbackError)) throw fallbackError;
                  console.error("Fallback proxy also failed", fallbackError);
              }
              
-             throw new Error("CORS Restriction: You must configure a CORS Proxy in Settings to download raw HTML content.");
+             throw new ApiError('network', "CORS Restriction: You must configure a CORS Proxy in Settings to download raw HTML content.", { url: rawUrl, cause: e });
          }
          throw e;
     }
 };
 
-export const savePageNow = async (url: string, accessKey: string, secretKey: string): Promise<{ saved: boolean, message: string }> => {
-  if (isDemoMode()) {
-      return new Promise(resolve => setTimeout(() => resolve({ saved: true, message: "Mock Mode: URL successfully queued for capture." }), 1000));
-  }
+export const downloadSnapshotContent = async (waybackUrl: string, signal?: AbortSignal): Promise<SnapshotContent> => {
+    // Insert 'id_' into the timestamp to request the raw archived content without the Wayback toolbar.
+    // Example: /web/20230101000000/http://... -> /web/20230101000000id_/http://...
+    const rawUrl = waybackUrl.replace(/(\/web\/\d+)/, '$1id_');
 
-  if (!accessKey || !secretKey) {
-    throw new Error("Missing Credentials. Please configure API keys in Settings.");
+    if (isDemoMode() && !(await hasFixture(rawUrl))) {
+        return {
+            content: getMockSnapshotHtml(),
+            mimetype: 'text/html',
+            provenance: mockProvenance(rawUrl, 'demo')
+        };
+    }
+
+    const { res, provenance } = await fetchRawCapture(rawUrl, 'Snapshot download', signal);
+    const blob = await res.blob();
+    const mimetype = (res.headers.get('content-type') || blob.type || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+    return isTextMimetype(mimetype)
+        ? { content: await blob.text(), mimetype, provenance }
+        : { content: '', blob, mimetype, provenance };
+};
+
+// Wayback replay modifiers: raw bytes, and images, stylesheets and scripts served as such
+export type CaptureModifier = 'id_' | 'im_' | 'cs_';
+
+export interface CaptureAsset {
+  blob: Blob;
+  mimetype: string;
+  provenance: Provenance;
+}
+
+/**
+ * Downloads a resource a page references, from the capture nearest
+ * `timestamp`. The Wayback Machine redirects to the closest capture it has of
+ * the resource itself.
+ */
+export const downloadCaptureAsset = async (timestamp: string, url: string, modifier: CaptureModifier, signal?: AbortSignal): Promise<CaptureAsset> => {
+    const rawUrl = `https://web.archive.org/web/${timestamp}${modifier}/${url}`;
+
+    if (isDemoMode() && !(await hasFixture(rawUrl))) {
+        const { body, mimetype } = getMockAsset(url);
+        return { blob: new Blob([body], { type: mimetype }), mimetype, provenance: mockProvenance(rawUrl, 'demo') };
+    }
+
+    const { res, provenance } = await fetchRawCapture(rawUrl, 'Asset download', signal);
+    const blob = await res.blob();
+    const mimetype = (res.headers.get('content-type') || blob.type || 'application/octet-stream').split(';')[0].trim();
+    return { blob, mimetype, provenance };
+};
+
+// SPN2 limit errors; everything else is a failure of the capture itself
+const SPN_LIMIT_ERRORS = ['error:user-session-limit', 'error:too-many-daily-captures', 'error:too-many-requests'];
+
+export const buildSavePageNowBody = (url: string, options: SPNOptions = DEFAULT_SPN_OPTIONS): string => {
+  const params = new URLSearchParams({ url, capture_all: '1' });
+  if (options.captureOutlinks) params.set('capture_outlinks', '1');
+  if (options.captureScreenshot) params.set('capture_screenshot', '1');
+  if (options.ifNotArchivedWithin.trim()) params.set('if_not_archived_within', options.ifNotArchivedWithin.trim());
+  if (options.skipFirstArchive) params.set('skip_first_archive', '1');
+  if (options.delayWbAvailability) params.set('delay_wb_availability', '1');
+  return params.toString();
+};
+
+/**
+ * Authorization for SavePageNow. With server-side keys the bundled proxy signs
+ * the request, so none are sent from here; replayed fixtures need no keys at all.
+ */
+const getSaveHeaders = async (accessKey: string, secretKey: string): Promise<Record<string, string>> => {
+  const serverCredentials = await hasServerCredentials();
+  if (!isDemoMode() && !serverCredentials && (!accessKey || !secretKey)) {
+    throw new ApiError('auth-missing', "Missing Credentials. Please configure API keys in Settings.", { url: API_BASE.WAYBACK_SAVE });
   }
+  return {
+    'Accept': 'application/json',
+    ...(serverCredentials || !accessKey ? {} : { 'Authorization': `LOW ${accessKey}:${secretKey}` })
+  };
+};
 
+const readSaveJson = async (res: Response, url: string): Promise<any> => {
+  if (res.status === 401 || res.status === 403 || res.status === 429 || res.status >= 500) {
+    throw errorFromResponse(res, url, 'Capture');
+  }
+  const text = await res.text();
   try {
-    // Note: SavePageNow is a POST request. Proxies often handle POST, but some simple ones might not.
-    // We attempt to use the proxy here as well.
-    const target = API_BASE.WAYBACK_SAVE;
-    
-    const res = await fetch(getProxiedUrl(target), {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `LOW ${accessKey}:${secretKey}`,
-        'Content-Type': 'application/x-www-form-urlencoded'
-      },
-      body: `url=${encodeURIComponent(url)}&capture_all=1`
-    });
-    
-    if (res.ok) {
-       return { saved: true, message: "Capture request submitted." };
-    } else {
-       const text = await res.text();
-       if (text.includes('<!DOCTYPE html>')) {
-           throw new Error(`Capture failed (Status ${res.status}). CORS Proxy may be required.`);
-       }
-       throw new Error(text || `Capture failed with status ${res.status}`);
-    }
+    return JSON.parse(text);
   } catch (e) {
-    throw e;
+    if (text.includes('<!DOCTYPE html>')) {
+      throw new ApiError('non-json', `Capture failed (Status ${res.status}). CORS Proxy may be required.`, { url, status: res.status, contentType: 'text/html' });
+    }
+    throw new ApiError('unknown', text || `Capture failed with status ${res.status}`, { url, status: res.status });
+  }
+};
+
+// Outlinks come back as a list, or as a map of URL to job_id when capture_outlinks is set
+const toUrlList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : value && typeof value === 'object' ? Object.keys(value) : [];
+
+/**
+ * Submits a capture to SavePageNow 2. Returns the queued job; when the page was
+ * archived recently enough (if_not_archived_within) no job is started and the
+ * existing capture is reported as finished.
+ */
+export const savePageNow = async (
+  url: string,
+  accessKey: string,
+  secretKey: string,
+  options: SPNOptions = DEFAULT_SPN_OPTIONS,
+  signal?: AbortSignal
+): Promise<SPNJob> => {
+  const target = API_BASE.WAYBACK_SAVE;
+  const body = buildSavePageNowBody(url, options);
+
+  if (isDemoMode() && !(await hasFixture(target, 'POST', body))) {
+      await sleep(1000, signal);
+      return { jobId: `demo-${Date.now()}`, status: 'pending', message: "Mock Mode: URL successfully queued for capture.", resources: [], outlinks: [] };
+  }
+
+  const headers = await getSaveHeaders(accessKey, secretKey);
+  // Never retry: a repeated POST would queue the capture twice
+  const res = await httpRequest(target, {
+    signal,
+    retries: 0,
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  });
+  const data = await readSaveJson(res, target);
+
+  if (data.status === 'error' || (!res.ok && !data.job_id)) {
+    const message = data.message || `Capture failed with status ${res.status}`;
+    const kind = SPN_LIMIT_ERRORS.includes(data.status_ext) ? 'rate-limited' : 'upstream';
+    throw new ApiError(kind, message, { url: target, status: res.status });
+  }
+  if (!data.job_id) {
+    return { jobId: null, status: 'success', message: data.message, timestamp: data.timestamp, originalUrl: url, resources: [], outlinks: [] };
   }
-};
\ No newline at end of file
+  return { jobId: data.job_id, status: 'pending', message: data.message || "Capture request submitted.", resources: [], outlinks: [] };
+};
+
+export const fetchSaveStatus = async (jobId: string, accessKey: string, secretKey: string, signal?: AbortSignal): Promise<SPNJob> => {
+  const target = `${API_BASE.WAYBACK_SAVE}/status/${encodeURIComponent(jobId)}`;
+
+  if (isDemoMode() && !(await hasFixture(target))) {
+      await sleep(1000, signal);
+      return {
+          jobId,
+          status: 'success',
+          timestamp: new Date().toISOString().replace(/\D/g, '').slice(0, 14),
+          resources: ['https://example.com/', 'https://example.com/style.css'],
+          outlinks: ['https://example.com/about'],
+          message: "Mock Mode: capture finished."
+      };
+  }
+
+  const res = await httpRequest(target, { signal, headers: await getSaveHeaders(accessKey, secretKey) });
+  const data = await readSaveJson(res, target);
+  if (!res.ok && !data.status) throw errorFromResponse(res, target, 'Capture status');
+
+  return {
+    jobId,
+    status: data.status === 'success' || data.status === 'error' ? data.status : 'pending',
+    message: data.message,
+    timestamp: data.timestamp,
+    originalUrl: data.original_url,
+    resources: toUrlList(data.resources),
+    outlinks: toUrlList(data.outlinks),
+    screenshot: data.screenshot
+  };
+};
+
+export const fetchSaveUserStatus = async (accessKey: string, secretKey: string, signal?: AbortSignal): Promise<SPNUserStatus> => {
+  const target = `${API_BASE.WAYBACK_SAVE}/status/user`;
+
+  if (isDemoMode() && !(await hasFixture(target))) {
+      await sleep(500, signal);
+      return { available: 5, processing: 1, dailyCaptures: 120, dailyCapturesLimit: 100000, provenance: mockProvenance(target, 'demo') };
+  }
+
+  const res = await httpRequest(target, { signal, headers: await getSaveHeaders(accessKey, secretKey) });
+  const data = await readSaveJson(res, target);
+  if (!res.ok) throw errorFromResponse(res, target, 'Capture quota');
+
+  const limit = Number(data.daily_captures_limit);
+  return {
+    available: Number(data.available) || 0,
+    processing: Number(data.processing) || 0,
+    dailyCaptures: Number(data.daily_captures) || 0,
+    dailyCapturesLimit: Number.isFinite(limit) && limit > 0 ? limit : null,
+    provenance: await liveProvenance(target)
+  };
+};
+
+/**
+ * Polls a SavePageNow job every SPN_POLL_INTERVAL_MS until it succeeds or fails,
+ * reporting each intermediate state to `onUpdate`.
+ */
+export const waitForSaveJob = async (
+  jobId: string,
+  accessKey: string,
+  secretKey: string,
+  onUpdate: (job: SPNJob) => void,
+  signal?: AbortSignal
+): Promise<SPNJob> => {
+  const deadline = Date.now() + SPN_POLL_TIMEOUT_MS;
+  while (true) {
+    const job = await fetchSaveStatus(jobId, accessKey, secretKey, signal);
+    onUpdate(job);
+    if (job.status !== 'pending') return job;
+    if (Date.now() > deadline) {
+      throw new ApiError('upstream', `Capture still pending after ${SPN_POLL_TIMEOUT_MS / 60000} minutes (job ${jobId}).`, { url: API_BASE.WAYBACK_SAVE });
+    }
+    await sleep(SPN_POLL_INTERVAL_MS, signal);
+  }
+};
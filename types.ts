@@ -18,6 +18,7 @@ export interface IAMetadata {
   server?: string;
   uniq?: number;
   workable_servers?: string[];
+  provenance?: Provenance;
 }
 
 export interface IASearchResult {
@@ -39,6 +40,7 @@ export interface WaybackAvailability {
       timestamp: string;
     };
   };
+  provenance?: Provenance;
 }
 
 export interface CDXRecord {
@@ -51,23 +53,235 @@ export interface CDXRecord {
   length: string;
 }
 
+export type CDXField = keyof CDXRecord;
+export type CDXMatchType = 'exact' | 'prefix' | 'host' | 'domain';
+
+// Server-side `filter=[!]field:regex`
+export interface CDXFilter {
+  field: 'statuscode' | 'mimetype' | 'original';
+  pattern: string;
+  negate: boolean;
+}
+
+// Everything the CDX server accepts besides the URL itself
+export interface CDXQueryOptions {
+  matchType: CDXMatchType;
+  // Timestamps of 1-14 digits (YYYY[MMDDhhmmss]); empty means open-ended
+  from: string;
+  to: string;
+  filters: CDXFilter[];
+  // Collapses adjacent rows sharing the field, or its first `length` characters
+  collapse: { field: CDXField; length?: number } | null;
+  fastLatest: boolean;
+  // Maximum rows, 0 for all of them; negative values return the last N captures
+  limit: number;
+}
+
+// One archived URL of a site inventory: a collapse=urlkey CDX row with its collapsed group folded in
+export interface UrlInventoryEntry {
+  urlkey: string;
+  original: string;
+  mimetype: string;
+  // Status of the first capture, the row the collapse kept
+  statuscode: string;
+  captures: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+}
+
+// Capture options accepted by SavePageNow 2
+export interface SPNOptions {
+  captureOutlinks: boolean;
+  captureScreenshot: boolean;
+  // Skip the capture if one exists within this window (e.g. "3h", "2d"); empty to always capture
+  ifNotArchivedWithin: string;
+  skipFirstArchive: boolean;
+  delayWbAvailability: boolean;
+}
+
+export type SPNJobStatus = 'pending' | 'success' | 'error';
+
+// State of a SavePageNow job as reported by /save/status/{job_id}
+export interface SPNJob {
+  jobId: string | null;
+  status: SPNJobStatus;
+  message?: string;
+  // Wayback timestamp of the finished capture
+  timestamp?: string;
+  originalUrl?: string;
+  resources: string[];
+  outlinks: string[];
+  screenshot?: string;
+}
+
+// SavePageNow account limits from /save/status/user
+export interface SPNUserStatus {
+  // Capture sessions that can still be started right now
+  available: number;
+  // Captures currently running for the account
+  processing: number;
+  dailyCaptures: number;
+  // Null when the API doesn't report a daily limit
+  dailyCapturesLimit: number | null;
+  provenance: Provenance;
+}
+
+// 'submitting' until SavePageNow accepts the URL, then 'capturing' while its job is polled
+export type SaveQueueStatus = 'queued' | 'submitting' | 'capturing' | 'success' | 'error';
+
+// A SavePageNow request, persisted so the queue survives reloads
+export interface SaveQueueItem {
+  id: string;
+  url: string;
+  options: SPNOptions;
+  status: SaveQueueStatus;
+  attempts: number;
+  addedAt: number;
+  updatedAt: number;
+  message?: string;
+  job?: SPNJob;
+}
+
 export interface SavedSnapshot {
   id: string;
   url: string;
   originalUrl: string;
   timestamp: string;
   savedAt: number;
+  // Page source for text captures; empty for binary ones
   content: string;
+  // Bytes of binary captures (PDFs, images, archives), stored as served
+  blob?: Blob;
   mimetype: string;
+  provenance?: Provenance;
+  // Set once the page's images, stylesheets and scripts are stored for offline preview
+  assets?: SnapshotAssetSummary;
+  tags: string[];
+  // Slash-separated collection path, e.g. "Research/Climate"; empty for the Library root
+  folder: string;
+  notes: string;
+  starred: boolean;
+}
+
+// The fields users edit to organize their Library
+export type SnapshotOrganization = Pick<SavedSnapshot, 'tags' | 'folder' | 'notes' | 'starred'>;
+
+export interface SnapshotAssetSummary {
+  count: number;
+  bytes: number;
+  // References that could not be fetched; the preview loads these from the Wayback Machine
+  failed: number;
+  savedAt: number;
+}
+
+// A resource of a saved snapshot, keyed by the snapshot and the resource's original URL
+export interface SnapshotAsset {
+  key: string;
+  snapshotId: string;
+  url: string;
+  mimetype: string;
+  blob: Blob;
+  fetchedAt: number;
+}
+
+// What the Library search knows about a snapshot; one per snapshot
+export interface SearchDocument {
+  snapshotId: string;
+  title: string;
+  // Visible text, kept for snippets
+  text: string;
+  host: string;
+  year: string;
+  mimetype: string;
+  // Token positions below this are in the title
+  titleTokens: number;
+  indexedAt: number;
+}
+
+// Where one term occurs in one snapshot, keyed `${term}|${snapshotId}`
+export interface SearchPosting {
+  key: string;
+  term: string;
+  snapshotId: string;
+  positions: number[];
+}
+
+// A flat table exported through ExportModal instead of library snapshots
+export interface ExportReport {
+  title: string;
+  // File name, SQL table and Excel sheet
+  name: string;
+  rows: Record<string, string | number>[];
+  // Rows built from mock data rather than Internet Archive responses
+  mockRows: number;
 }
 
 export type ViewCountData = Record<string, any>;
 
+export type CacheEndpoint = 'metadata' | 'search' | 'cdx' | 'views' | 'timemap';
+
+export interface CachedResponse {
+  key: string;
+  endpoint: CacheEndpoint;
+  url: string;
+  data: any;
+  fetchedAt: number;
+  proxy: string | null;
+}
+
+// 'mock-demo' comes from Demo Mode, 'mock-fallback' replaced a failed live call
+// 'fixture' is a recorded response replayed in Demo Mode
+export type ProvenanceSource = 'live' | 'cached' | 'fixture' | 'mock-demo' | 'mock-fallback';
+
+// Attached to service results so views and exports can tell where the data came from
+export interface Provenance {
+  source: ProvenanceSource;
+  // API URL the data was (or would have been) requested from
+  endpoint: string;
+  // Proxy the request went through, null for direct requests and mock data
+  proxy: string | null;
+  fetchedAt: number;
+  // True when an expired cache entry was served because the network was unavailable
+  stale?: boolean;
+}
+
 export interface AppSettings {
   accessKey: string;
   secretKey: string;
   demoMode: boolean;
   corsProxy?: string;
+  requestTimeout: number; // seconds per attempt
+  maxRetries: number;
+  cacheEnabled: boolean;
+  serveStaleOffline: boolean;
+  mockFallback: boolean;
+  recordFixtures: boolean;
+  // Download images, stylesheets and scripts with every snapshot saved to the Library
+  saveAssets: boolean;
+  mementoArchives: MementoArchive[];
+}
+
+// A web archive speaking the Memento protocol (RFC 7089). The original URL is
+// appended to both endpoints, e.g. "https://arquivo.pt/wayback/timemap/link/" + url.
+export interface MementoArchive {
+  id: string;
+  name: string;
+  timegate: string;
+  timemap: string;
+  enabled: boolean;
+}
+
+// One archived copy of a URL in some archive
+export interface Memento {
+  uri: string;
+  // 14-digit UTC timestamp, like CDX
+  timestamp: string;
+}
+
+// Reported by the bundled proxy (server/iaProxy.ts) when the app is served by Vite
+export interface LocalProxyStatus {
+  credentials: boolean;
+  hosts: string[];
 }
 
 export enum AppView {
@@ -77,4 +291,16 @@ export enum AppView {
   ANALYTICS = 'analytics',
   WAYBACK = 'wayback',
   SETTINGS = 'settings',
-}
\ No newline at end of file
+}
+
+// A recorded API response, replayed by method, URL and body when Demo Mode is on
+export interface Fixture {
+  key: string;
+  method: string;
+  url: string;
+  requestBody?: string;
+  status: number;
+  contentType: string;
+  body: string;
+  recordedAt: number;
+}
@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { BarChart3, Sparkles, AlertTriangle, Lightbulb, Settings as SettingsIcon, TestTube2, Info, Search, ArrowRight, X, Database, Globe } from 'lucide-react';
+import { BarChart3, Sparkles, Info, Search, ArrowRight, X, Database, Globe } from 'lucide-react';
 import { fetchViews, searchItems } from '../services/iaService';
-import { AppSettings, AppView } from '../types';
+import { isAbortError } from '../services/httpClient';
+import { useAbortController } from '../hooks/useAbortController';
+import { AppSettings, AppView, Provenance } from '../types';
 import { Button } from '../components/ui/Button';
+import ProvenanceBadge from '../components/ProvenanceBadge';
+import ErrorPanel from '../components/ErrorPanel';
+import { ApiError, toApiError } from '../services/errors';
 
 interface Props {
   settings: AppSettings;
@@ -15,10 +20,11 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
   const [identifier, setIdentifier] = useState('');
   const [data, setData] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const [isCorsError, setIsCorsError] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
   const [resolvedItem, setResolvedItem] = useState<{original: string, final: string, title?: string} | null>(null);
   const [showHelp, setShowHelp] = useState(false);
+  const [provenance, setProvenance] = useState<Provenance | undefined>(undefined);
+  const { renew, cancel } = useAbortController();
 
   const SUGGESTIONS = ['nasa', 'georgejung', 'grateful-dead', 'blockbuster-logo'];
 
@@ -55,21 +61,25 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
     if (idOverride) setIdentifier(target);
     if (!target) return;
 
+    const signal = renew();
     setLoading(true);
-    setError('');
-    setIsCorsError(false);
+    setError(null);
     setResolvedItem(null);
     setData([]);
+    setProvenance(undefined);
     
     try {
       let finalData: any[] = [];
-      let initialError: Error | null = null;
+      let finalProvenance: Provenance | undefined;
+      let initialError: unknown = null;
 
       // 1. Attempt Direct Fetch
       try {
-        const rawData = await fetchViews(target);
-        finalData = processData(rawData);
+        const rawData = await fetchViews(target, signal);
+        finalData = processData(rawData.views);
+        finalProvenance = rawData.provenance;
       } catch (err: any) {
+        if (isAbortError(err)) throw err;
         initialError = err;
         // Don't throw yet, try resolution if it might be a keyword search
       }
@@ -80,18 +90,19 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
           
           try {
               // We use the 'general' search which falls back to scrape if needed
-              const searchRes = await searchItems(target, null, 'general');
+              const searchRes = await searchItems(target, null, 'general', signal);
               
               if (searchRes.items && searchRes.items.length > 0) {
                   const bestMatch = searchRes.items[0];
                   
                   // Avoid infinite loop if best match is same as input and it already failed
                   if (bestMatch.identifier !== target || initialError) {
-                      const resolvedRawData = await fetchViews(bestMatch.identifier);
-                      const resolvedChartData = processData(resolvedRawData);
+                      const resolvedRawData = await fetchViews(bestMatch.identifier, signal);
+                      const resolvedChartData = processData(resolvedRawData.views);
                       
                       if (resolvedChartData.length > 0) {
                           finalData = resolvedChartData;
+                          finalProvenance = resolvedRawData.provenance;
                           setResolvedItem({
                               original: target,
                               final: bestMatch.identifier,
@@ -103,6 +114,7 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
                   }
               }
           } catch (resolutionErr) {
+              if (isAbortError(resolutionErr)) throw resolutionErr;
               console.warn("Search resolution failed", resolutionErr);
           }
       }
@@ -111,35 +123,27 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
       if (finalData.length === 0) {
           // If the input looks like a domain, the user probably wants Wayback analytics, not Item analytics.
           if (isLikeDomain(target)) {
-              throw new Error(`'${target}' looks like a website domain. Item Analytics tracks Archive.org digital items (books, audio), not external websites. Use the Wayback Machine tool for website history.`);
+              throw new ApiError('not-found', `'${target}' looks like a website domain. Item Analytics tracks Archive.org digital items (books, audio), not external websites. Use the Wayback Machine tool for website history.`);
           }
           if (initialError) throw initialError; // Throw the original error if we couldn't resolve
-          throw new Error('No view data found. The item Identifier might be incorrect, or the item has no recorded traffic.');
+          throw new ApiError('not-found', 'No view data found. The item Identifier might be incorrect, or the item has no recorded traffic.');
       } else {
           setData(finalData);
+          setProvenance(finalProvenance);
       }
       
     } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error(e);
-      // Detect potential CORS or Network error
-      if (e.message && (e.message.includes('Failed to fetch') || e.message.includes('NetworkError'))) {
-          setIsCorsError(true);
-          setError('Connection failed. The Analytics API blocks direct browser access (CORS).');
-      } else {
-          setError(e.message || 'Failed to load analytics data.');
-      }
+      setError(toApiError(e, 'Failed to load analytics data.'));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
-  const enableDemoMode = () => {
-    try {
-        const current = localStorage.getItem('omnidash_settings');
-        const parsed = current ? JSON.parse(current) : {};
-        localStorage.setItem('omnidash_settings', JSON.stringify({ ...parsed, demoMode: true }));
-        window.location.reload(); 
-    } catch(e) { console.error(e); }
+  const cancelLoad = () => {
+    cancel();
+    setLoading(false);
   };
 
   return (
@@ -181,12 +185,18 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
                     className="w-full bg-gray-800 border border-gray-600 rounded-xl pl-12 pr-10 py-3 text-gray-100 focus:ring-2 focus:ring-orange-500 outline-none shadow-inner transition-all placeholder-gray-500 text-lg" 
                     placeholder="Enter Identifier (e.g. nasa) or Keywords"
                     value={identifier}
-                    onChange={e => setIdentifier(e.target.value)}
+                    onChange={e => {
+                        setIdentifier(e.target.value);
+                        if (loading) cancelLoad();
+                    }}
                 />
                 {identifier && (
                     <button
                         type="button"
-                        onClick={() => setIdentifier('')}
+                        onClick={() => {
+                            setIdentifier('');
+                            if (loading) cancelLoad();
+                        }}
                         className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-white bg-gray-700 hover:bg-gray-600 rounded-full transition-colors"
                     >
                         <X className="w-4 h-4" />
@@ -218,81 +228,59 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
       <div className="flex-1 min-h-0 flex flex-col">
         {/* Error Handling UI */}
         {error && (
-            <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl animate-in fade-in slide-in-from-top-2 relative z-10">
-                <div className="flex items-start gap-3">
-                    <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
-                    <div className="flex-1">
-                        <h4 className="text-red-400 font-bold mb-1">Request Failed</h4>
-                        <p className="text-gray-300 text-sm mb-3">{error}</p>
-                        
-                        {isCorsError ? (
-                            <div className="bg-gray-900/50 p-3 rounded-lg border border-gray-700/50 text-sm">
-                                <div className="flex items-center gap-2 mb-2 text-indigo-300 font-bold">
-                                    <Lightbulb className="w-4 h-4" /> Solution: CORS Proxy
-                                </div>
-                                <p className="text-gray-400 mb-3">
-                                    The Analytics API blocks direct browser access. You must enable Demo Mode or configure a Proxy in settings.
-                                </p>
-                                <div className="flex gap-3">
-                                    {onChangeView && (
-                                        <Button variant="secondary" onClick={() => onChangeView(AppView.SETTINGS)} className="h-8 text-xs">
-                                            <SettingsIcon className="w-3 h-3 mr-1" /> Configure Proxy
-                                        </Button>
-                                    )}
-                                    <Button onClick={enableDemoMode} className="h-8 text-xs bg-yellow-600 hover:bg-yellow-500 text-white">
-                                        <TestTube2 className="w-3 h-3 mr-1" /> Enable Demo Mode
-                                    </Button>
-                                </div>
-                            </div>
-                        ) : (
-                             <div className="mt-2 flex flex-col gap-2">
-                                {/* If it looks like a domain, suggest Wayback. Otherwise general help. */}
-                                {identifier && isLikeDomain(identifier) ? (
-                                    <div className="bg-indigo-500/10 p-3 rounded-lg border border-indigo-500/20 flex gap-3">
-                                        <Globe className="w-5 h-5 text-indigo-400 shrink-0" />
-                                        <div>
-                                            <p className="text-sm text-indigo-200 font-bold">Want traffic stats for a website?</p>
-                                            <p className="text-xs text-gray-400 mt-1 mb-2">
-                                                You might be looking for the Wayback Machine instead. This tool is for Archive.org library items.
-                                            </p>
-                                            <Button 
-                                                className="h-7 text-xs bg-indigo-600 hover:bg-indigo-500"
-                                                onClick={() => onChangeView && onChangeView(AppView.WAYBACK)}
-                                            >
-                                                Go to Wayback Tools <ArrowRight className="w-3 h-3 ml-1" />
-                                            </Button>
-                                        </div>
-                                    </div>
-                                ) : (
-                                    <>
-                                        <p className="text-xs text-gray-400">Not sure if "{identifier}" is the correct ID? Use the Item Lookup tool to verify.</p>
-                                        <div className="flex gap-2">
-                                            <Button 
-                                                variant="secondary" 
-                                                className="text-xs h-8"
-                                                onClick={() => {
-                                                    if (onChangeView) onChangeView(AppView.METADATA);
-                                                }}
-                                            >
-                                                <Database className="w-3 h-3 mr-1" /> Lookup Item ID
-                                            </Button>
-                                            <Button 
-                                                variant="secondary" 
-                                                className="text-xs h-8"
-                                                onClick={() => {
-                                                    if (onChangeView) onChangeView(AppView.SCRAPING);
-                                                }}
-                                            >
-                                                <Search className="w-3 h-3 mr-1" /> Deep Search
-                                            </Button>
-                                        </div>
-                                    </>
-                                )}
-                             </div>
-                        )}
+            <ErrorPanel
+                error={error}
+                onRetry={() => loadData()}
+                onChangeView={onChangeView}
+                className="mb-6 relative z-10"
+            >
+                {error.kind !== 'network' && (
+                    <div className="mt-3 flex flex-col gap-2">
+                       {/* If it looks like a domain, suggest Wayback. Otherwise general help. */}
+                       {identifier && isLikeDomain(identifier) ? (
+                           <div className="bg-indigo-500/10 p-3 rounded-lg border border-indigo-500/20 flex gap-3">
+                               <Globe className="w-5 h-5 text-indigo-400 shrink-0" />
+                               <div>
+                                   <p className="text-sm text-indigo-200 font-bold">Want traffic stats for a website?</p>
+                                   <p className="text-xs text-gray-400 mt-1 mb-2">
+                                       You might be looking for the Wayback Machine instead. This tool is for Archive.org library items.
+                                   </p>
+                                   <Button 
+                                       className="h-7 text-xs bg-indigo-600 hover:bg-indigo-500"
+                                       onClick={() => onChangeView && onChangeView(AppView.WAYBACK)}
+                                   >
+                                       Go to Wayback Tools <ArrowRight className="w-3 h-3 ml-1" />
+                                   </Button>
+                               </div>
+                           </div>
+                       ) : (
+                           <>
+                               <p className="text-xs text-gray-400">Not sure if "{identifier}" is the correct ID? Use the Item Lookup tool to verify.</p>
+                               <div className="flex gap-2">
+                                   <Button 
+                                       variant="secondary" 
+                                       className="text-xs h-8"
+                                       onClick={() => {
+                                           if (onChangeView) onChangeView(AppView.METADATA);
+                                       }}
+                                   >
+                                       <Database className="w-3 h-3 mr-1" /> Lookup Item ID
+                                   </Button>
+                                   <Button 
+                                       variant="secondary" 
+                                       className="text-xs h-8"
+                                       onClick={() => {
+                                           if (onChangeView) onChangeView(AppView.SCRAPING);
+                                       }}
+                                   >
+                                       <Search className="w-3 h-3 mr-1" /> Deep Search
+                                   </Button>
+                               </div>
+                           </>
+                       )}
                     </div>
-                </div>
-            </div>
+                )}
+            </ErrorPanel>
         )}
 
         {/* Auto-Resolution Banner */}
@@ -312,7 +300,10 @@ const AnalyticsDashboard: React.FC<Props> = ({ settings, onChangeView }) => {
         {data.length > 0 ? (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-6">
                 <div className="lg:col-span-2 h-96 bg-gray-800 p-6 rounded-2xl border border-gray-700 shadow-lg flex flex-col">
-                <h3 className="text-gray-400 text-sm font-bold uppercase tracking-wider mb-6">Daily Views Trend (Last 30 Days)</h3>
+                <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-gray-400 text-sm font-bold uppercase tracking-wider">Daily Views Trend (Last 30 Days)</h3>
+                    <ProvenanceBadge provenance={provenance} />
+                </div>
                 <div className="flex-1 min-h-0">
                     <ResponsiveContainer width="100%" height="100%">
                         <AreaChart data={data}>
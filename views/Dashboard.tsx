@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Database, BarChart3, ArrowRight, ShieldCheck, ShieldAlert, Search, Info, Globe } from 'lucide-react';
 import { AppView, AppSettings } from '../types';
+import SPNQuotaCard from '../components/SPNQuotaCard';
+import { hasServerCredentials } from '../services/httpClient';
 
 interface Props {
   settings: AppSettings;
@@ -9,6 +11,12 @@ interface Props {
 
 const Dashboard: React.FC<Props> = ({ settings, onChangeView }) => {
   const hasCreds = settings.accessKey && settings.secretKey;
+  // Keys kept on the bundled proxy sign SavePageNow requests just like browser-stored ones
+  const [serverCreds, setServerCreds] = useState(false);
+
+  useEffect(() => {
+    hasServerCredentials().then(setServerCreds);
+  }, []);
 
   return (
     <div className="h-full flex flex-col space-y-8 animate-in fade-in duration-500">
@@ -151,6 +159,10 @@ const Dashboard: React.FC<Props> = ({ settings, onChangeView }) => {
             </div>
         </div>
       </div>
+
+      {(hasCreds || serverCreds || settings.demoMode) && (
+        <SPNQuotaCard settings={settings} onChangeView={onChangeView} />
+      )}
     </div>
   );
 };
@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { Search, Save, Trash2, FileText, Code, Sparkles, Database, ArrowRight, AlertCircle, Info, Link as LinkIcon, ExternalLink } from 'lucide-react';
 import { fetchMetadata } from '../services/iaService';
+import { isAbortError } from '../services/httpClient';
+import { useAbortController } from '../hooks/useAbortController';
 import { IAMetadata, AppSettings, AppView } from '../types';
 import { Button } from '../components/ui/Button';
+import ProvenanceBadge from '../components/ProvenanceBadge';
 
 interface Props {
   settings: AppSettings;
@@ -16,6 +19,7 @@ const MetadataExplorer: React.FC<Props> = ({ settings, onChangeView, onSearchTra
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState<'view' | 'json'>('view');
+  const { renew, cancel } = useAbortController();
 
   const SUGGESTIONS = ['internetarchive', 'nasa', 'grateful-dead', 'prelinger', 'librivoxaudio'];
 
@@ -59,21 +63,20 @@ const MetadataExplorer: React.FC<Props> = ({ settings, onChangeView, onSearchTra
          // We'll let the API try, but be ready to suggest Deep Search.
     }
 
+    const signal = renew();
     setLoading(true);
     setError('');
     setData(null);
     
     try {
-      const result = await fetchMetadata(targetId);
-      
-      if (!result || Object.keys(result).length === 0 || (result.metadata && Object.keys(result.metadata).length === 0)) {
-          throw new Error("Item not found. Double check the identifier.");
-      }
+      // Unknown identifiers are rejected by the service with a 'not-found' error
+      const result = await fetchMetadata(targetId, signal);
       setData(result);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch metadata');
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
@@ -101,7 +104,13 @@ const MetadataExplorer: React.FC<Props> = ({ settings, onChangeView, onSearchTra
             <input
               type="text"
               value={identifier}
-              onChange={(e) => setIdentifier(e.target.value)}
+              onChange={(e) => {
+                setIdentifier(e.target.value);
+                if (loading) {
+                  cancel();
+                  setLoading(false);
+                }
+              }}
               placeholder="Enter Identifier or paste Archive.org URL"
               className="w-full bg-gray-900 border border-gray-600 rounded-xl pl-4 pr-4 py-3 text-gray-100 focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none transition-all placeholder-gray-500 shadow-inner"
             />
@@ -188,16 +197,19 @@ const MetadataExplorer: React.FC<Props> = ({ settings, onChangeView, onSearchTra
                 <Code className="w-4 h-4" /> Raw JSON
               </button>
             </div>
-            {data.metadata?.identifier && (
-                 <a 
-                    href={`https://archive.org/details/${data.metadata.identifier}`}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-xs text-teal-500 hover:text-teal-400 flex items-center gap-1"
-                >
-                    View on Archive.org <ExternalLink className="w-3 h-3" />
-                </a>
-            )}
+            <div className="flex items-center gap-4">
+              <ProvenanceBadge provenance={data.provenance} />
+              {data.metadata?.identifier && (
+                   <a 
+                      href={`https://archive.org/details/${data.metadata.identifier}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-teal-500 hover:text-teal-400 flex items-center gap-1"
+                  >
+                      View on Archive.org <ExternalLink className="w-3 h-3" />
+                  </a>
+              )}
+            </div>
           </div>
 
           <div className="flex-1 overflow-auto p-8 custom-scrollbar">
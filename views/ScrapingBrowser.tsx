@@ -1,8 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, Download, ExternalLink, Loader2, Info, RefreshCw, AlertTriangle, Lightbulb, Globe, TestTube2, Settings as SettingsIcon } from 'lucide-react';
+import { Search, Download, ExternalLink, Loader2, Info, RefreshCw, Lightbulb, Globe } from 'lucide-react';
 import { searchItems } from '../services/iaService';
-import { IASearchResult, AppSettings, AppView } from '../types';
+import { isAbortError } from '../services/httpClient';
+import { useAbortController } from '../hooks/useAbortController';
+import { IASearchResult, AppSettings, AppView, Provenance } from '../types';
 import { Button } from '../components/ui/Button';
+import ProvenanceBadge from '../components/ProvenanceBadge';
+import ErrorPanel from '../components/ErrorPanel';
+import { ApiError, toApiError } from '../services/errors';
 
 interface Props {
   settings: AppSettings;
@@ -19,12 +24,14 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
   const [mode, setMode] = useState<SearchMode>('general');
   const [items, setItems] = useState<IASearchResult[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const [cursor, setCursor] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
   const [totalFound, setTotalFound] = useState<number | undefined>(undefined);
+  const [provenance, setProvenance] = useState<Provenance | undefined>(undefined);
 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const { renew, cancel } = useAbortController();
 
   // Initialize with initialQuery if provided
   useEffect(() => {
@@ -38,16 +45,18 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
 
   const performSearch = async (searchQuery: string, isNew: boolean, searchMode: SearchMode) => {
     if (!searchQuery) return;
+    const signal = renew();
     setLoading(true);
     setError(null);
     
     try {
       const currentCursor = isNew ? null : cursor;
-      const result = await searchItems(searchQuery, currentCursor, searchMode);
+      const result = await searchItems(searchQuery, currentCursor, searchMode, signal);
       
       setItems(prev => isNew ? result.items : [...prev, ...result.items]);
       setCursor(result.cursor || null);
       setTotalFound(result.total);
+      setProvenance(result.provenance);
       setHasSearched(true);
       
       if (isNew && scrollContainerRef.current) {
@@ -55,13 +64,20 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
       }
 
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError(err.message || "Search failed.");
+      setError(toApiError(err, "Search failed."));
     } finally {
-      setLoading(false);
+      // A cancelled search leaves the loading state to whoever cancelled it
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const cancelSearch = () => {
+    cancel();
+    setLoading(false);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     performSearch(query, true, mode);
@@ -72,6 +88,7 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
   };
 
   const handleModeChange = (newMode: SearchMode) => {
+    cancelSearch();
     setMode(newMode);
     setItems([]);
     setCursor(null);
@@ -89,16 +106,6 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
     downloadAnchorNode.remove();
   };
 
-  const enableDemoMode = () => {
-      // Force enable demo mode in localStorage
-      try {
-          const current = localStorage.getItem('omnidash_settings');
-          const parsed = current ? JSON.parse(current) : {};
-          localStorage.setItem('omnidash_settings', JSON.stringify({ ...parsed, demoMode: true }));
-          window.location.reload(); // Simple reload to pick up new settings context
-      } catch(e) { console.error(e); }
-  };
-
   const isUrlLike = (txt: string) => (txt.includes('.') || txt.includes(':')) && !txt.includes(' ');
 
   return (
@@ -142,7 +149,11 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
                 <input
                     type="text"
                     value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        // Retyping the query makes the running search stale
+                        if (loading) cancelSearch();
+                    }}
                     placeholder={mode === 'general' ? "Search for anything (e.g. sunelec.com, grateful dead)" : "Scrape Query (e.g. collection:nasa)"}
                     className="w-full bg-gray-900 border border-gray-700 rounded-lg pl-10 pr-4 py-2.5 text-gray-100 focus:ring-2 focus:ring-teal-500 outline-none transition-all"
                 />
@@ -159,38 +170,11 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
             className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar"
         >
             {error && (
-                <div className="flex flex-col items-center justify-center h-full text-center px-4 animate-in fade-in">
-                    <div className="bg-red-500/10 p-4 rounded-full mb-4">
-                        <AlertTriangle className="w-10 h-10 text-red-400" />
-                    </div>
-                    <h3 className="text-lg font-bold text-white mb-2">Search Connection Failed</h3>
-                    <p className="text-sm text-gray-300 max-w-md mb-6 leading-relaxed">
-                        The Internet Archive API often blocks direct browser requests (CORS).<br/>
-                        <span className="text-gray-500">Error: {error}</span>
-                    </p>
-                    <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700/50 max-w-lg mb-6 text-sm text-left">
-                        <h4 className="font-bold text-indigo-400 mb-2 flex items-center gap-2">
-                            <Lightbulb className="w-4 h-4" /> Recommended Solution
-                        </h4>
-                        <p className="text-gray-400 mb-2">
-                            Go to <strong>Settings</strong> and set a <strong>CORS Proxy</strong> (e.g. <code>https://cors-anywhere.herokuapp.com/</code>).
-                        </p>
-                        <Button 
-                            variant="secondary" 
-                            className="w-full mt-2 text-xs h-8" 
-                            onClick={() => onChangeView && onChangeView(AppView.SETTINGS)}
-                        >
-                            <SettingsIcon className="w-3 h-3 mr-1" /> Open Settings
-                        </Button>
-                    </div>
-
-                    <div className="flex gap-4">
-                        <Button variant="secondary" onClick={() => performSearch(query, true, mode)}>Retry</Button>
-                        <Button variant="primary" onClick={enableDemoMode} className="bg-yellow-600 hover:bg-yellow-500 text-white">
-                            <TestTube2 className="w-4 h-4" /> Enable Demo Mode
-                        </Button>
-                    </div>
-                </div>
+                <ErrorPanel
+                    error={error}
+                    onRetry={() => performSearch(query, true, mode)}
+                    onChangeView={onChangeView}
+                />
             )}
 
            {!error && items.length === 0 && hasSearched && !loading && (
@@ -315,6 +299,7 @@ const ScrapingBrowser: React.FC<Props> = ({ settings, initialQuery, onClearQuery
             <span className="flex items-center gap-2">
                 <div className="w-2 h-2 rounded-full bg-teal-500"></div>
                 Showing {items.length.toLocaleString()} {totalFound ? `of ~${totalFound.toLocaleString()}` : ''} items
+                <ProvenanceBadge provenance={provenance} />
             </span>
             <span className="font-mono opacity-50">
                 Mode: {mode.toUpperCase()} {cursor ? '| Next Cursor: Active' : '| End'}
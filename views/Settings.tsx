@@ -1,8 +1,12 @@
 import React, { useEffect, useState } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, LocalProxyStatus } from '../types';
 import { Button } from '../components/ui/Button';
-import { ExternalLink, CheckCircle, Save, Shield, TestTube2, Globe2, AlertCircle, Wand2 } from 'lucide-react';
+import { ExternalLink, CheckCircle, Save, Shield, TestTube2, Globe2, AlertCircle, Wand2, HardDrive, ShieldCheck, Landmark, Library } from 'lucide-react';
 import { PROXY_OPTIONS } from '../constants';
+import CachePanel from '../components/CachePanel';
+import FixturePanel from '../components/FixturePanel';
+import MementoArchivesEditor from '../components/MementoArchivesEditor';
+import { getLocalProxyStatus } from '../services/httpClient';
 
 interface Props {
   settings: AppSettings;
@@ -12,6 +16,11 @@ interface Props {
 const Settings: React.FC<Props> = ({ settings, onUpdate }) => {
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
   const [saved, setSaved] = useState(false);
+  const [localProxy, setLocalProxy] = useState<LocalProxyStatus | null>(null);
+
+  useEffect(() => {
+    getLocalProxyStatus().then(setLocalProxy);
+  }, []);
 
   // Sync local state if props change externally (e.g. initial load from App)
   useEffect(() => {
@@ -55,7 +64,7 @@ const Settings: React.FC<Props> = ({ settings, onUpdate }) => {
                         Demo Mode
                      </h3>
                      <p className="text-sm text-gray-400 mt-1">
-                         Enable mock data to test the UI without making real API calls. Useful if APIs are blocked.
+                         Replay recorded fixtures (or generated mock data when none match) instead of making real API calls. Useful if APIs are blocked.
                      </p>
                  </div>
                  <div className="flex items-center">
@@ -67,6 +76,37 @@ const Settings: React.FC<Props> = ({ settings, onUpdate }) => {
                     </button>
                  </div>
              </div>
+             <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700/50">
+                 <div>
+                     <label className="block text-sm font-medium text-gray-300">Mock data fallback</label>
+                     <p className="text-xs text-gray-500 mt-1">
+                         When a live Wayback call fails, show generated data (clearly labelled as mock) instead of the error.
+                     </p>
+                 </div>
+                 <button
+                     onClick={() => handleChange('mockFallback', !localSettings.mockFallback)}
+                     className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${localSettings.mockFallback ? 'bg-teal-500' : 'bg-gray-700'}`}
+                 >
+                     <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localSettings.mockFallback ? 'translate-x-6' : 'translate-x-1'}`} />
+                 </button>
+             </div>
+             <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700/50">
+                 <div>
+                     <label className="block text-sm font-medium text-gray-300">Record fixtures</label>
+                     <p className="text-xs text-gray-500 mt-1">
+                         Capture live API responses so Demo Mode can replay them offline. Credentials are never recorded.
+                     </p>
+                 </div>
+                 <button
+                     onClick={() => handleChange('recordFixtures', !localSettings.recordFixtures)}
+                     className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${localSettings.recordFixtures ? 'bg-teal-500' : 'bg-gray-700'}`}
+                 >
+                     <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localSettings.recordFixtures ? 'translate-x-6' : 'translate-x-1'}`} />
+                 </button>
+             </div>
+             <div className="mt-4">
+                 <FixturePanel />
+             </div>
          </div>
 
          {/* Connectivity / CORS Section */}
@@ -75,15 +115,30 @@ const Settings: React.FC<Props> = ({ settings, onUpdate }) => {
                 <Globe2 className="w-5 h-5 text-indigo-400" />
                 Connectivity
              </h3>
-             <div className="bg-indigo-500/10 border border-indigo-500/20 rounded-lg p-4 mb-4">
-                 <div className="flex gap-3">
-                     <AlertCircle className="w-5 h-5 text-indigo-400 shrink-0 mt-0.5" />
-                     <div className="text-sm text-indigo-200">
-                         <strong className="text-indigo-100">Search failing?</strong> Internet Archive APIs block direct browser requests (CORS). 
-                         To fix this, you must use a proxy.
+             {localProxy ? (
+                 <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4 mb-4">
+                     <div className="flex gap-3">
+                         <ShieldCheck className="w-5 h-5 text-green-400 shrink-0 mt-0.5" />
+                         <div className="text-sm text-green-200">
+                             <strong className="text-green-100">Local proxy active.</strong> Requests to {localProxy.hosts.join(', ')} go through the OmniDash server
+                             instead of a public CORS proxy.{' '}
+                             {localProxy.credentials
+                                 ? 'S3 keys are injected server-side; you can leave the API Credentials below empty.'
+                                 : <>Set <code>IA_ACCESS_KEY</code> and <code>IA_SECRET_KEY</code> in <code>.env.local</code> to keep your S3 keys on the server.</>}
+                         </div>
                      </div>
                  </div>
-             </div>
+             ) : (
+                 <div className="bg-indigo-500/10 border border-indigo-500/20 rounded-lg p-4 mb-4">
+                     <div className="flex gap-3">
+                         <AlertCircle className="w-5 h-5 text-indigo-400 shrink-0 mt-0.5" />
+                         <div className="text-sm text-indigo-200">
+                             <strong className="text-indigo-100">Search failing?</strong> Internet Archive APIs block direct browser requests (CORS). 
+                             To fix this, you must use a proxy.
+                         </div>
+                     </div>
+                 </div>
+             )}
              
              <div>
                 <label className="block text-sm font-medium text-gray-400 mb-1.5">CORS Proxy URL Prefix</label>
@@ -109,6 +164,107 @@ const Settings: React.FC<Props> = ({ settings, onUpdate }) => {
                     Recommended: <code>{PROXY_OPTIONS.CORS_PROXY_IO}</code> or <code>{PROXY_OPTIONS.ALL_ORIGINS}</code>
                  </p>
             </div>
+
+            <div className="grid grid-cols-2 gap-4 mt-5">
+                <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1.5">Request Timeout (seconds)</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={localSettings.requestTimeout}
+                        onChange={(e) => handleChange('requestTimeout', Math.max(1, Number(e.target.value) || 1))}
+                        className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono"
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1.5">Retries on Failure</label>
+                    <input
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={localSettings.maxRetries}
+                        onChange={(e) => handleChange('maxRetries', Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+                        className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-2.5 text-white focus:ring-2 focus:ring-indigo-500 outline-none transition-all font-mono"
+                    />
+                </div>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+                Network errors and 5xx responses are retried with exponential backoff.
+            </p>
+         </div>
+
+         {/* Memento Archives Section */}
+         <div className="p-6 border-b border-gray-700">
+             <h3 className="text-lg font-medium text-white mb-1 flex items-center gap-2">
+                <Landmark className="w-5 h-5 text-amber-400" />
+                Web Archives (Memento)
+             </h3>
+             <p className="text-xs text-gray-500 mb-4">
+                 Archives queried through the Memento protocol (RFC 7089) alongside the Wayback Machine in the Check URL and History tabs.
+                 The URL is appended to both endpoints. Most archives don't allow browser requests, so they go through the proxy above.
+             </p>
+             <MementoArchivesEditor
+                 archives={localSettings.mementoArchives}
+                 onChange={archives => handleChange('mementoArchives', archives)}
+             />
+         </div>
+
+         {/* Snapshot Library Section */}
+         <div className="p-6 border-b border-gray-700">
+             <h3 className="text-lg font-medium text-white mb-4 flex items-center gap-2">
+                <Library className="w-5 h-5 text-teal-400" />
+                Snapshot Library
+             </h3>
+             <div className="flex items-center justify-between">
+                 <div>
+                     <p className="text-sm text-gray-300">Save page assets</p>
+                     <p className="text-xs text-gray-500">
+                         Also store the images, stylesheets, scripts and fonts of each saved page, from the same capture, so Library previews work offline. Uses noticeably more storage.
+                     </p>
+                 </div>
+                 <button
+                     onClick={() => handleChange('saveAssets', !localSettings.saveAssets)}
+                     className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${localSettings.saveAssets ? 'bg-teal-500' : 'bg-gray-700'}`}
+                 >
+                     <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localSettings.saveAssets ? 'translate-x-6' : 'translate-x-1'}`} />
+                 </button>
+             </div>
+         </div>
+
+         {/* Response Cache Section */}
+         <div className="p-6 border-b border-gray-700">
+             <h3 className="text-lg font-medium text-white mb-4 flex items-center gap-2">
+                <HardDrive className="w-5 h-5 text-sky-400" />
+                Response Cache
+             </h3>
+             <div className="space-y-4 mb-5">
+                 <div className="flex items-center justify-between">
+                     <div>
+                         <p className="text-sm text-gray-300">Cache API responses</p>
+                         <p className="text-xs text-gray-500">Metadata, search, CDX, Memento TimeMaps and view counts are reused until they expire.</p>
+                     </div>
+                     <button
+                         onClick={() => handleChange('cacheEnabled', !localSettings.cacheEnabled)}
+                         className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-gray-900 ${localSettings.cacheEnabled ? 'bg-teal-500' : 'bg-gray-700'}`}
+                     >
+                         <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localSettings.cacheEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                     </button>
+                 </div>
+                 <div className="flex items-center justify-between">
+                     <div>
+                         <p className="text-sm text-gray-300">Serve stale while offline</p>
+                         <p className="text-xs text-gray-500">Fall back to expired entries when Archive.org can't be reached.</p>
+                     </div>
+                     <button
+                         onClick={() => handleChange('serveStaleOffline', !localSettings.serveStaleOffline)}
+                         disabled={!localSettings.cacheEnabled}
+                         className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 focus:ring-offset-gray-900 disabled:opacity-50 ${localSettings.serveStaleOffline ? 'bg-teal-500' : 'bg-gray-700'}`}
+                     >
+                         <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${localSettings.serveStaleOffline ? 'translate-x-6' : 'translate-x-1'}`} />
+                     </button>
+                 </div>
+             </div>
+             <CachePanel />
          </div>
 
          {/* API Credentials Section */}
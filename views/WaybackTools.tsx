@@ -1,43 +1,101 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Globe, Camera, Calendar, CheckCircle, XCircle, AlertTriangle, ExternalLink, Loader2, Trash2, Search, BarChart3, Clock, X, Filter, Download, Database, Play, Settings as SettingsIcon, FileDown, Eye, Maximize2, Minimize2, Upload, Info, Library } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Globe, Camera, Calendar, CheckCircle, XCircle, ExternalLink, Loader2, Trash2, Search, BarChart3, Clock, X, Filter, Download, Database, Play, Settings as SettingsIcon, FileDown, Eye, Maximize2, Minimize2, Upload, Info, Library, GitCompare, GitCommitHorizontal, FolderTree, Landmark, Unlink, HardDriveDownload, Star, Tag, Folder } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { checkAvailability, savePageNow, fetchCDX, downloadSnapshotContent } from '../services/waybackService';
+import { checkAvailability, fetchCaptureNeighbors, describeCaptureOffset, streamCDX, streamUrlInventory, downloadSnapshotContent, captureFileName, CaptureNeighbors, CDXProgress, UrlInventoryScope } from '../services/waybackService';
+import { buildUrlTree, urlInventoryToCsv, UrlTreeNode } from '../services/urlTreeService';
+import { loadLinkCheckPage, LinkCheckPage } from '../services/linkRotService';
+import { buildOfflinePreview, saveSnapshotAssets } from '../services/snapshotAssetService';
+import { EMPTY_LIBRARY_SCOPE, buildFolderTree, collectTags, FolderNode, inLibraryScope, LibraryScope } from '../services/libraryOrganizationService';
+import { EMPTY_SEARCH_FILTERS, indexSnapshot, LibrarySearchFilters, LibrarySearchResults as SearchResults, matchesSearchFilters, snapshotFacets } from '../services/librarySearchService';
+import { saveQueue } from '../services/saveQueue';
 import { storageService } from '../services/storageService';
-import { AppSettings, WaybackAvailability, CDXRecord, SavedSnapshot, AppView } from '../types';
+import { isAbortError } from '../services/httpClient';
+import { useAbortController } from '../hooks/useAbortController';
+import { AppSettings, WaybackAvailability, CDXRecord, CDXQueryOptions, SavedSnapshot, SnapshotOrganization, AppView, Provenance, SPNOptions, UrlInventoryEntry } from '../types';
+import { DEFAULT_CDX_OPTIONS, DEFAULT_SNAPSHOT_ORGANIZATION, DEFAULT_SPN_OPTIONS } from '../constants';
 import { Button } from '../components/ui/Button';
 import ExportModal from '../components/ExportModal';
+import ProvenanceBadge from '../components/ProvenanceBadge';
+import ErrorPanel from '../components/ErrorPanel';
+import CDXQueryBuilder from '../components/wayback/CDXQueryBuilder';
+import SPNOptionsForm from '../components/wayback/SPNOptionsForm';
+import SaveQueuePanel from '../components/wayback/SaveQueuePanel';
+import SPNQuotaCard from '../components/SPNQuotaCard';
+import CDXTable from '../components/wayback/CDXTable';
+import SnapshotDiff, { CompareTarget } from '../components/wayback/SnapshotDiff';
+import ContentTimeline from '../components/wayback/ContentTimeline';
+import CaptureCalendar from '../components/wayback/CaptureCalendar';
+import MementoAvailability from '../components/wayback/MementoAvailability';
+import ClosestCaptures from '../components/wayback/ClosestCaptures';
+import BatchAvailabilityPanel from '../components/wayback/BatchAvailabilityPanel';
+import LinkRotPanel from '../components/wayback/LinkRotPanel';
+import MementoHistory from '../components/wayback/MementoHistory';
+import URLTree from '../components/wayback/URLTree';
+import SnapshotViewer from '../components/wayback/SnapshotViewer';
+import LibrarySearchBar from '../components/wayback/LibrarySearchBar';
+import LibrarySearchResults from '../components/wayback/LibrarySearchResults';
+import LibrarySidebar from '../components/wayback/LibrarySidebar';
+import SnapshotOrganizer from '../components/wayback/SnapshotOrganizer';
+import { ApiError, toApiError } from '../services/errors';
 
 interface Props {
   settings: AppSettings;
   onChangeView?: (view: AppView) => void;
 }
 
-interface SaveRequestItem {
-  id: string;
-  url: string;
-  status: 'pending' | 'success' | 'error';
-  message?: string;
-  timestamp: Date;
-}
+type WaybackMode = 'available' | 'save' | 'cdx' | 'tree' | 'links' | 'saved';
+
+const TREE_SCOPES: { id: UrlInventoryScope; label: string; hint: string }[] = [
+  { id: 'prefix', label: 'Path prefix', hint: 'Every URL starting with the entered URL' },
+  { id: 'host', label: 'Host', hint: 'Every URL on the entered host' },
+  { id: 'domain', label: 'Domain', hint: 'The host and all of its subdomains' },
+];
 
 const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
   const [url, setUrl] = useState('');
-  const [mode, setMode] = useState<'available' | 'save' | 'cdx' | 'saved'>('available');
+  const [mode, setMode] = useState<WaybackMode>('available');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const [availability, setAvailability] = useState<WaybackAvailability | null>(null);
+  // datetime-local value (UTC); empty asks for the most recent capture
+  const [closestTo, setClosestTo] = useState('');
+  const [availabilityBatch, setAvailabilityBatch] = useState(false);
+  const [onlyOkCaptures, setOnlyOkCaptures] = useState(true);
+  const [captureNeighbors, setCaptureNeighbors] = useState<(CaptureNeighbors & { target: string }) | null>(null);
   const [cdxData, setCdxData] = useState<CDXRecord[]>([]);
-  const [saveHistory, setSaveHistory] = useState<SaveRequestItem[]>([]);
+  const [cdxProvenance, setCdxProvenance] = useState<Provenance | undefined>(undefined);
+  const [cdxOptions, setCdxOptions] = useState<CDXQueryOptions>(DEFAULT_CDX_OPTIONS);
+  const [cdxProgress, setCdxProgress] = useState<CDXProgress | null>(null);
+  const [cdxView, setCdxView] = useState<'captures' | 'calendar' | 'changes' | 'archives'>('captures');
+  // URL of the last exact-match History lookup; TimeMaps of other archives only exist per URL
+  const [cdxExactUrl, setCdxExactUrl] = useState('');
+  const [spnOptions, setSpnOptions] = useState<SPNOptions>(DEFAULT_SPN_OPTIONS);
+  const [treeEntries, setTreeEntries] = useState<UrlInventoryEntry[]>([]);
+  const [treeScope, setTreeScope] = useState<UrlInventoryScope>('host');
+  const [treeProgress, setTreeProgress] = useState<CDXProgress | null>(null);
+  const [treeProvenance, setTreeProvenance] = useState<Provenance | undefined>(undefined);
+  const [linkPage, setLinkPage] = useState<LinkCheckPage | null>(null);
   const [savedSnapshots, setSavedSnapshots] = useState<SavedSnapshot[]>([]);
   const [hasSearched, setHasSearched] = useState(false);
   const [selectedYear, setSelectedYear] = useState<string | null>(null);
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [compareSelection, setCompareSelection] = useState<CompareTarget[]>([]);
+  const [assetProgress, setAssetProgress] = useState<{ id: string; done: number; total: number } | null>(null);
   
   // Modal States
   const [previewSnapshot, setPreviewSnapshot] = useState<SavedSnapshot | null>(null);
+  const [previewHtml, setPreviewHtml] = useState('');
+  const [libraryFilters, setLibraryFilters] = useState<LibrarySearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [librarySearch, setLibrarySearch] = useState<SearchResults | null>(null);
+  const [libraryScope, setLibraryScope] = useState<LibraryScope>(EMPTY_LIBRARY_SCOPE);
+  const [organizingSnapshot, setOrganizingSnapshot] = useState<SavedSnapshot | null>(null);
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [compareTargets, setCompareTargets] = useState<[CompareTarget, CompareTarget] | null>(null);
   
   const inputRef = useRef<HTMLInputElement>(null);
+  const lookupRequest = useAbortController();
+  const downloadRequest = useAbortController();
+  const assetRequest = useAbortController();
 
   // Load saved snapshots when switching to 'saved' mode or initially
   useEffect(() => {
@@ -59,7 +117,7 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
     }
   };
 
-  const handleAction = async (e?: React.FormEvent, overrideMode?: 'available' | 'save' | 'cdx' | 'saved') => {
+  const handleAction = async (e?: React.FormEvent, overrideMode?: WaybackMode, overrideUrl?: string, overrideCdxOptions?: CDXQueryOptions) => {
     if (e) e.preventDefault();
     setError(null);
 
@@ -72,7 +130,7 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
     }
 
     // Basic URL cleanup
-    let targetUrl = url.trim();
+    let targetUrl = (overrideUrl ?? url).trim();
     if (!targetUrl) {
         inputRef.current?.focus();
         return;
@@ -84,69 +142,129 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
         setUrl(targetUrl); 
     }
 
+    const signal = lookupRequest.renew();
     setLoading(true);
     setHasSearched(false);
     setSelectedYear(null);
 
     // Reset data for the current mode to show fresh loading state
-    if (activeMode === 'available') setAvailability(null);
-    if (activeMode === 'cdx') setCdxData([]);
+    if (activeMode === 'available') {
+        setAvailability(null);
+        setCaptureNeighbors(null);
+    }
+    if (activeMode === 'cdx') {
+        setCdxData([]);
+        setCdxProgress(null);
+        setCdxExactUrl((overrideCdxOptions || cdxOptions).matchType === 'exact' ? targetUrl : '');
+    }
+    if (activeMode === 'tree') {
+        setTreeEntries([]);
+        setTreeProgress(null);
+    }
+    if (activeMode === 'links') setLinkPage(null);
 
     try {
         if (activeMode === 'available') {
-            const res = await checkAvailability(targetUrl);
+            // "2020-11-03T14:30" -> "20201103143000"
+            const target = closestTo ? closestTo.replace(/\D/g, '').padEnd(14, '0').slice(0, 14) : undefined;
+            const [res, neighbors] = await Promise.all([
+                checkAvailability(targetUrl, target, signal),
+                target ? fetchCaptureNeighbors(targetUrl, target, onlyOkCaptures, signal) : Promise.resolve(null),
+            ]);
             setAvailability(res);
+            setCaptureNeighbors(neighbors && target ? { ...neighbors, target } : null);
         } else if (activeMode === 'save') {
-            const newItem: SaveRequestItem = {
-                id: Date.now().toString(),
-                url: targetUrl,
-                status: 'pending',
-                timestamp: new Date()
-            };
-            setSaveHistory(prev => [newItem, ...prev]);
-
-            try {
-                const res = await savePageNow(targetUrl, settings.accessKey, settings.secretKey);
-                setSaveHistory(prev => prev.map(item => 
-                    item.id === newItem.id 
-                    ? { ...item, status: 'success', message: res.message }
-                    : item
-                ));
-            } catch (err: any) {
-                setSaveHistory(prev => prev.map(item => 
-                    item.id === newItem.id 
-                    ? { ...item, status: 'error', message: err.message || "Capture failed" }
-                    : item
-                ));
-            }
+            // Single URLs go through the same persistent queue as bulk lists
+            await saveQueue.enqueue([targetUrl], spnOptions);
         } else if (activeMode === 'cdx') {
-            // Fetch more items for better browsing (3000)
-            const res = await fetchCDX(targetUrl, 3000);
-            setCdxData(res);
+            // Pages are appended as they arrive so results show while the rest download
+            await streamCDX(targetUrl, overrideCdxOptions || cdxOptions, (records, progress, provenance) => {
+                setCdxData(prev => prev.concat(records));
+                setCdxProgress(progress);
+                setCdxProvenance(provenance);
+            }, signal);
+        } else if (activeMode === 'tree') {
+            await streamUrlInventory(targetUrl, treeScope, (entries, progress, provenance) => {
+                setTreeEntries(prev => prev.concat(entries));
+                setTreeProgress(progress);
+                setTreeProvenance(provenance);
+            }, signal);
+        } else if (activeMode === 'links') {
+            setLinkPage(await loadLinkCheckPage(targetUrl, signal));
         }
     } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error("Wayback Tool Error:", e);
-        if (activeMode !== 'save') {
-             let msg = e.message || "An unexpected error occurred.";
-             if (e.message.includes('Failed to fetch')) {
-                 msg = "Network Error: Could not reach Archive.org. Try enabling Demo Mode in Settings if this persists.";
-             }
-             setError(msg);
-        }
+        setError(toApiError(e));
     } finally {
-        setLoading(false);
-        setHasSearched(true);
+        if (!signal.aborted) {
+            setLoading(false);
+            setHasSearched(true);
+        }
     }
   };
 
+  const cancelLookup = () => {
+      lookupRequest.cancel();
+      setLoading(false);
+  };
+
+  // Saves to the Library, with the page's assets when Settings ask for them
+  // Saves a snapshot to the Library, then its page assets when enabled. Resolves to a
+  // warning when only the assets failed, since the snapshot itself was saved.
+  const storeSnapshot = async (downloaded: SavedSnapshot): Promise<string | null> => {
+      // Saving a capture again keeps how it was organized and the assets already stored for it
+      const existing = await storageService.getSnapshot(downloaded.id);
+      const snapshot = existing
+          ? { ...downloaded, tags: existing.tags, folder: existing.folder, notes: existing.notes, starred: existing.starred, assets: existing.assets }
+          : downloaded;
+      await storageService.saveSnapshot(snapshot);
+      try {
+          await indexSnapshot(snapshot);
+      } catch (e) {
+          // The Library indexes it the next time it opens
+          console.warn("Indexing the snapshot for search failed", e);
+      }
+      // Binary captures reference nothing
+      if (!settings.saveAssets || snapshot.blob) return null;
+      const signal = assetRequest.renew();
+      setAssetProgress({ id: snapshot.id, done: 0, total: 0 });
+      try {
+          await saveSnapshotAssets(snapshot, (done, total) => setAssetProgress({ id: snapshot.id, done, total }), signal);
+          return null;
+      } catch (e) {
+          if (isAbortError(e)) return null;
+          console.error("Saving assets failed:", e);
+          return `Its page assets could not be saved: ${toApiError(e).message} Use "Save assets" on its Library card to retry.`;
+      } finally {
+          if (!signal.aborted) setAssetProgress(null);
+      }
+  };
+
+  const handleSaveAssets = async (snapshot: SavedSnapshot) => {
+      const signal = assetRequest.renew();
+      setAssetProgress({ id: snapshot.id, done: 0, total: 0 });
+      try {
+          await saveSnapshotAssets(snapshot, (done, total) => setAssetProgress({ id: snapshot.id, done, total }), signal);
+          await loadSavedSnapshots();
+      } catch (e) {
+          if (isAbortError(e)) return;
+          console.error("Saving assets failed:", e);
+          alert(`Failed to save page assets: ${toApiError(e).message}`);
+      } finally {
+          if (!signal.aborted) setAssetProgress(null);
+      }
+  };
+
   const handleDownload = async (row: CDXRecord) => {
       // Create a unique key for UI state
       const dlKey = `${row.timestamp}-${row.original}`;
       setDownloadingId(dlKey);
+      const signal = downloadRequest.renew();
       
       try {
           const waybackUrl = `https://web.archive.org/web/${row.timestamp}/${row.original}`;
-          const content = await downloadSnapshotContent(waybackUrl);
+          const { content, blob, mimetype, provenance } = await downloadSnapshotContent(waybackUrl, signal);
           
           const snapshot: SavedSnapshot = {
               id: dlKey,
@@ -154,13 +272,17 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
               originalUrl: row.original,
               timestamp: row.timestamp,
               savedAt: Date.now(),
-              mimetype: row.mimetype,
-              content: content
+              mimetype,
+              content: content,
+              blob,
+              provenance,
+              ...DEFAULT_SNAPSHOT_ORGANIZATION
           };
 
-          await storageService.saveSnapshot(snapshot);
+          const warning = await storeSnapshot(snapshot);
           // Update local list
           await loadSavedSnapshots();
+          if (warning) alert(`Snapshot saved to the Library. ${warning}`);
           
           // Show quick success state
           const btn = document.getElementById(`btn-dl-${dlKey}`);
@@ -169,8 +291,38 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
               if (btn) btn.classList.remove('text-green-500');
           }, 2000);
       } catch (e: any) {
+          if (isAbortError(e)) return;
           console.error(e);
-          setError(e.message || "Download Failed");
+          setError(toApiError(e, "Download Failed"));
+      } finally {
+          setDownloadingId(null);
+      }
+  };
+
+  // Opens a capture in the preview modal without adding it to the Library
+  const handlePreviewCapture = async (row: CDXRecord) => {
+      const key = `${row.timestamp}-${row.original}`;
+      setDownloadingId(`preview-${key}`);
+      const signal = downloadRequest.renew();
+
+      try {
+          const waybackUrl = `https://web.archive.org/web/${row.timestamp}/${row.original}`;
+          const { content, blob, mimetype, provenance } = await downloadSnapshotContent(waybackUrl, signal);
+          setPreviewSnapshot({
+              id: key,
+              url: waybackUrl,
+              originalUrl: row.original,
+              timestamp: row.timestamp,
+              savedAt: Date.now(),
+              mimetype,
+              content,
+              blob,
+              provenance,
+              ...DEFAULT_SNAPSHOT_ORGANIZATION
+          });
+      } catch (e: any) {
+          if (isAbortError(e)) return;
+          setError(toApiError(e, "Preview Failed"));
       } finally {
           setDownloadingId(null);
       }
@@ -183,9 +335,10 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
     
     setDownloadingId(dlKey);
     setError(null);
+    const signal = downloadRequest.renew();
 
     try {
-        const content = await downloadSnapshotContent(snap.url);
+        const { content, blob, mimetype, provenance } = await downloadSnapshotContent(snap.url, signal);
         
         const dbId = `${snap.timestamp}-${availability.url}`;
         const snapshot: SavedSnapshot = {
@@ -194,15 +347,19 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
             originalUrl: availability.url,
             timestamp: snap.timestamp,
             savedAt: Date.now(),
-            mimetype: 'text/html',
-            content: content
+            mimetype,
+            content: content,
+            blob,
+            provenance,
+            ...DEFAULT_SNAPSHOT_ORGANIZATION
         };
 
-        await storageService.saveSnapshot(snapshot);
+        const warning = await storeSnapshot(snapshot);
         await loadSavedSnapshots();
-        alert("Success! Snapshot saved to the 'Library'.");
+        alert(warning ? `Snapshot saved to the 'Library'. ${warning}` : "Success! Snapshot saved to the 'Library'.");
     } catch (e: any) {
-        setError(e.message || "Save Failed");
+        if (isAbortError(e)) return;
+        setError(toApiError(e, "Save Failed"));
     } finally {
         setDownloadingId(null);
     }
@@ -214,29 +371,112 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
     const dlKey = 'latest-export';
     setDownloadingId(dlKey);
     setError(null);
+    const signal = downloadRequest.renew();
 
     try {
-        const content = await downloadSnapshotContent(snap.url);
-        const blob = new Blob([content], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
+        const { content, blob, mimetype } = await downloadSnapshotContent(snap.url, signal);
+        const url = URL.createObjectURL(blob || new Blob([content], { type: mimetype }));
         const a = document.createElement('a');
         a.href = url;
-        a.download = `wayback-${snap.timestamp}-${availability.url.replace(/[^a-z0-9]/gi, '_').slice(0, 30)}.html`;
+        a.download = captureFileName(availability.url, snap.timestamp, mimetype);
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
     } catch (e: any) {
-        setError(e.message || "Download Failed");
+        if (isAbortError(e)) return;
+        setError(toApiError(e, "Download Failed"));
     } finally {
         setDownloadingId(null);
     }
   };
 
+  // Keeps the two most recently picked captures; picking a third drops the oldest pick
+  const toggleCompare = (target: CompareTarget) => {
+      setCompareSelection(prev => prev.some(t => t.id === target.id)
+          ? prev.filter(t => t.id !== target.id)
+          : [...prev, target].slice(-2));
+  };
+
+  const toCompareTarget = (row: CDXRecord): CompareTarget => ({
+      id: `${row.timestamp}-${row.original}`,
+      timestamp: row.timestamp,
+      original: row.original
+  });
+
+  const openCompare = () => {
+      if (compareSelection.length === 2) setCompareTargets([compareSelection[0], compareSelection[1]]);
+  };
+
+  // Drills from the site tree into the History tab: exact history for a single page, prefix for a directory
+  const openNodeHistory = (node: UrlTreeNode) => {
+      const isPage = node.children.length === 0 && node.entries.length === 1;
+      const target = isPage ? node.entries[0].original : node.prefix;
+      const options: CDXQueryOptions = { ...DEFAULT_CDX_OPTIONS, matchType: isPage ? 'exact' : 'prefix' };
+      setUrl(target);
+      setCdxOptions(options);
+      setCdxView('captures');
+      handleAction(undefined, 'cdx', target, options);
+  };
+
+  const handleExportInventory = () => {
+      const blob = new Blob([urlInventoryToCsv(treeEntries)], { type: 'text/csv' });
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = href;
+      a.download = `url-inventory-${url.replace(/^[a-z]+:\/\//i, '').replace(/[^a-z0-9]/gi, '_').slice(0, 40)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(href);
+  };
+
+  const compareIds = useMemo(() => compareSelection.map(t => t.id), [compareSelection]);
+  const scopedSnapshots = useMemo(() => savedSnapshots.filter(snap => inLibraryScope(snap, libraryScope)), [savedSnapshots, libraryScope]);
+  const filteredSnapshots = useMemo(
+      () => scopedSnapshots.filter(snap => matchesSearchFilters(snapshotFacets(snap), libraryFilters)),
+      [scopedSnapshots, libraryFilters]
+  );
+  const folderPaths = useMemo(() => {
+      const paths: string[] = [];
+      const walk = (nodes: FolderNode[]) => nodes.forEach(node => {
+          paths.push(node.path);
+          walk(node.children);
+      });
+      walk(buildFolderTree(savedSnapshots));
+      return paths;
+  }, [savedSnapshots]);
+  const tagNames = useMemo(() => collectTags(savedSnapshots).map(t => t.tag), [savedSnapshots]);
+
   const handlePreviewSnapshot = (snapshot: SavedSnapshot) => {
       setPreviewSnapshot(snapshot);
   };
 
+  const updateSnapshot = async (id: string, changes: Partial<SnapshotOrganization>) => {
+      const updated = await storageService.updateSnapshot(id, changes);
+      setSavedSnapshots(current => current.map(s => (s.id === id ? updated : s)));
+  };
+
+  const handleToggleStar = async (snapshot: SavedSnapshot) => {
+      try {
+          await updateSnapshot(snapshot.id, { starred: !snapshot.starred });
+      } catch (e) {
+          console.error("Starring failed:", e);
+          alert("Failed to update the snapshot. Please try again.");
+      }
+  };
+
+  const handleOrganize = async (changes: SnapshotOrganization) => {
+      if (!organizingSnapshot) return;
+      try {
+          await updateSnapshot(organizingSnapshot.id, changes);
+          setOrganizingSnapshot(null);
+      } catch (e) {
+          console.error("Organizing failed:", e);
+          alert("Failed to save folder, tags and notes. Please try again.");
+      }
+  };
+
   const handleDeleteSnapshot = async (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
       if (confirm('Are you sure you want to delete this snapshot?')) {
@@ -263,7 +503,35 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
       return `${baseTag}${snap.content}`;
   };
 
-  const getCdxStats = () => {
+  // Snapshots with stored assets render from them; others load assets from the Wayback Machine
+  useEffect(() => {
+      if (!previewSnapshot || previewSnapshot.blob) return;
+      if (!previewSnapshot.assets?.count) {
+          setPreviewHtml(getPreviewContent(previewSnapshot));
+          return;
+      }
+      let revoke: (() => void) | null = null;
+      let cancelled = false;
+      setPreviewHtml('');
+      buildOfflinePreview(previewSnapshot)
+          .then(preview => {
+              if (cancelled) return preview.revoke();
+              revoke = preview.revoke;
+              setPreviewHtml(preview.html);
+          })
+          .catch(e => {
+              console.error("Offline preview failed, loading assets live:", e);
+              if (!cancelled) setPreviewHtml(getPreviewContent(previewSnapshot));
+          });
+      return () => {
+          cancelled = true;
+          revoke?.();
+      };
+  }, [previewSnapshot]);
+
+  const mementoArchives = useMemo(() => settings.mementoArchives.filter(a => a.enabled), [settings.mementoArchives]);
+
+  const cdxStats = useMemo(() => {
       const stats: Record<string, number> = {};
       cdxData.forEach(row => {
           const year = row.timestamp.substring(0, 4);
@@ -272,7 +540,18 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
       return Object.entries(stats)
           .map(([year, count]) => ({ year, count }))
           .sort((a, b) => a.year.localeCompare(b.year));
-  };
+  }, [cdxData]);
+
+  const urlTree = useMemo(() => buildUrlTree(treeEntries), [treeEntries]);
+  const treeTotals = useMemo(() => ({
+      urls: urlTree.reduce((sum, root) => sum + root.urls, 0),
+      captures: urlTree.reduce((sum, root) => sum + root.captures, 0),
+  }), [urlTree]);
+
+  const cdxRows = useMemo(
+      () => selectedYear ? cdxData.filter(row => row.timestamp.startsWith(selectedYear)) : cdxData,
+      [cdxData, selectedYear]
+  );
 
   return (
     <div className="h-full flex flex-col space-y-6">
@@ -307,6 +586,18 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
                 >
                     <Clock className="w-3.5 h-3.5" /> History
                 </button>
+                <button 
+                    onClick={() => setMode('tree')}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all ${mode === 'tree' ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    <FolderTree className="w-3.5 h-3.5" /> Site Tree
+                </button>
+                <button 
+                    onClick={() => setMode('links')}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all ${mode === 'links' ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                >
+                    <Unlink className="w-3.5 h-3.5" /> Link Rot
+                </button>
                 <button 
                     onClick={() => setMode('saved')}
                     className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-all ${mode === 'saved' ? 'bg-teal-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
@@ -332,36 +623,109 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
           {/* Input Bar (Shared for Available, Save, CDX) */}
           {mode !== 'saved' && (
               <div className="p-6 border-b border-gray-700 bg-gray-850">
-                <form onSubmit={(e) => handleAction(e)} className="flex gap-4">
-                    <div className="relative flex-1">
+                {mode === 'available' && (
+                    <div className={`bg-gray-900 p-1 rounded-lg border border-gray-700 inline-flex text-xs ${availabilityBatch ? '' : 'mb-4'}`}>
+                        {([[false, 'Single URL'], [true, 'URL list']] as const).map(([batch, label]) => (
+                            <button
+                                key={label}
+                                type="button"
+                                onClick={() => setAvailabilityBatch(batch)}
+                                className={`px-3 py-1 rounded-md transition-all ${availabilityBatch === batch ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {!(mode === 'available' && availabilityBatch) && (
+                    <form onSubmit={(e) => handleAction(e)} className="flex gap-4">
+                        <div className="relative flex-1">
+                            <input
+                                ref={inputRef}
+                                type="text"
+                                value={url}
+                                onChange={(e) => {
+                                    setUrl(e.target.value);
+                                    // A new URL makes a running lookup stale; save requests are left to finish
+                                    if (loading && mode !== 'save') cancelLookup();
+                                }}
+                                placeholder={
+                                    mode === 'available' ? "Enter URL to check availability (e.g. google.com)" :
+                                    mode === 'save' ? "Enter URL to save (e.g. myblog.com)" :
+                                    mode === 'tree' ? "Enter a site or path to map (e.g. example.com/blog/)" :
+                                    mode === 'links' ? "Enter a Wayback URL or a page URL (its latest capture is used)" :
+                                    "Enter URL to view history (e.g. example.com)"
+                                }
+                                className="w-full bg-gray-900 border border-gray-600 rounded-xl pl-4 pr-4 py-3 text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder-gray-500 shadow-inner"
+                            />
+                        </div>
+                        <Button type="submit" isLoading={loading} className="px-8 rounded-xl bg-indigo-600 hover:bg-indigo-500">
+                            {mode === 'available' ? 'Check' : mode === 'save' ? 'Save Now' : mode === 'tree' ? 'Map Site' : mode === 'links' ? 'Check Links' : 'Search History'}
+                        </Button>
+                    </form>
+                )}
+                {mode === 'available' && !availabilityBatch && (
+                    <div className="mt-4 flex flex-wrap items-center gap-3 text-xs">
+                        <span className="text-gray-500 font-medium">Closest to</span>
                         <input
-                            ref={inputRef}
-                            type="text"
-                            value={url}
-                            onChange={(e) => setUrl(e.target.value)}
-                            placeholder={
-                                mode === 'available' ? "Enter URL to check availability (e.g. google.com)" :
-                                mode === 'save' ? "Enter URL to save (e.g. myblog.com)" :
-                                "Enter URL to view history (e.g. example.com)"
-                            }
-                            className="w-full bg-gray-900 border border-gray-600 rounded-xl pl-4 pr-4 py-3 text-gray-100 focus:ring-2 focus:ring-indigo-500 outline-none transition-all placeholder-gray-500 shadow-inner"
+                            type="datetime-local"
+                            value={closestTo}
+                            onChange={(e) => setClosestTo(e.target.value)}
+                            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:ring-2 focus:ring-indigo-500 outline-none [color-scheme:dark]"
                         />
-                    </div>
-                    <Button type="submit" isLoading={loading} className="px-8 rounded-xl bg-indigo-600 hover:bg-indigo-500">
-                        {mode === 'available' ? 'Check' : mode === 'save' ? 'Save Now' : 'Search History'}
-                    </Button>
-                </form>
-                {error && (
-                    <div className="mt-4 flex items-center gap-2 text-red-400 bg-red-500/10 p-3 rounded-lg border border-red-500/20 text-sm animate-in fade-in">
-                        <AlertTriangle className="w-4 h-4" />
-                        {error}
-                        {error.includes("Settings") && (
-                            <button onClick={() => onChangeView && onChangeView(AppView.SETTINGS)} className="underline hover:text-red-300 ml-1">
-                                Open Settings
-                            </button>
+                        <span className="text-gray-600">UTC</span>
+                        {closestTo ? (
+                            <>
+                                <label className="flex items-center gap-1.5 text-gray-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={onlyOkCaptures}
+                                        onChange={(e) => setOnlyOkCaptures(e.target.checked)}
+                                        className="accent-indigo-500"
+                                    />
+                                    Only HTTP 200 neighbors
+                                </label>
+                                <button type="button" onClick={() => setClosestTo('')} className="text-gray-500 hover:text-gray-300">
+                                    Latest instead
+                                </button>
+                            </>
+                        ) : (
+                            <span className="text-gray-600">Leave empty for the most recent capture</span>
                         )}
                     </div>
                 )}
+                {mode === 'cdx' && (
+                    <CDXQueryBuilder url={url} options={cdxOptions} onChange={setCdxOptions} />
+                )}
+                {mode === 'save' && (
+                    <SPNOptionsForm options={spnOptions} onChange={setSpnOptions} />
+                )}
+                {mode === 'tree' && (
+                    <div className="mt-4 flex items-center gap-3 text-xs">
+                        <span className="text-gray-500 font-medium">Scope</span>
+                        <div className="bg-gray-900 p-1 rounded-lg border border-gray-700 flex">
+                            {TREE_SCOPES.map(scope => (
+                                <button
+                                    key={scope.id}
+                                    type="button"
+                                    onClick={() => setTreeScope(scope.id)}
+                                    title={scope.hint}
+                                    className={`px-3 py-1 rounded-md transition-all ${treeScope === scope.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                                >
+                                    {scope.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {error && (
+                    <ErrorPanel
+                        error={error}
+                        onRetry={() => handleAction()}
+                        onChangeView={onChangeView}
+                        className="mt-4"
+                    />
+                )}
               </div>
           )}
 
@@ -369,7 +733,10 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
           <div className="flex-1 overflow-auto p-6 bg-gray-900/30 custom-scrollbar">
               
               {/* MODE: AVAILABLE */}
-              {mode === 'available' && (
+              {mode === 'available' && availabilityBatch && (
+                  <BatchAvailabilityPanel spnOptions={spnOptions} onOpenSaveQueue={() => setMode('save')} />
+              )}
+              {mode === 'available' && !availabilityBatch && (
                   availability ? (
                       <div className="max-w-3xl mx-auto space-y-6 animate-in fade-in slide-in-from-bottom-2">
                         {availability.archived_snapshots.closest ? (
@@ -379,9 +746,22 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
                                     <CheckCircle className="w-8 h-8 text-green-400" />
                                 </div>
                                 <h3 className="text-2xl font-bold text-white mb-2">Snapshot Available</h3>
-                                <p className="text-gray-400 mb-6">
-                                    The most recent capture was on <span className="text-white font-mono">{availability.archived_snapshots.closest.timestamp}</span>
-                                </p>
+                                {captureNeighbors ? (
+                                    <p className="text-gray-400 mb-3">
+                                        The closest capture to <span className="text-white font-mono">{captureNeighbors.target}</span> was on{' '}
+                                        <span className="text-white font-mono">{availability.archived_snapshots.closest.timestamp}</span>
+                                        <span className="block text-sm text-amber-300 mt-1">
+                                            {describeCaptureOffset(availability.archived_snapshots.closest.timestamp, captureNeighbors.target)}
+                                        </span>
+                                    </p>
+                                ) : (
+                                    <p className="text-gray-400 mb-3">
+                                        The most recent capture was on <span className="text-white font-mono">{availability.archived_snapshots.closest.timestamp}</span>
+                                    </p>
+                                )}
+                                <div className="mb-6">
+                                    <ProvenanceBadge provenance={availability.provenance} />
+                                </div>
                                 <div className="flex justify-center gap-4">
                                     <a 
                                         href={availability.archived_snapshots.closest.url}
@@ -414,14 +794,25 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
                                     <XCircle className="w-8 h-8 text-gray-500" />
                                 </div>
                                 <h3 className="text-xl font-bold text-white mb-2">No Snapshots Found</h3>
-                                <p className="text-gray-400 mb-6 max-w-md mx-auto">
+                                <p className="text-gray-400 mb-3 max-w-md mx-auto">
                                     We couldn't find any archived versions of this URL. You can try to save it now.
                                 </p>
+                                <div className="mb-6">
+                                    <ProvenanceBadge provenance={availability.provenance} />
+                                </div>
                                 <Button onClick={() => handleAction(undefined, 'save')} className="bg-indigo-600 hover:bg-indigo-500">
                                     <Camera className="w-4 h-4 mr-2" /> Save Page Now
                                 </Button>
                              </div>
                         )}
+                        {captureNeighbors && (
+                            <ClosestCaptures
+                                target={captureNeighbors.target}
+                                neighbors={captureNeighbors}
+                                closest={availability.archived_snapshots.closest?.timestamp}
+                            />
+                        )}
+                        <MementoAvailability url={availability.url} datetime={captureNeighbors?.target} archives={mementoArchives} onChangeView={onChangeView} />
                       </div>
                   ) : (
                       !loading && !error && (
@@ -436,51 +827,14 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
               {/* MODE: SAVE */}
               {mode === 'save' && (
                   <div className="max-w-4xl mx-auto">
-                      <div className="bg-gray-800 border border-gray-700 rounded-xl overflow-hidden mb-6">
-                          <div className="bg-gray-900 px-6 py-3 border-b border-gray-700 font-medium text-gray-300 flex justify-between items-center">
-                              <span>Request History (Session)</span>
-                              <span className="text-xs text-gray-500">{saveHistory.length} requests</span>
-                          </div>
-                          {saveHistory.length === 0 ? (
-                              <div className="p-8 text-center text-gray-500">
-                                  No save requests yet. Enter a URL above to capture it.
-                              </div>
-                          ) : (
-                              <div className="divide-y divide-gray-700">
-                                  {saveHistory.map(req => (
-                                      <div key={req.id} className="p-4 flex items-center justify-between hover:bg-gray-700/30 transition-colors">
-                                          <div className="min-w-0 pr-4">
-                                              <div className="font-mono text-sm text-gray-300 truncate" title={req.url}>{req.url}</div>
-                                              <div className="text-xs text-gray-500 mt-1">{req.timestamp.toLocaleTimeString()}</div>
-                                          </div>
-                                          <div className="flex items-center gap-3 shrink-0">
-                                              {req.status === 'pending' && (
-                                                  <span className="flex items-center gap-1.5 text-yellow-400 text-xs font-medium bg-yellow-400/10 px-2 py-1 rounded-full">
-                                                      <Loader2 className="w-3 h-3 animate-spin" /> Processing
-                                                  </span>
-                                              )}
-                                              {req.status === 'success' && (
-                                                  <span className="flex items-center gap-1.5 text-green-400 text-xs font-medium bg-green-400/10 px-2 py-1 rounded-full">
-                                                      <CheckCircle className="w-3 h-3" /> Saved
-                                                  </span>
-                                              )}
-                                              {req.status === 'error' && (
-                                                  <span className="flex items-center gap-1.5 text-red-400 text-xs font-medium bg-red-400/10 px-2 py-1 rounded-full" title={req.message}>
-                                                      <XCircle className="w-3 h-3" /> Failed
-                                                  </span>
-                                              )}
-                                          </div>
-                                      </div>
-                                  ))}
-                              </div>
-                          )}
-                      </div>
-                      <div className="bg-indigo-900/20 border border-indigo-500/20 p-4 rounded-lg text-sm text-indigo-200">
+                      <SPNQuotaCard settings={settings} onChangeView={onChangeView} className="mb-6" />
+                      <SaveQueuePanel options={spnOptions} onChangeView={onChangeView} />
+                      <div className="mt-6 bg-indigo-900/20 border border-indigo-500/20 p-4 rounded-lg text-sm text-indigo-200">
                           <p className="flex items-start gap-2">
                               <Info className="w-4 h-4 shrink-0 mt-0.5" />
                               <span>
-                                  <strong>Note:</strong> Save Page Now requests are sent to the queue. 
-                                  It may take a few minutes for the snapshot to appear in the 'Available' check or on the public Wayback Machine.
+                                  <strong>Note:</strong> Save Page Now requests are paced to stay within SPN limits and tracked until the capture finishes. The queue is kept across reloads, resumes on its own, and pauses before your daily capture budget runs out.
+                                  With "Delay availability" the snapshot only appears in the 'Available' check or on the public Wayback Machine hours later.
                               </span>
                           </p>
                       </div>
@@ -490,88 +844,133 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
               {/* MODE: CDX (History) */}
               {mode === 'cdx' && (
                   <div className="h-full flex flex-col">
+                      {loading && cdxProgress && (
+                          <div className="mb-4 bg-gray-800 rounded-xl border border-gray-700 px-4 py-3 animate-in fade-in">
+                              <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+                                  <span className="flex items-center gap-2">
+                                      <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400" />
+                                      {cdxProgress.records.toLocaleString()} captures · page {cdxProgress.pages}
+                                      {cdxProgress.limit && ` · ${Math.min(100, Math.round(cdxProgress.records / cdxProgress.limit * 100))}%`}
+                                  </span>
+                                  <button onClick={cancelLookup} className="flex items-center gap-1 text-gray-400 hover:text-red-400 transition-colors">
+                                      <X className="w-3.5 h-3.5" /> Cancel
+                                  </button>
+                              </div>
+                              <div className="h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                                  {cdxProgress.limit ? (
+                                      <div
+                                          className="h-full bg-indigo-500 transition-all"
+                                          style={{ width: `${Math.min(100, cdxProgress.records / cdxProgress.limit * 100)}%` }}
+                                      />
+                                  ) : (
+                                      <div className="h-full w-1/3 bg-indigo-500 animate-pulse" />
+                                  )}
+                              </div>
+                          </div>
+                      )}
                       {cdxData.length > 0 ? (
                           <div className="flex-1 flex flex-col space-y-6">
-                              
-                              {/* Chart Section */}
-                              <div className="h-48 bg-gray-800 rounded-xl border border-gray-700 p-4 relative">
-                                  <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 absolute top-4 left-4">Capture Frequency</h4>
-                                  <ResponsiveContainer width="100%" height="100%">
-                                      <BarChart data={getCdxStats()}>
-                                          <Tooltip 
-                                              cursor={{fill: '#374151', opacity: 0.4}}
-                                              contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6', borderRadius: '0.5rem' }}
-                                          />
-                                          <Bar dataKey="count" fill="#6366f1" radius={[4, 4, 0, 0]} onClick={(data) => setSelectedYear(data.year === selectedYear ? null : data.year)}>
-                                              {getCdxStats().map((entry, index) => (
-                                                  <Cell key={`cell-${index}`} fill={entry.year === selectedYear ? '#818cf8' : '#4f46e5'} cursor="pointer" />
-                                              ))}
-                                          </Bar>
-                                          <XAxis dataKey="year" tick={{fontSize: 10}} interval={0} stroke="#4b5563" />
-                                      </BarChart>
-                                  </ResponsiveContainer>
+                              <div className="flex items-center justify-between">
+                                  <div className="bg-gray-800 p-1 rounded-xl border border-gray-700 flex text-xs font-medium">
+                                      <button
+                                          onClick={() => setCdxView('captures')}
+                                          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-all ${cdxView === 'captures' ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                                      >
+                                          <BarChart3 className="w-3.5 h-3.5" /> Captures
+                                      </button>
+                                      <button
+                                          onClick={() => setCdxView('calendar')}
+                                          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-all ${cdxView === 'calendar' ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                                      >
+                                          <Calendar className="w-3.5 h-3.5" /> Calendar
+                                      </button>
+                                      <button
+                                          onClick={() => setCdxView('changes')}
+                                          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-all ${cdxView === 'changes' ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                                      >
+                                          <GitCommitHorizontal className="w-3.5 h-3.5" /> Changes
+                                      </button>
+                                      <button
+                                          onClick={() => setCdxView('archives')}
+                                          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg transition-all ${cdxView === 'archives' ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-200'}`}
+                                      >
+                                          <Landmark className="w-3.5 h-3.5" /> Archives
+                                      </button>
+                                  </div>
+                                  <ProvenanceBadge provenance={cdxProvenance} />
                               </div>
 
-                              {/* Table Section */}
-                              <div className="flex-1 bg-gray-800 rounded-xl border border-gray-700 overflow-hidden flex flex-col">
-                                  <div className="px-4 py-2 border-b border-gray-700 bg-gray-850 flex justify-between items-center text-xs text-gray-400">
-                                      <span>{cdxData.length} records found {selectedYear ? `(Filtering by ${selectedYear})` : ''}</span>
-                                      {selectedYear && <button onClick={() => setSelectedYear(null)} className="text-indigo-400 hover:underline">Clear Filter</button>}
+                              {cdxView === 'changes' ? (
+                                  <ContentTimeline
+                                      records={cdxData}
+                                      onCompare={(older, newer) => setCompareTargets([toCompareTarget(older), toCompareTarget(newer)])}
+                                  />
+                              ) : cdxView === 'archives' ? (
+                                  cdxExactUrl ? (
+                                      <MementoHistory url={cdxExactUrl} archives={mementoArchives} records={cdxData} provenance={cdxProvenance} />
+                                  ) : (
+                                      <div className="flex-1 flex items-center justify-center text-sm text-gray-500 text-center p-8">
+                                          Other archives are compared per URL; use the "Exact" match type.
+                                      </div>
+                                  )
+                              ) : cdxView === 'calendar' ? (
+                                  <CaptureCalendar
+                                      records={cdxData}
+                                      year={selectedYear}
+                                      onYearChange={setSelectedYear}
+                                      downloadingId={downloadingId}
+                                      onPreview={handlePreviewCapture}
+                                      onDownload={handleDownload}
+                                  />
+                              ) : (
+                                  <>
+                                  {/* Chart Section */}
+                                  <div className="h-48 bg-gray-800 rounded-xl border border-gray-700 p-4 relative">
+                                      <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 absolute top-4 left-4">Capture Frequency</h4>
+                                      <ResponsiveContainer width="100%" height="100%">
+                                          <BarChart data={cdxStats}>
+                                              <Tooltip 
+                                                  cursor={{fill: '#374151', opacity: 0.4}}
+                                                  contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#f3f4f6', borderRadius: '0.5rem' }}
+                                              />
+                                              <Bar dataKey="count" fill="#6366f1" radius={[4, 4, 0, 0]} onClick={(data) => setSelectedYear(data.year === selectedYear ? null : data.year)}>
+                                                  {cdxStats.map((entry, index) => (
+                                                      <Cell key={`cell-${index}`} fill={entry.year === selectedYear ? '#818cf8' : '#4f46e5'} cursor="pointer" />
+                                                  ))}
+                                              </Bar>
+                                              <XAxis dataKey="year" tick={{fontSize: 10}} interval={0} stroke="#4b5563" />
+                                          </BarChart>
+                                      </ResponsiveContainer>
                                   </div>
-                                  <div className="flex-1 overflow-auto">
-                                    <table className="w-full text-sm text-left text-gray-300">
-                                        <thead className="text-xs text-gray-500 uppercase bg-gray-900 sticky top-0">
-                                            <tr>
-                                                <th className="px-4 py-3">Timestamp</th>
-                                                <th className="px-4 py-3">MimeType</th>
-                                                <th className="px-4 py-3">Status</th>
-                                                <th className="px-4 py-3">Actions</th>
-                                            </tr>
-                                        </thead>
-                                        <tbody className="divide-y divide-gray-700">
-                                            {cdxData
-                                                .filter(row => !selectedYear || row.timestamp.startsWith(selectedYear))
-                                                .slice(0, 500) // Render limit for performance
-                                                .map((row, idx) => (
-                                                <tr key={idx} className="hover:bg-gray-700/50">
-                                                    <td className="px-4 py-2 font-mono text-xs">{row.timestamp}</td>
-                                                    <td className="px-4 py-2 text-xs">{row.mimetype}</td>
-                                                    <td className="px-4 py-2">
-                                                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${
-                                                            row.statuscode === '200' ? 'bg-green-500/10 text-green-400' :
-                                                            row.statuscode.startsWith('3') ? 'bg-blue-500/10 text-blue-400' :
-                                                            row.statuscode.startsWith('4') || row.statuscode.startsWith('5') ? 'bg-red-500/10 text-red-400' :
-                                                            'bg-gray-700 text-gray-400'
-                                                        }`}>
-                                                            {row.statuscode}
-                                                        </span>
-                                                    </td>
-                                                    <td className="px-4 py-2 flex items-center gap-2">
-                                                        <a 
-                                                            href={`https://web.archive.org/web/${row.timestamp}/${row.original}`}
-                                                            target="_blank"
-                                                            rel="noreferrer"
-                                                            className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
-                                                            title="View"
-                                                        >
-                                                            <ExternalLink className="w-3.5 h-3.5" />
-                                                        </a>
-                                                        <button 
-                                                            id={`btn-dl-${row.timestamp}-${row.original}`}
-                                                            onClick={() => handleDownload(row)}
-                                                            disabled={downloadingId !== null}
-                                                            className={`p-1 hover:bg-gray-600 rounded transition-colors ${downloadingId === `${row.timestamp}-${row.original}` ? 'text-indigo-400 animate-pulse' : 'text-gray-400 hover:text-white'}`}
-                                                            title="Save to Library"
-                                                        >
-                                                            {downloadingId === `${row.timestamp}-${row.original}` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
-                                                        </button>
-                                                    </td>
-                                                </tr>
-                                            ))}
-                                        </tbody>
-                                    </table>
+
+                                  {/* Table Section */}
+                                  <div className="flex-1 bg-gray-800 rounded-xl border border-gray-700 overflow-hidden flex flex-col">
+                                      <div className="px-4 py-2 border-b border-gray-700 bg-gray-850 flex justify-between items-center text-xs text-gray-400">
+                                          <span className="flex items-center gap-2">
+                                              {cdxData.length.toLocaleString()} records found {selectedYear ? `(${cdxRows.length.toLocaleString()} in ${selectedYear})` : ''}
+                                          </span>
+                                          <span className="flex items-center gap-3">
+                                              {selectedYear && <button onClick={() => setSelectedYear(null)} className="text-indigo-400 hover:underline">Clear Filter</button>}
+                                              <button
+                                                  onClick={openCompare}
+                                                  disabled={compareSelection.length !== 2}
+                                                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-indigo-300 hover:bg-indigo-500/20 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                                                  title="Select two captures (here or in the Library) to compare them"
+                                              >
+                                                  <GitCompare className="w-3.5 h-3.5" /> Compare ({compareSelection.length}/2)
+                                              </button>
+                                          </span>
+                                      </div>
+                                      <CDXTable
+                                          rows={cdxRows}
+                                          downloadingId={downloadingId}
+                                          onDownload={handleDownload}
+                                          selectedIds={compareIds}
+                                          onToggleSelect={row => toggleCompare(toCompareTarget(row))}
+                                      />
                                   </div>
-                              </div>
+                                  </>
+                              )}
                           </div>
                       ) : (
                           !loading && !error && (
@@ -584,12 +983,70 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
                   </div>
               )}
 
+              {/* MODE: TREE (Site inventory) */}
+              {mode === 'tree' && (
+                  <div className="h-full flex flex-col">
+                      {loading && treeProgress && (
+                          <div className="mb-4 bg-gray-800 rounded-xl border border-gray-700 px-4 py-3 flex items-center justify-between text-xs text-gray-400 animate-in fade-in">
+                              <span className="flex items-center gap-2">
+                                  <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400" />
+                                  {treeProgress.records.toLocaleString()} URLs · page {treeProgress.pages}
+                              </span>
+                              <button onClick={cancelLookup} className="flex items-center gap-1 text-gray-400 hover:text-red-400 transition-colors">
+                                  <X className="w-3.5 h-3.5" /> Cancel
+                              </button>
+                          </div>
+                      )}
+                      {urlTree.length > 0 ? (
+                          <div className="flex-1 flex flex-col space-y-4">
+                              <div className="flex items-center justify-between">
+                                  <span className="text-xs text-gray-400">
+                                      {treeTotals.urls.toLocaleString()} URLs · {treeTotals.captures.toLocaleString()} captures
+                                      {urlTree.length > 1 && ` · ${urlTree.length.toLocaleString()} hosts`}
+                                  </span>
+                                  <div className="flex items-center gap-3">
+                                      <ProvenanceBadge provenance={treeProvenance} />
+                                      <Button variant="secondary" onClick={handleExportInventory} className="h-8 text-xs">
+                                          <FileDown className="w-3 h-3 mr-1" /> Export CSV
+                                      </Button>
+                                  </div>
+                              </div>
+                              <URLTree roots={urlTree} onOpenHistory={openNodeHistory} />
+                          </div>
+                      ) : (
+                          !loading && !error && (
+                            <div className="h-full flex flex-col items-center justify-center text-gray-500 opacity-60">
+                                <FolderTree className="w-16 h-16 mb-4" />
+                                <p>{hasSearched ? 'No archived URLs found in this scope.' : 'Map every archived URL under a site or path.'}</p>
+                            </div>
+                          )
+                      )}
+                  </div>
+              )}
+
+              {/* MODE: LINKS (Link rot) */}
+              {mode === 'links' && (
+                  linkPage ? (
+                      <LinkRotPanel page={linkPage} spnOptions={spnOptions} onOpenSaveQueue={() => setMode('save')} />
+                  ) : (
+                      !loading && !error && (
+                          <div className="h-full flex flex-col items-center justify-center text-gray-500 opacity-60">
+                              <Unlink className="w-16 h-16 mb-4" />
+                              <p>Check which of a page's outlinks were archived by the time it was captured.</p>
+                          </div>
+                      )
+                  )
+              )}
+
               {/* MODE: SAVED (Library) */}
               {mode === 'saved' && (
                   <div className="h-full flex flex-col">
                       <div className="flex justify-between items-center mb-4">
                           <h3 className="text-lg font-bold text-white">Snapshot Library</h3>
                           <div className="flex gap-2">
+                             <Button onClick={openCompare} disabled={compareSelection.length !== 2} variant="secondary" className="h-8 text-xs">
+                                 <GitCompare className="w-3 h-3 mr-1" /> Compare ({compareSelection.length}/2)
+                             </Button>
                              <Button onClick={() => loadSavedSnapshots()} variant="secondary" className="h-8 text-xs">
                                  Refresh
                              </Button>
@@ -606,49 +1063,138 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
                               <p className="text-xs mt-1">Use the "Available" or "History" tab to download pages.</p>
                           </div>
                       ) : (
-                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-6">
-                              {savedSnapshots.map(snap => (
-                                  <div key={snap.id} className="bg-gray-800 border border-gray-700 rounded-xl p-4 flex flex-col hover:border-gray-600 transition-colors group relative">
-                                      <div className="flex items-start justify-between mb-2">
-                                          <div className="bg-gray-900 text-xs font-mono px-2 py-1 rounded text-teal-400 border border-gray-800">
-                                              {snap.timestamp}
-                                          </div>
-                                          <div className="flex gap-1">
-                                              <button 
-                                                  onClick={() => handlePreviewSnapshot(snap)}
-                                                  className="p-1.5 hover:bg-indigo-500/20 text-gray-400 hover:text-indigo-400 rounded-lg transition-colors"
-                                                  title="Preview"
-                                              >
-                                                  <Eye className="w-4 h-4" />
-                                              </button>
-                                              <button 
-                                                  onClick={(e) => handleDeleteSnapshot(snap.id, e)}
-                                                  className="p-1.5 hover:bg-red-500/20 text-gray-400 hover:text-red-400 rounded-lg transition-colors"
-                                                  title="Delete"
-                                              >
-                                                  <Trash2 className="w-4 h-4" />
-                                              </button>
-                                          </div>
+                          <div className="flex-1 min-h-0 flex gap-4">
+                              <LibrarySidebar snapshots={savedSnapshots} scope={libraryScope} onScopeChange={setLibraryScope} />
+                              <div className="flex-1 min-w-0 overflow-y-auto custom-scrollbar">
+                                  <LibrarySearchBar
+                                      snapshots={savedSnapshots}
+                                      scoped={scopedSnapshots}
+                                      filters={libraryFilters}
+                                      onFiltersChange={setLibraryFilters}
+                                      onResults={setLibrarySearch}
+                                  />
+                                  {librarySearch ? (
+                                      <LibrarySearchResults results={librarySearch} snapshots={savedSnapshots} onOpen={handlePreviewSnapshot} />
+                                  ) : filteredSnapshots.length === 0 ? (
+                                      <div className="p-8 text-center text-gray-500">No saved snapshots match these filters.</div>
+                                  ) : (
+                                      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 pb-6">
+                                          {filteredSnapshots.map(snap => (
+                                              <div key={snap.id} className="bg-gray-800 border border-gray-700 rounded-xl p-4 flex flex-col hover:border-gray-600 transition-colors group relative">
+                                                  <div className="flex items-start justify-between mb-2">
+                                                      <div className="bg-gray-900 text-xs font-mono px-2 py-1 rounded text-teal-400 border border-gray-800">
+                                                          {snap.timestamp}
+                                                      </div>
+                                                      <div className="flex gap-1">
+                                                          <button
+                                                              onClick={() => handleToggleStar(snap)}
+                                                              className={`p-1.5 rounded-lg transition-colors hover:bg-yellow-500/20 ${snap.starred ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-400'}`}
+                                                              title={snap.starred ? 'Unstar' : 'Star'}
+                                                          >
+                                                              <Star className={`w-4 h-4 ${snap.starred ? 'fill-yellow-400' : ''}`} />
+                                                          </button>
+                                                          <button
+                                                              onClick={() => setOrganizingSnapshot(snap)}
+                                                              className="p-1.5 hover:bg-indigo-500/20 text-gray-400 hover:text-indigo-400 rounded-lg transition-colors"
+                                                              title="Folder, tags and notes"
+                                                          >
+                                                              <Tag className="w-4 h-4" />
+                                                          </button>
+                                                          <button 
+                                                              onClick={() => toggleCompare({ id: String(snap.id), timestamp: snap.timestamp, original: snap.originalUrl, content: snap.content })}
+                                                              disabled={!!snap.blob}
+                                                              className={`p-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none ${compareIds.includes(String(snap.id)) ? 'bg-indigo-500/20 text-indigo-300' : 'text-gray-400 hover:bg-indigo-500/20 hover:text-indigo-400'}`}
+                                                              title={snap.blob ? 'Only text captures can be compared' : 'Select to compare'}
+                                                          >
+                                                              <GitCompare className="w-4 h-4" />
+                                                          </button>
+                                                          <button 
+                                                              onClick={() => handlePreviewSnapshot(snap)}
+                                                              className="p-1.5 hover:bg-indigo-500/20 text-gray-400 hover:text-indigo-400 rounded-lg transition-colors"
+                                                              title="Preview"
+                                                          >
+                                                              <Eye className="w-4 h-4" />
+                                                          </button>
+                                                          <button 
+                                                              onClick={(e) => handleDeleteSnapshot(snap.id, e)}
+                                                              className="p-1.5 hover:bg-red-500/20 text-gray-400 hover:text-red-400 rounded-lg transition-colors"
+                                                              title="Delete"
+                                                          >
+                                                              <Trash2 className="w-4 h-4" />
+                                                          </button>
+                                                      </div>
+                                                  </div>
+                                                  <div className="flex-1 min-h-0 mb-3">
+                                                      <div className="font-medium text-white truncate mb-1" title={snap.originalUrl}>
+                                                          {snap.originalUrl}
+                                                      </div>
+                                                      <div className="text-xs text-gray-500">
+                                                          Saved: {new Date(snap.savedAt).toLocaleDateString()}
+                                                      </div>
+                                                      <div className="text-xs text-gray-500">
+                                                          Type: {snap.mimetype}
+                                                      </div>
+                                                      {snap.folder && (
+                                                          <button onClick={() => setLibraryScope({ ...libraryScope, folder: snap.folder })} className="mt-1 flex items-center gap-1 text-xs text-yellow-500/80 hover:text-yellow-400 max-w-full" title="Show this folder">
+                                                              <Folder className="w-3 h-3 shrink-0" /> <span className="truncate">{snap.folder}</span>
+                                                          </button>
+                                                      )}
+                                                      {snap.tags.length > 0 && (
+                                                          <div className="mt-1.5 flex flex-wrap gap-1">
+                                                              {snap.tags.map(tag => (
+                                                                  <button
+                                                                      key={tag}
+                                                                      onClick={() => setLibraryScope({ ...libraryScope, tag })}
+                                                                      className="px-1.5 py-0.5 rounded-full text-[10px] bg-indigo-500/10 text-indigo-300 hover:bg-indigo-500/20"
+                                                                  >
+                                                                      {tag}
+                                                                  </button>
+                                                              ))}
+                                                          </div>
+                                                      )}
+                                                      {snap.notes && (
+                                                          <p className="mt-1.5 text-xs text-gray-400 italic line-clamp-2 whitespace-pre-line" title={snap.notes}>{snap.notes}</p>
+                                                      )}
+                                                      {snap.provenance && (
+                                                          <ProvenanceBadge provenance={snap.provenance} className="mt-2" />
+                                                      )}
+                                                  </div>
+                                                  <div className="pt-3 border-t border-gray-700 flex justify-between items-center text-xs">
+                                                       <span className="text-gray-600">{((snap.blob?.size ?? snap.content.length) / 1024).toFixed(1)} KB</span>
+                                                       {assetProgress?.id === snap.id ? (
+                                                           <span className="flex items-center gap-1 text-gray-400">
+                                                               <Loader2 className="w-3 h-3 animate-spin" /> Assets {assetProgress.done}/{assetProgress.total}
+                                                           </span>
+                                                       ) : snap.blob ? (
+                                                           <span className="px-1.5 py-0.5 rounded bg-gray-700/50 text-gray-400" title="Stored as downloaded; previews without a network connection">
+                                                               Binary file
+                                                           </span>
+                                                       ) : snap.assets ? (
+                                                           <span
+                                                               className={`px-1.5 py-0.5 rounded ${snap.assets.failed ? 'bg-yellow-500/10 text-yellow-300' : 'bg-teal-500/10 text-teal-300'}`}
+                                                               title={snap.assets.failed ? `${snap.assets.failed} assets could not be saved and load from the Wayback Machine` : 'Previews without a network connection'}
+                                                           >
+                                                               Offline · {snap.assets.count} assets · {(snap.assets.bytes / 1024).toFixed(0)} KB
+                                                           </span>
+                                                       ) : (
+                                                           <button
+                                                               onClick={() => handleSaveAssets(snap)}
+                                                               disabled={!!assetProgress}
+                                                               className="flex items-center gap-1 text-gray-400 hover:text-teal-300 disabled:opacity-50 transition-colors"
+                                                               title="Download images, styles and scripts for offline preview"
+                                                           >
+                                                               <HardDriveDownload className="w-3 h-3" /> Save assets
+                                                           </button>
+                                                       )}
+                                                       <a href={snap.url} target="_blank" rel="noreferrer" className="text-indigo-400 hover:underline flex items-center gap-1">
+                                                           Original <ExternalLink className="w-3 h-3" />
+                                                       </a>
+                                                  </div>
+                                              </div>
+                                          ))}
                                       </div>
-                                      <div className="flex-1 min-h-0 mb-3">
-                                          <div className="font-medium text-white truncate mb-1" title={snap.originalUrl}>
-                                              {snap.originalUrl}
-                                          </div>
-                                          <div className="text-xs text-gray-500">
-                                              Saved: {new Date(snap.savedAt).toLocaleDateString()}
-                                          </div>
-                                          <div className="text-xs text-gray-500">
-                                              Type: {snap.mimetype}
-                                          </div>
-                                      </div>
-                                      <div className="pt-3 border-t border-gray-700 flex justify-between items-center text-xs">
-                                           <span className="text-gray-600">{(snap.content.length / 1024).toFixed(1)} KB</span>
-                                           <a href={snap.url} target="_blank" rel="noreferrer" className="text-indigo-400 hover:underline flex items-center gap-1">
-                                               Original <ExternalLink className="w-3 h-3" />
-                                           </a>
-                                      </div>
-                                  </div>
-                              ))}
+                                  )}
+                              </div>
                           </div>
                       )}
                   </div>
@@ -668,23 +1214,47 @@ const WaybackTools: React.FC<Props> = ({ settings, onChangeView }) => {
                            <span className="text-xs bg-gray-200 px-2 py-0.5 rounded text-gray-600 font-mono">
                                {previewSnapshot.timestamp}
                            </span>
+                           {previewSnapshot.blob ? (
+                               <span className="text-xs text-gray-500 font-mono">
+                                   {previewSnapshot.mimetype}
+                               </span>
+                           ) : previewSnapshot.assets?.count ? (
+                               <span className="text-xs bg-teal-100 text-teal-700 px-2 py-0.5 rounded" title="Images, styles and scripts come from the Library">
+                                   Offline
+                               </span>
+                           ) : (
+                               <span className="text-xs text-gray-500" title="Images, styles and scripts load from the Wayback Machine">
+                                   Live assets
+                               </span>
+                           )}
                        </div>
                        <button onClick={() => setPreviewSnapshot(null)} className="p-2 hover:bg-gray-200 rounded-full text-gray-600 transition-colors">
                            <X className="w-5 h-5" />
                        </button>
                    </div>
-                   <div className="flex-1 relative bg-white">
-                        <iframe 
-                            srcDoc={getPreviewContent(previewSnapshot)}
-                            className="w-full h-full border-none"
-                            title="Snapshot Preview"
-                            sandbox="allow-same-origin allow-scripts" // Security: restrict somewhat, but allow scripts for basic rendering
-                        />
+                   <div className="flex-1 relative bg-white min-h-0">
+                        <SnapshotViewer snapshot={previewSnapshot} html={previewHtml} />
                    </div>
                </div>
            </div>
        )}
 
+       {/* Organize Modal */}
+       {organizingSnapshot && (
+           <SnapshotOrganizer
+               snapshot={organizingSnapshot}
+               folders={folderPaths}
+               tags={tagNames}
+               onSave={handleOrganize}
+               onClose={() => setOrganizingSnapshot(null)}
+           />
+       )}
+
+       {/* Diff Modal */}
+       {compareTargets && (
+           <SnapshotDiff targets={compareTargets} onClose={() => setCompareTargets(null)} />
+       )}
+
        {/* Export Modal */}
        <ExportModal 
            isOpen={isExportOpen} 
@@ -1,12 +1,26 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { iaProxyPlugin } from './server/iaProxy';
 
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    port: 3000,
-  },
-  optimizeDeps: {
-    include: ['xlsx'],
-  },
-});
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  // IA_ACCESS_KEY / IA_SECRET_KEY (e.g. from .env.local) stay on the server.
+  // IA_PROXY_HOSTS adds comma-separated hosts the proxy may forward to, e.g. "localhost" for a local pywb.
+  const env = loadEnv(mode, process.cwd(), 'IA_');
+
+  return {
+    plugins: [
+      react(),
+      iaProxyPlugin({
+        accessKey: env.IA_ACCESS_KEY,
+        secretKey: env.IA_SECRET_KEY,
+        extraHosts: env.IA_PROXY_HOSTS?.split(','),
+      }),
+    ],
+    server: {
+      port: 3000,
+    },
+    optimizeDeps: {
+      include: ['xlsx'],
+    },
+  };
+});